@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { keyToUint8Array, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { agentKeyChain, agentStatus, getAgentSocketPath, runAgent, stopAgent, type AgentState } from "./agent.js";
+
+const USER_RAW = { "86": "user-id" };
+let dir: string;
+let socketPath: string;
+
+describe("agent", () => {
+  const mailGroupKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+
+  function state(expiresInMs = 60_000): AgentState {
+    return {
+      profile: "default",
+      userId: "user-id",
+      userRaw: USER_RAW,
+      groupKeys: [
+        { groupId: "mail-group", keyVersion: "1", key: mailGroupKey },
+        { groupId: "mail-group", keyVersion: "0", key: uint8ArrayToKey(new Uint8Array(randomBytes(32))) },
+      ],
+      expiresAt: Date.now() + expiresInMs,
+    };
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tcli-agent-"));
+    socketPath = path.join(dir, "agent", "default.sock");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("socket paths are per profile and stay in the agent directory", () => {
+    assert.match(getAgentSocketPath("work"), /\/agent\/work\.sock$/);
+    assert.throws(() => getAgentSocketPath("../x"), /Invalid profile name/);
+  });
+
+  test("serves status and the key chain on a socket only the owner can use", async () => {
+    const agent = await runAgent(state(), socketPath);
+    try {
+      assert.equal(fs.statSync(socketPath).mode & 0o777, 0o600);
+      const status = await agentStatus(socketPath);
+      assert.equal(status?.userId, "user-id");
+      assert.equal(status?.pid, process.pid);
+
+      const served = await agentKeyChain(socketPath);
+      assert.ok(served != null);
+      assert.deepEqual(served.userRaw, USER_RAW);
+      assert.deepEqual(served.keyChain.getAvailableKeyVersions("mail-group"), ["1", "0"]);
+      assert.deepEqual(keyToUint8Array(served.keyChain.getGroupKey("mail-group", "1")!), keyToUint8Array(mailGroupKey));
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  test("makes an existing socket directory private before listening", async () => {
+    fs.mkdirSync(path.dirname(socketPath), { mode: 0o755 });
+    fs.chmodSync(path.dirname(socketPath), 0o755);
+    const agent = await runAgent(state(), socketPath);
+    try {
+      assert.equal(fs.statSync(path.dirname(socketPath)).mode & 0o777, 0o700);
+      assert.equal(fs.statSync(socketPath).mode & 0o777, 0o600);
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  test("stops on request and when it expires, removing the socket", async () => {
+    const agent = await runAgent(state(), socketPath);
+    assert.equal(await stopAgent(socketPath), true);
+    await agent.closed;
+    assert.equal(fs.existsSync(socketPath), false);
+    assert.equal(await agentStatus(socketPath), null);
+    assert.equal(await stopAgent(socketPath), false);
+
+    const expiring = await runAgent(state(50), socketPath);
+    await expiring.closed;
+    assert.equal(fs.existsSync(socketPath), false);
+  });
+
+  test("refuses to start twice but replaces a socket left by a dead agent", async () => {
+    const agent = await runAgent(state(), socketPath);
+    await assert.rejects(runAgent(state(), socketPath), /already running/);
+    await agent.stop();
+
+    // A file nobody listens on, as left behind by a killed agent.
+    fs.writeFileSync(socketPath, "");
+    const replaced = await runAgent(state(), socketPath);
+    assert.equal((await agentStatus(socketPath))?.userId, "user-id");
+    await replaced.stop();
+  });
+});
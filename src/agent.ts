@@ -0,0 +1,337 @@
+/**
+ * Key agent, like ssh-agent: a background process that holds the unlocked key chain of one profile and serves it
+ * to later CLI runs over a Unix socket (mode 0600) until its timeout, so decrypting commands skip loadUser, the
+ * password prompt and Argon2.
+ *
+ * Protocol: one JSON request line per connection, answered by one JSON line ({ "ok": true, ... } or
+ * { "ok": false, "error": "..." }):
+ * - { "op": "status" } – user id, profile, pid and expiry
+ * - { "op": "keyChain" } – the raw User and all unlocked group keys
+ * - { "op": "stop" } – shut the agent down
+ *
+ * Unlike ssh-agent, which keeps keys and only performs operations with them, the keyChain op hands the raw group
+ * keys to the client, which decrypts in its own process. This is a deliberate deviation: session keys, bucket keys
+ * and former key versions are resolved throughout the crypto code, which would otherwise all have to run behind the
+ * socket. The socket permissions (owner only) are therefore what protects the keys; see README ("agent").
+ */
+
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { spawn } from "child_process";
+import { keyToUint8Array, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import {
+  createKeyChainFromGroupKeys,
+  type FormerKeyLoader,
+  type KeyChain,
+  type UnlockedGroupKey,
+} from "./crypto/keyChain.js";
+import { getErrorMessage } from "./logger.js";
+import * as logger from "./logger.js";
+import { getConfigDir, getProfile, validateProfileName } from "./session.js";
+
+const AGENT_DIR = "agent";
+/** Time limit for a request to a running agent. */
+const REQUEST_TIMEOUT_MS = 5000;
+/** Time limit for a spawned agent to start listening. */
+const START_TIMEOUT_MS = 10000;
+const READY_LINE = "ready";
+
+/** What the agent holds: the unlocked group keys of one user, until expiresAt (ms since epoch). */
+export interface AgentState {
+  profile: string;
+  userId: string;
+  userRaw: Record<string, unknown>;
+  groupKeys: UnlockedGroupKey[];
+  expiresAt: number;
+}
+
+export interface AgentStatus {
+  profile: string;
+  userId: string;
+  pid: number;
+  expiresAt: string;
+}
+
+export interface RunningAgent {
+  socketPath: string;
+  /** Stop listening, remove the socket and drop the keys. */
+  stop(): Promise<void>;
+  /** Resolves once the agent has stopped (timeout, 'agent stop' or stop()). */
+  closed: Promise<void>;
+}
+
+interface WireGroupKey {
+  groupId: string;
+  keyVersion: string;
+  /** Key bytes, base64. */
+  key: string;
+}
+
+type AgentRequest =
+  | { op: "status" }
+  | { op: "keyChain" }
+  | { op: "stop" };
+
+type AgentResponse = ({ ok: true } & Record<string, unknown>) | { ok: false; error: string };
+
+/** Socket of a profile's agent (default: the profile in use). */
+export function getAgentSocketPath(profile = getProfile()): string {
+  return path.join(getConfigDir(), AGENT_DIR, validateProfileName(profile) + ".sock");
+}
+
+function encodeGroupKeys(groupKeys: UnlockedGroupKey[]): WireGroupKey[] {
+  return groupKeys.map(({ groupId, keyVersion, key }) => ({
+    groupId,
+    keyVersion,
+    key: Buffer.from(keyToUint8Array(key)).toString("base64"),
+  }));
+}
+
+function decodeGroupKeys(groupKeys: WireGroupKey[]): UnlockedGroupKey[] {
+  return groupKeys.map(({ groupId, keyVersion, key }) => ({
+    groupId,
+    keyVersion,
+    key: uint8ArrayToKey(new Uint8Array(Buffer.from(key, "base64"))),
+  }));
+}
+
+/** Serialized state for a spawned agent (stdin of 'agent serve'). */
+function encodeState(state: AgentState): string {
+  return JSON.stringify({ ...state, groupKeys: encodeGroupKeys(state.groupKeys) });
+}
+
+function decodeState(json: string): AgentState {
+  const parsed = JSON.parse(json) as Omit<AgentState, "groupKeys"> & { groupKeys: WireGroupKey[] };
+  return { ...parsed, groupKeys: decodeGroupKeys(parsed.groupKeys) };
+}
+
+/** Send one request to the profile's agent. Resolves to null when no agent is running. */
+async function requestAgent(request: AgentRequest, socketPath: string): Promise<AgentResponse | null> {
+  if (!fs.existsSync(socketPath)) return null;
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    let data = "";
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error(`Agent at ${socketPath} did not answer.`));
+    });
+    socket.on("connect", () => socket.write(JSON.stringify(request) + "\n"));
+    socket.on("data", (chunk) => (data += chunk.toString("utf8")));
+    socket.on("end", () => {
+      try {
+        resolve(JSON.parse(data) as AgentResponse);
+      } catch {
+        reject(new Error(`Invalid answer from agent at ${socketPath}.`));
+      }
+    });
+    socket.on("error", (err: NodeJS.ErrnoException) => {
+      // Socket left behind by an agent that was killed: same as no agent.
+      if (err.code === "ECONNREFUSED" || err.code === "ENOENT") resolve(null);
+      else reject(new Error(`Could not reach agent at ${socketPath}: ${err.message}`));
+    });
+  });
+}
+
+async function requestAgentOk(request: AgentRequest, socketPath: string): Promise<Record<string, unknown> | null> {
+  const response = await requestAgent(request, socketPath);
+  if (response == null) return null;
+  if (!response.ok) throw new Error(`Agent: ${response.error}`);
+  return response;
+}
+
+/** Status of the profile's agent, or null when none is running. */
+export async function agentStatus(socketPath = getAgentSocketPath()): Promise<AgentStatus | null> {
+  return (await requestAgentOk({ op: "status" }, socketPath)) as AgentStatus | null;
+}
+
+/**
+ * The key chain and User held by the profile's agent, or null when none is running.
+ * With loadFormerKey, the key chain resolves older key versions of the agent's groups on demand.
+ */
+export async function agentKeyChain(
+  socketPath = getAgentSocketPath(),
+  loadFormerKey: FormerKeyLoader | null = null
+): Promise<{ userId: string; userRaw: Record<string, unknown>; keyChain: KeyChain } | null> {
+  const response = await requestAgentOk({ op: "keyChain" }, socketPath);
+  if (response == null) return null;
+  return {
+    userId: response.userId as string,
+    userRaw: response.userRaw as Record<string, unknown>,
+    keyChain: createKeyChainFromGroupKeys(decodeGroupKeys(response.groupKeys as WireGroupKey[]), loadFormerKey),
+  };
+}
+
+/** Stop the profile's agent. Returns false when none was running. */
+export async function stopAgent(socketPath = getAgentSocketPath()): Promise<boolean> {
+  return (await requestAgentOk({ op: "stop" }, socketPath)) != null;
+}
+
+/**
+ * Create the socket directory, or make an existing one private (0700). Throws when it belongs to another user, who
+ * could swap the socket.
+ */
+function ensurePrivateDir(dir: string): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stat = fs.lstatSync(dir);
+  if (!stat.isDirectory() || (process.getuid != null && stat.uid !== process.getuid())) {
+    throw new Error(`Agent directory ${dir} is not a directory owned by you.`);
+  }
+  if ((stat.mode & 0o777) !== 0o700) fs.chmodSync(dir, 0o700);
+}
+
+/**
+ * Listen on the socket and serve the state until it expires or is stopped. Fails if an agent is already running
+ * on the socket; a socket left behind by a dead agent is replaced.
+ */
+export async function runAgent(state: AgentState, socketPath = getAgentSocketPath(state.profile)): Promise<RunningAgent> {
+  const running = await agentStatus(socketPath);
+  if (running != null) {
+    throw new Error(`An agent is already running for profile ${running.profile} (pid ${running.pid}).`);
+  }
+  ensurePrivateDir(path.dirname(socketPath));
+  fs.rmSync(socketPath, { force: true });
+
+  let groupKeys = state.groupKeys;
+  let stopping: Promise<void> | null = null;
+  let resolveClosed: () => void = () => {};
+  const closed = new Promise<void>((resolve) => (resolveClosed = resolve));
+
+  const handle = (request: AgentRequest): AgentResponse => {
+    switch (request.op) {
+      case "status":
+        return {
+          ok: true,
+          profile: state.profile,
+          userId: state.userId,
+          pid: process.pid,
+          expiresAt: new Date(state.expiresAt).toISOString(),
+        };
+      case "keyChain":
+        return { ok: true, userId: state.userId, userRaw: state.userRaw, groupKeys: encodeGroupKeys(groupKeys) };
+      case "stop":
+        return { ok: true };
+      default:
+        return { ok: false, error: `Unknown request ${String((request as { op?: unknown }).op)}.` };
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    let data = "";
+    let answered = false;
+    socket.on("error", (err) => logger.logError("Agent connection error", err));
+    socket.on("data", (chunk) => {
+      if (answered) return;
+      data += chunk.toString("utf8");
+      const newline = data.indexOf("\n");
+      if (newline < 0) return;
+      answered = true;
+      let request: AgentRequest | null = null;
+      let response: AgentResponse;
+      try {
+        request = JSON.parse(data.slice(0, newline)) as AgentRequest;
+        response = handle(request);
+      } catch (err) {
+        response = { ok: false, error: getErrorMessage(err) };
+      }
+      socket.end(JSON.stringify(response) + "\n");
+      if (request?.op === "stop") void stop();
+    });
+  });
+
+  const stop = (): Promise<void> => {
+    stopping ??= new Promise<void>((resolve) => {
+      clearTimeout(expiry);
+      groupKeys = [];
+      server.close(() => {
+        fs.rmSync(socketPath, { force: true });
+        logger.log("Agent stopped.");
+        resolveClosed();
+        resolve();
+      });
+    });
+    return stopping;
+  };
+  const expiry = setTimeout(() => void stop(), Math.max(0, state.expiresAt - Date.now()));
+
+  // The socket is created with mode 0600 right away: chmod after listen() would leave a gap for other users.
+  const umask = process.umask(0o177);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  } finally {
+    process.umask(umask);
+  }
+  logger.log(`Agent listening on ${socketPath}.`);
+  return { socketPath, stop, closed };
+}
+
+/**
+ * Start the agent as a detached background process running 'agent serve' (cliArgs: arguments that run this CLI
+ * with that command). The state is passed on the child's stdin, never on disk. Resolves to the child's pid once
+ * it listens.
+ */
+export async function spawnAgent(state: AgentState, cliArgs: string[]): Promise<number> {
+  const child = spawn(process.execPath, cliArgs, { detached: true, stdio: ["pipe", "pipe", "ignore"] });
+  child.stdin.end(encodeState(state));
+  await new Promise<void>((resolve, reject) => {
+    let output = "";
+    const fail = (message: string) => {
+      clearTimeout(timer);
+      reject(new Error(message));
+    };
+    const timer = setTimeout(() => {
+      child.kill();
+      fail("Agent did not start in time.");
+    }, START_TIMEOUT_MS);
+    child.stdout.on("data", (chunk: Buffer) => {
+      output += chunk.toString("utf8");
+      if (output.split("\n").includes(READY_LINE)) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.on("error", (err) => fail(`Could not start agent: ${err.message}`));
+    child.on("exit", (code) => fail(output.trim() || `Agent exited with code ${String(code)}.`));
+  });
+  child.removeAllListeners("exit");
+  child.stdout.destroy();
+  child.unref();
+  return child.pid ?? 0;
+}
+
+/** Read the stdin to its end. */
+async function readStdin(): Promise<string> {
+  let data = "";
+  for await (const chunk of process.stdin) data += (chunk as Buffer).toString("utf8");
+  return data;
+}
+
+/** Serve until the agent stops; SIGINT and SIGTERM stop it cleanly (socket removed). */
+async function serveUntilStopped(agent: RunningAgent): Promise<void> {
+  const onSignal = () => void agent.stop();
+  process.once("SIGINT", onSignal);
+  process.once("SIGTERM", onSignal);
+  await agent.closed;
+  process.off("SIGINT", onSignal);
+  process.off("SIGTERM", onSignal);
+}
+
+/** 'agent start --foreground': serve the state in this process until the agent stops. */
+export async function serveAgentInForeground(state: AgentState, onListening: (socketPath: string) => void): Promise<void> {
+  const agent = await runAgent(state);
+  onListening(agent.socketPath);
+  await serveUntilStopped(agent);
+}
+
+/** Body of 'agent serve' (spawnAgent): read the state from stdin, report readiness on stdout and serve. */
+export async function serveSpawnedAgent(): Promise<void> {
+  const agent = await runAgent(decodeState(await readStdin()));
+  process.stdout.write(READY_LINE + "\n");
+  await serveUntilStopped(agent);
+}
@@ -0,0 +1,25 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { buildAuthVerifier, recoveryCodeToKey } from "./kdf.js";
+
+const CODE_HEX = "00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff";
+
+describe("kdf", () => {
+  describe("recoveryCodeToKey", () => {
+    test("accepts the code in groups as shown by the client", () => {
+      const grouped = CODE_HEX.toUpperCase().match(/.{4}/g)?.join(" ") ?? "";
+      assert.deepEqual(recoveryCodeToKey(grouped), recoveryCodeToKey(CODE_HEX));
+    });
+
+    test("verifier is the base64url SHA-256 of the key bytes", () => {
+      const expected = createHash("sha256").update(Buffer.from(CODE_HEX, "hex")).digest("base64url");
+      assert.equal(buildAuthVerifier(recoveryCodeToKey(CODE_HEX)), expected);
+    });
+
+    test("rejects codes of the wrong length or with non-hex characters", () => {
+      assert.throws(() => recoveryCodeToKey(CODE_HEX.slice(2)), /expected 64 hex characters/);
+      assert.throws(() => recoveryCodeToKey(CODE_HEX.slice(1) + "g"), /Invalid recovery code/);
+    });
+  });
+});
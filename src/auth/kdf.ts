@@ -1,3 +1,4 @@
+import { hexToUint8Array } from "@tutao/tutanota-utils";
 import {
   createAuthVerifierAsBase64Url,
   generateKeyFromPassphraseBcrypt,
@@ -65,3 +66,18 @@ async function deriveArgon2idKey(passphrase: string, salt: Uint8Array): Promise<
 export function buildAuthVerifier(userPassphraseKey: AesKey): string {
   return createAuthVerifierAsBase64Url(userPassphraseKey);
 }
+
+/** Length of a recovery code: a 256-bit key as hex. */
+const RECOVERY_CODE_HEX_LENGTH = 64;
+
+/**
+ * Key of an account recovery code as shown by the Tutanota client (hex, usually in groups of four).
+ * Whitespace and dashes are ignored. Use with buildAuthVerifier for the recover-code verifier.
+ */
+export function recoveryCodeToKey(recoveryCode: string): AesKey {
+  const hex = recoveryCode.replace(/[\s-]/g, "").toLowerCase();
+  if (hex.length !== RECOVERY_CODE_HEX_LENGTH || !/^[0-9a-f]+$/.test(hex)) {
+    throw new Error(`Invalid recovery code: expected ${RECOVERY_CODE_HEX_LENGTH} hex characters.`);
+  }
+  return uint8ArrayToKey(hexToUint8Array(hex));
+}
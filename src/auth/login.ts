@@ -16,7 +16,8 @@ import {
   normalizeSaltReturn,
 } from "./types.js";
 import type { AesKey } from "./kdf.js";
-import { buildAuthVerifier, deriveUserPassphraseKey, saltToUint8Array } from "./kdf.js";
+import { completeSecondFactor, type TotpCodeSource } from "./secondFactor.js";
+import { buildAuthVerifier, deriveUserPassphraseKey, recoveryCodeToKey, saltToUint8Array } from "./kdf.js";
 
 const GENERATED_ID_BYTES_LENGTH = 9;
 const CLIENT_IDENTIFIER = "Tutanota CLI";
@@ -41,12 +42,14 @@ export function getSessionIdFromAccessToken(accessToken: string): [string, strin
 }
 
 /**
- * Perform login: get salt, derive key, create session. Fails if 2FA is required.
+ * Perform login: get salt, derive key, create session. If the server asks for a second factor, answer its TOTP
+ * challenge with a code from totpCodes; fails for other second factors or without totpCodes.
  */
 export async function login(
   baseUrl: string,
   email: string,
-  password: string
+  password: string,
+  totpCodes: TotpCodeSource | null = null
 ): Promise<LoginResult> {
   logger.log("Fetching salt…");
   const saltReq = buildSaltDataRequest(email);
@@ -73,14 +76,13 @@ export async function login(
   );
   const sessionRes = normalizeCreateSessionReturn(sessionResRaw);
 
+  const sessionId = getSessionIdFromAccessToken(sessionRes.accessToken);
+
   if (sessionRes.challenges && sessionRes.challenges.length > 0) {
-    throw new Error(
-      "This account has two-factor authentication (2FA) enabled. 2FA is not supported in this CLI yet. Please log in via the official Tutanota client or disable 2FA for this account."
-    );
+    logger.log("Second factor required.");
+    await completeSecondFactor(baseUrl, sessionRes.accessToken, sessionId, sessionRes.challenges, totpCodes);
   }
 
-  const sessionId = getSessionIdFromAccessToken(sessionRes.accessToken);
-
   return {
     accessToken: sessionRes.accessToken,
     userId: sessionRes.user,
@@ -89,6 +91,27 @@ export async function login(
   };
 }
 
+/**
+ * Log in with an account recovery code instead of the password; the server asks for no second factor.
+ * The session cannot decrypt anything by itself: commands that decrypt still derive the passphrase key from the password.
+ */
+export async function loginWithRecoveryCode(
+  baseUrl: string,
+  email: string,
+  recoveryCode: string
+): Promise<LoginResult> {
+  const recoverCodeVerifier = buildAuthVerifier(recoveryCodeToKey(recoveryCode));
+  logger.log("Creating session with recovery code…");
+  const sessionReq = buildCreateSessionDataRequest(email, null, CLIENT_IDENTIFIER, recoverCodeVerifier);
+  const sessionResRaw = await http.post<Record<string, unknown>>(baseUrl, "/rest/sys/sessionservice", sessionReq);
+  const sessionRes = normalizeCreateSessionReturn(sessionResRaw);
+  return {
+    accessToken: sessionRes.accessToken,
+    userId: sessionRes.user,
+    sessionId: getSessionIdFromAccessToken(sessionRes.accessToken),
+  };
+}
+
 /**
  * Derive user passphrase key for an existing session (e.g. when we have stored session but need to decrypt).
  * Fetches salt from the server and derives the key. Use when a command needs decryption and the user did not just log in.
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { httpStatusOf } from "../http.js";
+import { challengeNames, completeSecondFactor, type TotpCodeSource } from "./secondFactor.js";
+
+const API = "https://api.example";
+const SESSION_ID: [string, string] = ["sessionList", "sessionElement"];
+const TOTP_CHALLENGE = { "1188": "c1", "1189": "1" };
+const originalFetch = globalThis.fetch;
+const originalConsoleError = console.error;
+
+/** Codes submitted to the second factor service, and answers for pending polls ("1" pending, "0" done). */
+let submitted: string[];
+let pendingAnswers: string[];
+let validCode: string;
+/** Paths of deleted sessions. */
+let deleted: string[];
+
+function codes(values: string[], canRetry: boolean): TotpCodeSource {
+  const queue = [...values];
+  return { getCode: async () => queue.shift() ?? "", canRetry };
+}
+
+describe("secondFactor", () => {
+  beforeEach(() => {
+    submitted = [];
+    pendingAnswers = ["1", "0"];
+    validCode = "123456";
+    deleted = [];
+    console.error = () => {};
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (init?.method === "DELETE") {
+        deleted.push(url.pathname);
+        return new Response("");
+      }
+      assert.equal(url.pathname, "/rest/sys/secondfactorauthservice");
+      if (init?.method === "POST") {
+        const body = JSON.parse(String(init.body)) as Record<string, unknown>;
+        assert.deepEqual(body["1232"], [SESSION_ID]);
+        submitted.push(String(body["1243"]));
+        return body["1243"] === validCode ? new Response("{}") : new Response("", { status: 401 });
+      }
+      const pending = pendingAnswers.shift() ?? "0";
+      return new Response(JSON.stringify({ "1423": "0", "1424": pending }));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    console.error = originalConsoleError;
+  });
+
+  test("submits the TOTP code and waits until the session is authenticated", async () => {
+    await completeSecondFactor(API, "at", SESSION_ID, [TOTP_CHALLENGE], codes(["123 456"], false), 0);
+    assert.deepEqual(submitted, ["123456"]);
+    assert.deepEqual(pendingAnswers, []);
+    assert.deepEqual(deleted, []);
+  });
+
+  test("asks again after a wrong code when the source can retry", async () => {
+    await completeSecondFactor(API, "at", SESSION_ID, [TOTP_CHALLENGE], codes(["000000", "123456"], true), 0);
+    assert.deepEqual(submitted, ["000000", "123456"]);
+  });
+
+  test("fails on a wrong code from a source that cannot retry", async () => {
+    await assert.rejects(
+      completeSecondFactor(API, "at", SESSION_ID, [TOTP_CHALLENGE], codes(["000000", "123456"], false), 0),
+      /Invalid TOTP code/
+    );
+    assert.deepEqual(submitted, ["000000"]);
+    assert.deepEqual(deleted, ["/rest/sys/session/sessionList/sessionElement"]);
+  });
+
+  test("deletes the pending session when the code cannot be submitted", async () => {
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      if (init?.method === "DELETE") {
+        deleted.push(new URL(String(input)).pathname);
+        return new Response("");
+      }
+      return new Response("", { status: 500 });
+    }) as typeof fetch;
+    await assert.rejects(
+      completeSecondFactor(API, "at", SESSION_ID, [TOTP_CHALLENGE], codes(["123456"], false), 0),
+      (err: unknown) => httpStatusOf(err) === 500
+    );
+    assert.deepEqual(deleted, ["/rest/sys/session/sessionList/sessionElement"]);
+  });
+
+  test("lists unsupported challenge types by name", async () => {
+    const challenges = [{ "1189": "0" }, { "1189": "2" }];
+    assert.deepEqual(challengeNames(challenges), ["WebAuthn (security key)", "Email"]);
+    await assert.rejects(
+      completeSecondFactor(API, "at", SESSION_ID, challenges, codes(["123456"], false), 0),
+      /does not support \(WebAuthn \(security key\), Email\)/
+    );
+    assert.deepEqual(submitted, []);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Second-factor login: answer the TOTP challenge of a new session, then wait until the server marks the session
+ * authenticated (same services as the main app's SecondFactorHandler). Other challenge types are reported by name.
+ */
+
+import * as http from "../http.js";
+import * as logger from "../logger.js";
+import { deleteSession } from "./sessions.js";
+import {
+  buildSecondFactorAuthDataRequest,
+  buildSecondFactorAuthGetDataRequest,
+  normalizeChallengeReturn,
+  normalizeSecondFactorAuthGetReturn,
+} from "./types.js";
+
+const SECOND_FACTOR_SERVICE = "/rest/sys/secondfactorauthservice";
+
+/** ChallengeType in the main app. */
+const CHALLENGE_TYPE_TOTP = "1";
+const CHALLENGE_TYPE_NAMES: Record<string, string> = {
+  "0": "WebAuthn (security key)",
+  "1": "TOTP",
+  "2": "Email",
+};
+
+/** Attempts for codes that can be asked for again (prompt); codes from env or a command are tried once. */
+const MAX_CODE_ATTEMPTS = 3;
+/** Polls of the session state after the code was accepted, POLL_INTERVAL_MS apart. */
+const MAX_POLLS = 30;
+const POLL_INTERVAL_MS = 1000;
+
+export interface TotpCodeSource {
+  /** Return the current TOTP code. */
+  getCode(): Promise<string>;
+  /** True when getCode can ask again after a wrong code (interactive prompt). */
+  canRetry: boolean;
+}
+
+/** Challenge type names of a CreateSessionReturn's challenges (e.g. ["TOTP", "WebAuthn (security key)"]). */
+export function challengeNames(challenges: unknown[]): string[] {
+  return challenges.map((raw) => {
+    const type = normalizeChallengeReturn((raw ?? {}) as Record<string, unknown>).type;
+    return CHALLENGE_TYPE_NAMES[String(type)] ?? `unknown (type ${String(type)})`;
+  });
+}
+
+function hasTotpChallenge(challenges: unknown[]): boolean {
+  return challenges.some(
+    (raw) => String(normalizeChallengeReturn((raw ?? {}) as Record<string, unknown>).type) === CHALLENGE_TYPE_TOTP
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Submit a TOTP code; resolves to null when accepted, or a message when the server rejected the code. */
+async function submitTotpCode(baseUrl: string, sessionId: [string, string], code: string): Promise<string | null> {
+  logger.log("Submitting TOTP code…");
+  try {
+    await http.post(baseUrl, SECOND_FACTOR_SERVICE, buildSecondFactorAuthDataRequest(sessionId, code));
+    return null;
+  } catch (err) {
+    const status = http.httpStatusOf(err);
+    if (status === 400 || status === 401) return "Invalid TOTP code.";
+    throw err;
+  }
+}
+
+/** Wait until the server no longer reports the session as waiting for its second factor. */
+async function waitForAuthenticatedSession(baseUrl: string, accessToken: string, pollIntervalMs: number): Promise<void> {
+  for (let i = 0; i < MAX_POLLS; i++) {
+    const raw = await http.get<Record<string, unknown>>(baseUrl, SECOND_FACTOR_SERVICE, {
+      body: buildSecondFactorAuthGetDataRequest(accessToken),
+    });
+    const pending = normalizeSecondFactorAuthGetReturn(raw).secondFactorPending;
+    if (pending !== true && pending !== "1") return;
+    logger.log("Second factor still pending…");
+    await sleep(pollIntervalMs);
+  }
+  throw new Error("Timed out waiting for the server to accept the second factor.");
+}
+
+/**
+ * Complete the second factor of a session created with challenges: submit a TOTP code and wait for the session.
+ * Throws listing the challenge types by name when the account offers no TOTP challenge. When the second factor
+ * fails, the pending session is deleted before the error is thrown.
+ */
+export async function completeSecondFactor(
+  baseUrl: string,
+  accessToken: string,
+  sessionId: [string, string],
+  challenges: unknown[],
+  codes: TotpCodeSource | null,
+  pollIntervalMs = POLL_INTERVAL_MS
+): Promise<void> {
+  try {
+    if (!hasTotpChallenge(challenges)) {
+      throw new Error(
+        `This account requires a second factor the CLI does not support (${challengeNames(challenges).join(", ")}). ` +
+          "Add a TOTP authenticator to the account, or log in via the official Tutanota client."
+      );
+    }
+    if (codes == null) {
+      throw new Error("This account requires a TOTP code (two-factor authentication).");
+    }
+
+    const attempts = codes.canRetry ? MAX_CODE_ATTEMPTS : 1;
+    for (let attempt = 1; ; attempt++) {
+      const code = (await codes.getCode()).replace(/\s/g, "");
+      const error = /^\d{6,8}$/.test(code)
+        ? await submitTotpCode(baseUrl, sessionId, code)
+        : "TOTP code must be 6 to 8 digits.";
+      if (error == null) break;
+      if (attempt >= attempts) throw new Error(error);
+      console.error(error, "Try again.");
+    }
+
+    await waitForAuthenticatedSession(baseUrl, accessToken, pollIntervalMs);
+  } catch (err) {
+    // Otherwise the unauthenticated session stays in the account's session list until it expires.
+    await deleteSession(baseUrl, accessToken, sessionId).catch((deleteErr: unknown) =>
+      logger.logError("Could not delete the pending session:", deleteErr)
+    );
+    throw err;
+  }
+}
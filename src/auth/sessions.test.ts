@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { aesEncrypt, encryptKey, random, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { stringToUtf8Uint8Array, uint8ArrayToBase64 } from "@tutao/tutanota-utils";
+import { getSessionIdFromAccessToken } from "./login.js";
+import { deleteSession, listSessions, parseSessionId, sessionListIdOf, userIdOfAccessToken } from "./sessions.js";
+import type { KeyChain } from "../crypto/keyChain.js";
+
+const API = "https://api.example";
+const USER_RAW = { "86": "user-id", "1210": [{ "1207": "auth-id", "1208": "sessionList" }] };
+const originalFetch = globalThis.fetch;
+let requests: { method: string; path: string }[];
+let sessionsResponse: Record<string, unknown>[];
+
+describe("sessions", () => {
+  random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+  const groupKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+  const keyChain: KeyChain = {
+    getGroupKey: () => groupKey,
+    addGroupKey: () => {},
+    getAvailableKeyVersions: () => ["0"],
+    getKeyPair: () => null,
+    addKeyPair: () => {},
+    resolveGroupKey: async () => groupKey,
+  };
+
+  /** Session as sent by the server: owner fields plus encrypted client, IP address and last access time. */
+  function serverSession(elementId: string, state: string, client: string, lastAccess: number): Record<string, unknown> {
+    const sessionKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+    const enc = (value: string) => uint8ArrayToBase64(aesEncrypt(sessionKey, stringToUtf8Uint8Array(value)));
+    return {
+      "1193": ["sessionList", elementId],
+      "1196": enc(client),
+      "1197": "1767225600000",
+      "1198": enc("192.0.2.1"),
+      "1199": enc(String(lastAccess)),
+      "1201": state,
+      "1202": "user-group",
+      "1203": uint8ArrayToBase64(encryptKey(groupKey, sessionKey)),
+      "2279": "0",
+    };
+  }
+
+  beforeEach(() => {
+    requests = [];
+    sessionsResponse = [];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      requests.push({ method: init?.method ?? "GET", path: url.pathname });
+      if (init?.method === "DELETE") return new Response(null, { status: 200 });
+      const start = url.searchParams.get("start") ?? "";
+      return new Response(JSON.stringify(sessionsResponse.filter((s) => (s["1193"] as string[])[1] > start)));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("sessionListIdOf reads the list id from User.auth", () => {
+    assert.equal(sessionListIdOf(USER_RAW), "sessionList");
+    assert.throws(() => sessionListIdOf({ "86": "user-id" }), /no authentication data/);
+  });
+
+  test("listSessions decrypts open sessions, most recently used first", async () => {
+    sessionsResponse = [
+      serverSession("s1", "0", "Firefox on Linux", 1767225600000),
+      serverSession("s2", "1", "Old laptop", 1767312000000),
+      serverSession("s3", "0", "Tutanota CLI", 1767398400000),
+    ];
+    const sessions = await listSessions(API, "at", keyChain, USER_RAW, ["sessionList", "s3"]);
+    assert.deepEqual(
+      sessions.map((s) => [s.id[1], s.clientIdentifier, s.state, s.current]),
+      [
+        ["s3", "Tutanota CLI", "active", true],
+        ["s1", "Firefox on Linux", "active", false],
+      ]
+    );
+    assert.equal(sessions[1].loginIpAddress, "192.0.2.1");
+    assert.equal(sessions[1].lastAccessTime.getTime(), 1767225600000);
+    assert.equal(requests[0].path, "/rest/sys/session/sessionList");
+
+    const all = await listSessions(API, "at", keyChain, USER_RAW, ["sessionList", "s3"], true);
+    assert.deepEqual(all.map((s) => s.state), ["active", "expired", "active"]);
+  });
+
+  test("parseSessionId accepts element ids and listId/elementId", () => {
+    assert.deepEqual(parseSessionId("s1", "sessionList"), ["sessionList", "s1"]);
+    assert.deepEqual(parseSessionId("other/s1", "sessionList"), ["other", "s1"]);
+    assert.throws(() => parseSessionId("a/b/c", "sessionList"), /Invalid session id/);
+  });
+
+  test("userIdOfAccessToken reads Session.user of the token's session", async () => {
+    const accessToken = Buffer.from(randomBytes(41)).toString("base64url");
+    const [listId, elementId] = getSessionIdFromAccessToken(accessToken);
+    const session = serverSession(elementId, "0", "CI", 1767225600000);
+    sessionsResponse = [{ ...session, "1193": [listId, elementId], "1205": "user-id" }];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      requests.push({ method: init?.method ?? "GET", path: url.pathname });
+      assert.equal(new Headers(init?.headers).get("accessToken"), accessToken);
+      return new Response(JSON.stringify(sessionsResponse[0]));
+    }) as typeof fetch;
+    assert.equal(await userIdOfAccessToken(API, accessToken), "user-id");
+    assert.equal(requests[0].path, `/rest/sys/session/${listId}/${elementId}`);
+  });
+
+  test("deleteSession deletes the Session entity", async () => {
+    await deleteSession(API, "at", ["sessionList", "s1"]);
+    assert.deepEqual(requests, [{ method: "DELETE", path: "/rest/sys/session/sessionList/s1" }]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Server sessions of the user (User.auth.sessions): list them with their decrypted client identifier, IP address
+ * and last access time, and delete them on the server (logout, revoke). A deleted session's access token stops working.
+ */
+
+import type { KeyChain } from "../crypto/keyChain.js";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import { decryptParsedInstance, loadSessionKey, type ServerInstance } from "../crypto/decryptInstance.js";
+import type { IdTuple, Session, UserAuthentication } from "../crypto/entities.js";
+import { attributeId } from "../crypto/typeModel.js";
+import { SESSION, USER_AUTHENTICATION } from "../crypto/typeModels.js";
+import { deleteEntity, GENERATED_MIN_ID, loadEntity, loadRangePaged } from "../rest.js";
+import { getSessionIdFromAccessToken } from "./login.js";
+import { normalizeUserReturn } from "./types.js";
+
+/** SessionState in the main app. */
+const SESSION_STATE_NAMES: Record<number, string> = {
+  0: "active",
+  1: "expired",
+  2: "deleted",
+  3: "pending",
+};
+
+/** States of sessions that can still be used (or, when pending, completed with a second factor). */
+const OPEN_SESSION_STATES = new Set([0, 3]);
+
+export interface SessionInfo {
+  id: IdTuple;
+  clientIdentifier: string;
+  loginTime: Date | null;
+  lastAccessTime: Date;
+  loginIpAddress: string;
+  /** "active", "expired", "deleted", "pending" or "unknown". */
+  state: string;
+  /** The session this CLI is logged in with. */
+  current: boolean;
+}
+
+function sameId(a: IdTuple, b: IdTuple): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/** List id of the user's sessions from a loaded User (loadUser). */
+export function sessionListIdOf(userRaw: Record<string, unknown>): string {
+  const authRaw = normalizeUserReturn(userRaw).auth;
+  const auth = Array.isArray(authRaw) ? authRaw[0] : authRaw;
+  if (auth == null || typeof auth !== "object") {
+    throw new Error("User has no authentication data (auth).");
+  }
+  const listId = decodeInstance<UserAuthentication>(USER_AUTHENTICATION, auth as ServerInstance).sessions;
+  if (listId == null) throw new Error("User has no session list.");
+  return listId;
+}
+
+/**
+ * Load and decrypt the user's sessions, most recently used first. Closed (expired, deleted) sessions are only
+ * returned with includeClosed.
+ */
+export async function listSessions(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  userRaw: Record<string, unknown>,
+  currentSessionId: IdTuple,
+  includeClosed = false
+): Promise<SessionInfo[]> {
+  const { elements } = await loadRangePaged<ServerInstance>(baseUrl, SESSION, sessionListIdOf(userRaw), {
+    accessToken,
+    start: GENERATED_MIN_ID,
+    reverse: false,
+    limit: null,
+    elementIdOf: (e) => decodeInstance<Session>(SESSION, e)._id?.[1] ?? "",
+  });
+  const sessions: SessionInfo[] = [];
+  for (const raw of elements) {
+    const sessionKey = await loadSessionKey(keyChain, raw, SESSION);
+    const session = decodeInstance<Session>(SESSION, decryptParsedInstance(SESSION, raw, sessionKey));
+    if (session._id == null) continue;
+    if (!includeClosed && (session.state == null || !OPEN_SESSION_STATES.has(session.state))) continue;
+    sessions.push({
+      id: session._id,
+      clientIdentifier: session.clientIdentifier,
+      loginTime: session.loginTime,
+      lastAccessTime: session.lastAccessTime,
+      loginIpAddress: session.loginIpAddress,
+      state: (session.state != null ? SESSION_STATE_NAMES[session.state] : null) ?? "unknown",
+      current: sameId(session._id, currentSessionId),
+    });
+  }
+  return sessions.sort((a, b) => b.lastAccessTime.getTime() - a.lastAccessTime.getTime());
+}
+
+/** Session id from "listId/elementId" or an element id in the user's session list (as printed by 'auth sessions list'). */
+export function parseSessionId(id: string, sessionListId: string): IdTuple {
+  const parts = id.trim().split("/");
+  if (parts.length === 1 && parts[0] !== "") return [sessionListId, parts[0]];
+  if (parts.length === 2 && parts[0] !== "" && parts[1] !== "") return [parts[0], parts[1]];
+  throw new Error(`Invalid session id: ${id} (expected listId/elementId or elementId).`);
+}
+
+/**
+ * User id of the session an access token belongs to (Session.user), e.g. for TUTANOTA_ACCESS_TOKEN without
+ * TUTANOTA_USER_ID. Reads the unencrypted association, so no key is needed.
+ */
+export async function userIdOfAccessToken(baseUrl: string, accessToken: string): Promise<string> {
+  const raw = await loadEntity<ServerInstance>(baseUrl, SESSION, getSessionIdFromAccessToken(accessToken), {
+    accessToken,
+  });
+  const user = raw[attributeId(SESSION, "user")];
+  const userId = Array.isArray(user) ? user[0] : user;
+  if (typeof userId !== "string" || userId === "") {
+    throw new Error("Could not find the user of the access token.");
+  }
+  return userId;
+}
+
+/** Delete a session on the server; its access token is no longer accepted afterwards. */
+export async function deleteSession(baseUrl: string, accessToken: string, sessionId: IdTuple): Promise<void> {
+  await deleteEntity(baseUrl, SESSION, sessionId, { accessToken });
+}
@@ -42,12 +42,14 @@ export function buildSaltDataRequest(mailAddress: string): Record<string, string
 
 /**
  * Build create-session request body with attribute IDs as keys (wire format expected by server).
+ * Exactly one of authVerifier (password login) and recoverCodeVerifier (recovery code login) is set.
  * 1218 (user) is an ELEMENT_ASSOCIATION: send [] when empty, not null.
  */
 export function buildCreateSessionDataRequest(
   mailAddress: string,
-  authVerifier: string,
-  clientIdentifier: string
+  authVerifier: string | null,
+  clientIdentifier: string,
+  recoverCodeVerifier: string | null = null
 ): Record<string, string | null | unknown[]> {
   return {
     [SESSION_FORMAT_ID]: "0",
@@ -56,11 +58,52 @@ export function buildCreateSessionDataRequest(
     [SESSION_CLIENT_IDENTIFIER_ID]: clientIdentifier,
     [SESSION_ACCESS_KEY_ID]: null,
     [SESSION_AUTH_TOKEN_ID]: null,
-    [SESSION_RECOVER_CODE_VERIFIER_ID]: null,
+    [SESSION_RECOVER_CODE_VERIFIER_ID]: recoverCodeVerifier,
     [SESSION_USER_ID]: [], // empty association, not null
   };
 }
 
+/** SecondFactorAuthData attribute IDs (TypeModels.js 541). */
+const SECOND_FACTOR_FORMAT_ID = "542";
+const SECOND_FACTOR_TYPE_ID = "1230";
+const SECOND_FACTOR_OTP_CODE_ID = "1243";
+const SECOND_FACTOR_SESSION_ID = "1232";
+const SECOND_FACTOR_U2F_ID = "1231";
+const SECOND_FACTOR_WEBAUTHN_ID = "1905";
+
+/** SecondFactorType.totp (SecondFactorAuthData.type). */
+const SECOND_FACTOR_TYPE_TOTP = "1";
+
+/**
+ * Build second-factor auth request body answering a TOTP challenge for the session.
+ * session is a LIST_ELEMENT_ASSOCIATION ([[listId, elementId]]); the unused u2f/webauthn aggregates are [].
+ */
+export function buildSecondFactorAuthDataRequest(
+  sessionId: [string, string],
+  otpCode: string
+): Record<string, string | unknown[]> {
+  return {
+    [SECOND_FACTOR_FORMAT_ID]: "0",
+    [SECOND_FACTOR_TYPE_ID]: SECOND_FACTOR_TYPE_TOTP,
+    [SECOND_FACTOR_OTP_CODE_ID]: otpCode,
+    [SECOND_FACTOR_SESSION_ID]: [sessionId],
+    [SECOND_FACTOR_U2F_ID]: [],
+    [SECOND_FACTOR_WEBAUTHN_ID]: [],
+  };
+}
+
+/** SecondFactorAuthGetData attribute IDs (TypeModels.js 1419). */
+const SECOND_FACTOR_GET_FORMAT_ID = "1420";
+const SECOND_FACTOR_GET_ACCESS_TOKEN_ID = "1421";
+
+/** Build the request body that asks whether the session still waits for its second factor. */
+export function buildSecondFactorAuthGetDataRequest(accessToken: string): Record<string, string> {
+  return {
+    [SECOND_FACTOR_GET_FORMAT_ID]: "0",
+    [SECOND_FACTOR_GET_ACCESS_TOKEN_ID]: accessToken,
+  };
+}
+
 /** Server may return attribute IDs as keys; normalize to named keys. */
 const SALT_RETURN_MAP: Record<string, string> = { "421": "_format", "422": "salt", "2133": "kdfVersion" };
 const CREATE_SESSION_RETURN_MAP: Record<string, string> = {
@@ -70,6 +113,24 @@ const CREATE_SESSION_RETURN_MAP: Record<string, string> = {
   "1223": "user",
 };
 
+/** Challenge (element of CreateSessionReturn.challenges) attribute IDs (TypeModels.js 1187). */
+const CHALLENGE_RETURN_MAP: Record<string, string> = { "1188": "_id", "1189": "type", "1190": "u2f", "1247": "otp" };
+const SECOND_FACTOR_GET_RETURN_MAP: Record<string, string> = { "1423": "_format", "1424": "secondFactorPending" };
+
+export interface ChallengeResponse {
+  _id?: string;
+  /** ChallengeType: "0" U2F/WebAuthn, "1" TOTP, "2" email. */
+  type?: string;
+  u2f?: unknown;
+  otp?: unknown;
+}
+
+export interface SecondFactorAuthGetReturnResponse {
+  _format?: string;
+  /** "1" while the session waits for its second factor. */
+  secondFactorPending?: string | boolean;
+}
+
 function normalizeResponse<T>(raw: Record<string, unknown>, keyMap: Record<string, string>): T {
   const out: Record<string, unknown> = {};
   for (const [k, v] of Object.entries(raw)) {
@@ -88,6 +149,14 @@ export function normalizeCreateSessionReturn(raw: Record<string, unknown>): Crea
   return normalizeResponse(raw, CREATE_SESSION_RETURN_MAP);
 }
 
+export function normalizeChallengeReturn(raw: Record<string, unknown>): ChallengeResponse {
+  return normalizeResponse(raw, CHALLENGE_RETURN_MAP);
+}
+
+export function normalizeSecondFactorAuthGetReturn(raw: Record<string, unknown>): SecondFactorAuthGetReturnResponse {
+  return normalizeResponse(raw, SECOND_FACTOR_GET_RETURN_MAP);
+}
+
 /** User entity attribute IDs (TypeModels.js 84). */
 const USER_RETURN_MAP: Record<string, string> = {
   "86": "_id",
@@ -104,6 +173,7 @@ const USER_RETURN_MAP: Record<string, string> = {
   "96": "memberships",
   "97": "authenticatedDevices",
   "99": "customer",
+  "1210": "auth",
 };
 
 export interface UserProfileResponse {
@@ -116,6 +186,8 @@ export interface UserProfileResponse {
   userGroup?: unknown;
   memberships?: unknown[];
   customer?: unknown;
+  /** UserAuthentication aggregate (session list id); decode with USER_AUTHENTICATION. */
+  auth?: unknown;
 }
 
 export function normalizeUserReturn(raw: Record<string, unknown>): UserProfileResponse {
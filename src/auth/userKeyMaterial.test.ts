@@ -3,6 +3,7 @@ import assert from "node:assert/strict";
 import {
   parseUserKeyMaterial,
   getMailMembership,
+  getMailMemberships,
   GROUP_TYPE_MAIL,
   type UserKeyMaterial,
 } from "./userKeyMaterial.js";
@@ -36,6 +37,7 @@ describe("userKeyMaterial", () => {
       assert.equal(result.memberships.length, 1);
       assert.equal(result.memberships[0].group, "group-id-2");
       assert.equal(result.memberships[0].groupType, "5");
+      assert.equal(result.memberships[0].groupInfo, null);
     });
 
     test("unwraps userGroup when single-element array", () => {
@@ -86,6 +88,7 @@ describe("userKeyMaterial", () => {
             symKeyVersion: "0",
             group: "other",
             groupType: "4",
+            groupInfo: null,
           },
           {
             symEncGKey: new Uint8Array(0),
@@ -93,6 +96,7 @@ describe("userKeyMaterial", () => {
             symKeyVersion: "0",
             group: "mail-group",
             groupType: GROUP_TYPE_MAIL,
+            groupInfo: null,
           },
         ],
       };
@@ -117,6 +121,7 @@ describe("userKeyMaterial", () => {
             symKeyVersion: "0",
             group: "other",
             groupType: "4",
+            groupInfo: null,
           },
         ],
       };
@@ -124,4 +129,24 @@ describe("userKeyMaterial", () => {
       assert.equal(found, null);
     });
   });
+
+  describe("getMailMemberships", () => {
+    test("returns every Mail membership in order, with its GroupInfo id", () => {
+      const material = parseUserKeyMaterial({
+        "95": minimalUserGroup,
+        "96": [
+          { ...minimalMembership, "28": ["groupInfoList", "personal-info"] },
+          { ...minimalMembership, "29": "team-group", "1030": "4" },
+          { ...minimalMembership, "29": "shared-mail-group", "28": ["groupInfoList", "shared-info"] },
+        ],
+      });
+      assert.deepEqual(
+        getMailMemberships(material).map((m) => [m.group, m.groupInfo]),
+        [
+          ["group-id-2", ["groupInfoList", "personal-info"]],
+          ["shared-mail-group", ["groupInfoList", "shared-info"]],
+        ]
+      );
+    });
+  });
 });
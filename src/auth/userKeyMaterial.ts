@@ -3,7 +3,8 @@
  * needed for the key chain: userGroup and memberships with symEncGKey, groupKeyVersion, etc.
  *
  * Attribute IDs from sys TypeModels: User 95=userGroup, 96=memberships;
- * GroupMembership 26=_id, 27=symEncGKey, 29=group, 1030=groupType, 2246=groupKeyVersion, 2247=symKeyVersion.
+ * GroupMembership 26=_id, 27=symEncGKey, 28=groupInfo, 29=group, 1030=groupType, 2246=groupKeyVersion,
+ * 2247=symKeyVersion.
  */
 
 import { toUint8Array, unwrapSingleElementArray } from "../utils/bytes.js";
@@ -12,6 +13,7 @@ const USER_USER_GROUP = "95";
 const USER_MEMBERSHIPS = "96";
 
 const GM_SYM_ENC_GKEY = "27";
+const GM_GROUP_INFO = "28";
 const GM_GROUP = "29";
 const GM_GROUP_TYPE = "1030";
 const GM_GROUP_KEY_VERSION = "2246";
@@ -28,6 +30,8 @@ export interface GroupMembershipKeyMaterial {
   symKeyVersion: string;
   group: string;
   groupType: string | null;
+  /** GroupInfo of the group (list id, element id): name and mail address. */
+  groupInfo: [string, string] | null;
 }
 
 export interface UserGroupKeyMaterial {
@@ -42,6 +46,11 @@ export interface UserKeyMaterial {
   memberships: GroupMembershipKeyMaterial[];
 }
 
+function toIdTupleOrNull(value: unknown): [string, string] | null {
+  if (!Array.isArray(value) || value.length !== 2) return null;
+  return [String(value[0]), String(value[1])];
+}
+
 function parseGroupMembership(raw: Record<string, unknown>): GroupMembershipKeyMaterial {
   return {
     symEncGKey: toUint8Array(raw[GM_SYM_ENC_GKEY]),
@@ -49,6 +58,7 @@ function parseGroupMembership(raw: Record<string, unknown>): GroupMembershipKeyM
     symKeyVersion: toStringOrNull(raw[GM_SYM_KEY_VERSION]) ?? "0",
     group: toStringOrNull(raw[GM_GROUP]) ?? "",
     groupType: toStringOrNull(raw[GM_GROUP_TYPE]),
+    groupInfo: toIdTupleOrNull(raw[GM_GROUP_INFO]),
   };
 }
 
@@ -81,3 +91,8 @@ export const GROUP_TYPE_MAIL = "5";
 export function getMailMembership(material: UserKeyMaterial): GroupMembershipKeyMaterial | null {
   return material.memberships.find((m) => m.groupType === GROUP_TYPE_MAIL) ?? null;
 }
+
+/** All Mail memberships: the personal mailbox first, then shared mailboxes the user is a member of. */
+export function getMailMemberships(material: UserKeyMaterial): GroupMembershipKeyMaterial[] {
+  return material.memberships.filter((m) => m.groupType === GROUP_TYPE_MAIL);
+}
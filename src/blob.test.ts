@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { aesEncrypt, random, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { createBlobStore, ARCHIVE_DATA_TYPE_ATTACHMENTS } from "./blob.js";
+import { MAIL_DETAILS_BLOB } from "./crypto/typeModels.js";
+
+const API = "https://api.example";
+
+interface FakeServer {
+  tokenRequests: number;
+  requests: string[];
+  /** Return a Response for blob server URLs; token requests are answered automatically. */
+  handle: (url: URL) => Response;
+  expires: number | null;
+}
+
+function tokenResponse(servers: string[], expires: number | null): Response {
+  const info = {
+    "152": "i",
+    "153": "token-" + Math.random().toString(36).slice(2),
+    "154": expires != null ? String(expires) : null,
+    "155": servers.map((url) => ({ "157": "s", "158": url })),
+  };
+  return new Response(JSON.stringify({ "161": [info] }), { status: 200 });
+}
+
+let server: FakeServer;
+const originalFetch = globalThis.fetch;
+
+describe("blob", () => {
+  beforeEach(() => {
+    server = { tokenRequests: 0, requests: [], handle: () => new Response("[]"), expires: null };
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/rest/storage/blobaccesstokenservice") {
+        server.tokenRequests++;
+        return tokenResponse(["https://blob1.example", "https://blob2.example"], server.expires);
+      }
+      server.requests.push(url.origin + url.pathname);
+      return server.handle(url);
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("caches the read token per archive", async () => {
+    const store = createBlobStore(API, "at");
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b1"]);
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b2"]);
+    assert.equal(server.tokenRequests, 1);
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-2", ["b3"]);
+    assert.equal(server.tokenRequests, 2);
+  });
+
+  test("refreshes an expired token", async () => {
+    server.expires = Date.now() - 1000;
+    const store = createBlobStore(API, "at");
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b1"]);
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b2"]);
+    assert.equal(server.tokenRequests, 3);
+  });
+
+  test("fails over to the next server on a server error", async () => {
+    server.handle = (url) => (url.hostname === "blob1.example" ? new Response("down", { status: 503 }) : new Response("[]"));
+    const store = createBlobStore(API, "at");
+    assert.deepEqual(await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b1"]), []);
+    assert.deepEqual(server.requests, [
+      "https://blob1.example/rest/tutanota/maildetailsblob/archive-1",
+      "https://blob2.example/rest/tutanota/maildetailsblob/archive-1",
+    ]);
+  });
+
+  test("requests a new token once when the token is rejected", async () => {
+    let calls = 0;
+    server.handle = () => (calls++ === 0 ? new Response("no", { status: 401 }) : new Response("[]"));
+    const store = createBlobStore(API, "at");
+    await store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b1"]);
+    assert.equal(server.tokenRequests, 2);
+    assert.equal(server.requests.length, 2);
+  });
+
+  test("does not fail over on other client errors", async () => {
+    server.handle = () => new Response("missing", { status: 404 });
+    const store = createBlobStore(API, "at");
+    await assert.rejects(store.loadBlobElements(MAIL_DETAILS_BLOB, "archive-1", ["b1"]), /HTTP 404/);
+    assert.equal(server.requests.length, 1);
+  });
+
+  test("streams decrypted blobs in order", async () => {
+    random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+    const key = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+    const plain: Record<string, string> = { "blob-1": "Hello, ", "blob-2": "world" };
+    server.handle = (url) => {
+      const body = JSON.parse(url.searchParams.get("_body") ?? "{}") as Record<string, string>;
+      return new Response(Buffer.from(aesEncrypt(key, new TextEncoder().encode(plain[body["110"]]))));
+    };
+    const store = createBlobStore(API, "at");
+    const blobs = [
+      { archiveId: "a", blobId: "blob-1" },
+      { archiveId: "a", blobId: "blob-2" },
+    ];
+    const file = { archiveDataType: ARCHIVE_DATA_TYPE_ATTACHMENTS, id: ["fl", "f1"] as [string, string] };
+    const chunks: string[] = [];
+    for await (const chunk of store.streamDecryptedBlobs(blobs, key, file)) {
+      chunks.push(new TextDecoder().decode(chunk));
+    }
+    assert.deepEqual(chunks, ["Hello, ", "world"]);
+    assert.equal(new TextDecoder().decode(await store.downloadDecryptedBlobs(blobs, key, file)), "Hello, world");
+    assert.equal(server.tokenRequests, 1);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Blob store access: read tokens from the storage BlobAccessTokenService, blob element loads and blob downloads.
+ * Blob servers are separate from the API server; the token response lists which ones to use.
+ *
+ * A BlobStore caches read tokens (per archive, or per referencing instance for attachments) until they expire,
+ * tries the returned servers in order when one fails, and decrypts blobs one at a time as they are downloaded.
+ */
+
+import { randomBytes } from "crypto";
+import { aesDecrypt } from "@tutao/tutanota-crypto";
+import type { AesKey } from "./auth/kdf.js";
+import * as http from "./http.js";
+import { getErrorMessage } from "./logger.js";
+import * as logger from "./logger.js";
+import type { TypeModel } from "./crypto/typeModel.js";
+import { modelName } from "./rest.js";
+import { asRecord, asRecordList } from "./utils/bytes.js";
+
+/** Storage model version sent in the v header for storage services. */
+const STORAGE_MODEL_VERSION = "11";
+
+/** BlobAccessTokenPostIn attribute IDs (storage TypeModels). */
+const TOKEN_IN_FORMAT = "78";
+const TOKEN_IN_WRITE = "80";
+const TOKEN_IN_ARCHIVE_DATA_TYPE = "180";
+const TOKEN_IN_READ = "181";
+/** BlobReadData attribute IDs. */
+const READ_DATA_ID = "176";
+const READ_DATA_ARCHIVE_ID = "177";
+const READ_DATA_INSTANCE_LIST_ID = "178";
+const READ_DATA_INSTANCE_IDS = "179";
+/** InstanceId attribute IDs. */
+const INSTANCE_ID_ID = "173";
+const INSTANCE_ID_INSTANCE_ID = "174";
+/** BlobAccessTokenPostOut / BlobServerAccessInfo / BlobServerUrl attribute IDs. */
+const TOKEN_OUT_BLOB_ACCESS_INFO = "161";
+const ACCESS_INFO_BLOB_ACCESS_TOKEN = "153";
+const ACCESS_INFO_EXPIRES = "154";
+const ACCESS_INFO_SERVERS = "155";
+const SERVER_URL_URL = "158";
+/** BlobGetIn attribute IDs (body of the BlobService GET). */
+const BLOB_GET_IN_FORMAT = "51";
+const BLOB_GET_IN_ARCHIVE_ID = "52";
+const BLOB_GET_IN_BLOB_ID = "110";
+const BLOB_GET_IN_BLOB_IDS = "193";
+
+/** Tokens are refreshed this long before they expire, so a request never starts with an almost-expired token. */
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+/** ArchiveDataType (main app): which kind of data the archive holds. MailDetails blobs are read without one. */
+export const ARCHIVE_DATA_TYPE_ATTACHMENTS = "1";
+
+export interface BlobReadAccess {
+  blobAccessToken: string;
+  /** Blob server base URLs, in the order to try. */
+  servers: string[];
+  /** When the token expires, or null if the server did not say. */
+  expires: Date | null;
+}
+
+/** A blob referenced by an entity (e.g. File.blobs): archive id and blob id. */
+export interface BlobRef {
+  archiveId: string;
+  blobId: string;
+}
+
+/** List element that references blobs (e.g. a File); read tokens for its blobs are scoped to it. */
+export interface ReferencingInstance {
+  archiveDataType: string;
+  /** [listId, elementId] of the referencing instance. */
+  id: [string, string];
+}
+
+export interface BlobStore {
+  /** Load blob elements (e.g. MailDetailsBlob) of an archive. */
+  loadBlobElements<T = Record<string, unknown>>(typeModel: TypeModel, archiveId: string, elementIds: string[]): Promise<T[]>;
+  /** Download and decrypt blobs in order, yielding each blob's plaintext as soon as it is available. */
+  streamDecryptedBlobs(blobs: BlobRef[], sessionKey: AesKey, referencingInstance: ReferencingInstance): AsyncGenerator<Uint8Array>;
+  /** Download and decrypt blobs and return the concatenated plaintext. */
+  downloadDecryptedBlobs(blobs: BlobRef[], sessionKey: AesKey, referencingInstance: ReferencingInstance): Promise<Uint8Array>;
+}
+
+/** Which instance(s) a read token is for: the whole archive, or list elements referencing blobs in it. */
+interface BlobReadRequest {
+  archiveId: string;
+  archiveDataType: string | null;
+  instanceListId: string | null;
+  instanceIds: string[];
+}
+
+/** Aggregate _id as generated by the client (4 random bytes, base64url). */
+function newAggregateId(): string {
+  return randomBytes(4).toString("base64url");
+}
+
+/** Token rejected by the blob server: fetch a new one instead of trying other servers. */
+function isTokenRejected(err: unknown): boolean {
+  const status = http.httpStatusOf(err);
+  return status === 401 || status === 403;
+}
+
+/** Errors worth retrying on the next server: network errors, 5xx and 429. Other 4xx fail the same everywhere. */
+function isServerFailure(err: unknown): boolean {
+  const status = http.httpStatusOf(err);
+  return status == null || status >= 500 || status === 429;
+}
+
+async function requestBlobReadAccess(
+  baseUrl: string,
+  accessToken: string,
+  request: BlobReadRequest
+): Promise<BlobReadAccess> {
+  const body = {
+    [TOKEN_IN_FORMAT]: "0",
+    [TOKEN_IN_ARCHIVE_DATA_TYPE]: request.archiveDataType,
+    [TOKEN_IN_WRITE]: [],
+    [TOKEN_IN_READ]: [
+      {
+        [READ_DATA_ID]: newAggregateId(),
+        [READ_DATA_ARCHIVE_ID]: request.archiveId,
+        [READ_DATA_INSTANCE_LIST_ID]: request.instanceListId,
+        [READ_DATA_INSTANCE_IDS]: request.instanceIds.map((id) => ({
+          [INSTANCE_ID_ID]: newAggregateId(),
+          [INSTANCE_ID_INSTANCE_ID]: id,
+        })),
+      },
+    ],
+  };
+  const res = await http.post<Record<string, unknown>>(baseUrl, "/rest/storage/blobaccesstokenservice", body, {
+    accessToken,
+    extraHeaders: { v: STORAGE_MODEL_VERSION },
+    modelName: "storage",
+  });
+  const info = asRecord(res[TOKEN_OUT_BLOB_ACCESS_INFO]);
+  const token = info?.[ACCESS_INFO_BLOB_ACCESS_TOKEN];
+  if (info == null || typeof token !== "string") {
+    throw new Error("BlobAccessTokenService returned no blob access token.");
+  }
+  const servers = asRecordList(info[ACCESS_INFO_SERVERS])
+    .map((s) => s[SERVER_URL_URL])
+    .filter((u): u is string => typeof u === "string" && u !== "");
+  const expiresMs = parseInt(String(info[ACCESS_INFO_EXPIRES] ?? ""), 10);
+  return {
+    blobAccessToken: token,
+    servers: servers.length > 0 ? servers : [baseUrl],
+    expires: Number.isNaN(expiresMs) ? null : new Date(expiresMs),
+  };
+}
+
+/**
+ * Create a blob store for one API session. Tokens are cached for the lifetime of the store,
+ * so use one store per command (e.g. for a whole export) rather than one per mail.
+ */
+export function createBlobStore(baseUrl: string, accessToken: string): BlobStore {
+  const tokenCache = new Map<string, Promise<BlobReadAccess>>();
+
+  function getAccess(cacheKey: string, request: BlobReadRequest): Promise<BlobReadAccess> {
+    const cached = tokenCache.get(cacheKey);
+    if (cached != null) return cached;
+    const pending = requestBlobReadAccess(baseUrl, accessToken, request);
+    tokenCache.set(cacheKey, pending);
+    // Do not cache failures; the next caller asks again.
+    pending.catch(() => tokenCache.delete(cacheKey));
+    return pending;
+  }
+
+  /**
+   * Run a request against the token's servers in order. On a server failure the next server is tried;
+   * when the token is expired or rejected, it is dropped from the cache and the request is retried once with a new one.
+   */
+  async function withAccess<T>(
+    cacheKey: string,
+    request: BlobReadRequest,
+    run: (access: BlobReadAccess, server: string) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let access = await getAccess(cacheKey, request);
+      if (access.expires != null && access.expires.getTime() - TOKEN_EXPIRY_MARGIN_MS < Date.now()) {
+        tokenCache.delete(cacheKey);
+        access = await getAccess(cacheKey, request);
+      }
+      let lastError: unknown = null;
+      for (const server of access.servers) {
+        try {
+          return await run(access, server);
+        } catch (err) {
+          lastError = err;
+          if (isTokenRejected(err) || !isServerFailure(err)) break;
+          logger.log(`Blob server ${server} failed (${getErrorMessage(err)}); trying next server`);
+        }
+      }
+      if (attempt === 0 && isTokenRejected(lastError)) {
+        logger.log("Blob access token rejected; requesting a new one");
+        tokenCache.delete(cacheKey);
+        continue;
+      }
+      throw lastError;
+    }
+  }
+
+  function archiveAccess(archiveId: string): [string, BlobReadRequest] {
+    return ["archive:" + archiveId, { archiveId, archiveDataType: null, instanceListId: null, instanceIds: [] }];
+  }
+
+  function instanceAccess(archiveId: string, instance: ReferencingInstance): [string, BlobReadRequest] {
+    return [
+      `instance:${archiveId}:${instance.id[0]}/${instance.id[1]}`,
+      {
+        archiveId,
+        archiveDataType: instance.archiveDataType,
+        instanceListId: instance.id[0],
+        instanceIds: [instance.id[1]],
+      },
+    ];
+  }
+
+  async function* streamDecryptedBlobs(
+    blobs: BlobRef[],
+    sessionKey: AesKey,
+    referencingInstance: ReferencingInstance
+  ): AsyncGenerator<Uint8Array> {
+    for (const blob of blobs) {
+      const [cacheKey, request] = instanceAccess(blob.archiveId, referencingInstance);
+      const encrypted = await withAccess(cacheKey, request, (access, server) => {
+        const url = new URL("/rest/storage/blobservice", server);
+        url.searchParams.set("blobAccessToken", access.blobAccessToken);
+        return http.getBinary(server, url.pathname + url.search, {
+          accessToken,
+          body: {
+            [BLOB_GET_IN_FORMAT]: "0",
+            [BLOB_GET_IN_ARCHIVE_ID]: blob.archiveId,
+            [BLOB_GET_IN_BLOB_ID]: blob.blobId,
+            [BLOB_GET_IN_BLOB_IDS]: [],
+          },
+          extraHeaders: { v: STORAGE_MODEL_VERSION },
+          modelName: "storage",
+        });
+      });
+      yield aesDecrypt(sessionKey, encrypted);
+    }
+  }
+
+  return {
+    loadBlobElements<T>(typeModel: TypeModel, archiveId: string, elementIds: string[]): Promise<T[]> {
+      const [cacheKey, request] = archiveAccess(archiveId);
+      return withAccess(cacheKey, request, (access, server) => {
+        const url = new URL(`/rest/${typeModel.app}/${typeModel.name.toLowerCase()}/${archiveId}`, server);
+        url.searchParams.set("ids", elementIds.join(","));
+        url.searchParams.set("blobAccessToken", access.blobAccessToken);
+        return http.get<T[]>(server, url.pathname + url.search, {
+          accessToken,
+          extraHeaders: { v: String(typeModel.version) },
+          modelName: modelName(typeModel),
+        });
+      });
+    },
+    streamDecryptedBlobs,
+    async downloadDecryptedBlobs(
+      blobs: BlobRef[],
+      sessionKey: AesKey,
+      referencingInstance: ReferencingInstance
+    ): Promise<Uint8Array> {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of streamDecryptedBlobs(blobs, sessionKey, referencingInstance)) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const CLI = fileURLToPath(new URL("./cli.js", import.meta.url));
+/** Time limit for one CLI run. */
+const RUN_TIMEOUT_MS = 20_000;
+
+let dir: string;
+let server: http.Server;
+let apiUrl: string;
+
+/** Run the CLI in dir (no .env) against the fake server; resolves with its exit code and output. */
+function runCli(args: string[], env: Record<string, string>): Promise<{ code: number; stdout: string; stderr: string }> {
+  const baseEnv = Object.fromEntries(Object.entries(process.env).filter(([k]) => !k.startsWith("TUTANOTA_")));
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      [CLI, ...args],
+      { cwd: dir, timeout: RUN_TIMEOUT_MS, env: { ...baseEnv, XDG_CONFIG_HOME: dir, TUTANOTA_API_URL: apiUrl, ...env } },
+      (err, stdout, stderr) => {
+        const code = err == null ? 0 : typeof err.code === "number" ? err.code : -1;
+        resolve({ code, stdout, stderr });
+      }
+    );
+  });
+}
+
+describe("cli", () => {
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tcli-cli-"));
+    // Every request is rejected, as for an expired or revoked access token.
+    server = http.createServer((_req, res) => {
+      res.writeHead(401);
+      res.end("Unauthorized");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("a rejected TUTANOTA_ACCESS_TOKEN keeps the profile's stored session", async () => {
+    const sessionPath = path.join(dir, "tutanota-cli", "session.json");
+    fs.mkdirSync(path.dirname(sessionPath), { recursive: true });
+    const session = JSON.stringify({ baseUrl: apiUrl, accessToken: "stored-token", userId: "user-id", email: "me@tuta.com" });
+    fs.writeFileSync(sessionPath, session);
+
+    const commands = [
+      ["folders", "list"],
+      ["mails", "show", "mails/mail-1"],
+      ["mails", "mark-read", "mails/mail-1"],
+    ];
+    for (const args of commands) {
+      const run = await runCli(args, { TUTANOTA_ACCESS_TOKEN: "ci-token", TUTANOTA_USER_ID: "user-id" });
+      assert.equal(run.code, 1, run.stderr);
+      assert.match(run.stderr, /TUTANOTA_ACCESS_TOKEN was rejected/);
+      assert.doesNotMatch(run.stderr, /logging in again|Password/);
+      assert.equal(fs.readFileSync(sessionPath, "utf8"), session);
+    }
+  });
+});
@@ -1,10 +1,23 @@
 #!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
 import { Command } from "commander";
-import { loadEnv, getApiBaseUrl, getCredentials } from "./config.js";
+import {
+  loadEnv,
+  checkProfileAccount,
+  getAccessTokenLogin,
+  getApiBaseUrl,
+  getCredentials,
+  getKeystorePassphrase,
+  getRecoveryCredentials,
+  getTotpCodeSource,
+  InteractionRequiredError,
+} from "./config.js";
 import {
   getPassphraseKeyForSession,
   getSessionIdFromAccessToken,
   login,
+  loginWithRecoveryCode,
   loadCustomer,
   loadCustomerInfo,
   loadUser,
@@ -17,41 +30,108 @@ import {
   normalizeUserReturn,
 } from "./auth/types.js";
 import { getErrorMessage, setVerbose } from "./logger.js";
-import { clearSession, readSession, writeSession } from "./session.js";
+import {
+  clearSession,
+  DEFAULT_PROFILE,
+  getCurrentProfile,
+  getProfile,
+  listProfiles,
+  readSession,
+  setCurrentProfile,
+  setProfile,
+  validateProfileName,
+  writeSession,
+} from "./session.js";
 import type { AesKey } from "./auth/kdf.js";
-import { parseUserKeyMaterial, getMailMembership } from "./auth/userKeyMaterial.js";
-import { unlockUserGroupKey } from "./crypto/keyChain.js";
+import { parseUserKeyMaterial, getMailMembership, getMailMemberships } from "./auth/userKeyMaterial.js";
+import type { GroupMembershipKeyMaterial } from "./auth/userKeyMaterial.js";
+import { resolveBucketSessionKeys } from "./crypto/bucketKey.js";
+import { exportGroupKeys, unlockUserGroupKey } from "./crypto/keyChain.js";
+import type { KeyChain } from "./crypto/keyChain.js";
 import {
+  loadSessionKey,
   resolveSessionKey,
   decryptParsedInstance,
   type ServerInstance,
 } from "./crypto/decryptInstance.js";
-import { loadFormerGroupKey } from "./crypto/formerGroupKey.js";
+import { formerKeyLoader } from "./crypto/formerGroupKey.js";
+import { decodeInstance } from "./crypto/decodeInstance.js";
+import type { Mail, MailBox, MailSet, MailSetEntry } from "./crypto/entities.js";
 import {
-  MAILBOX_GROUP_ROOT,
   MAIL_BOX,
   MAIL_SET,
   MAIL_SET_ENTRY,
   MAIL,
-  MAILBOX_GROUP_ROOT_MAILBOX,
-  MAIL_BOX_MAIL_SETS,
-  MAIL_SET_REF_MAIL_SETS_LIST,
 } from "./crypto/typeModels.js";
+import { attributeId, getOwnerAttrs } from "./crypto/typeModel.js";
 import {
   loadEntity,
   loadRange,
+  loadRangePaged,
   GENERATED_MIN_ID,
   GENERATED_MAX_ID,
 } from "./rest.js";
 import { keyToUint8Array } from "@tutao/tutanota-crypto";
-import { unwrapSingleElementArray } from "./utils/bytes.js";
+import { loadMailDetails, mailSenderOf } from "./mail/mailDetails.js";
+import type { MailAddressInfo } from "./mail/mailDetails.js";
+import { loadMessageIds } from "./mail/conversation.js";
+import { listMailboxes, resolveMailboxId, selectMailbox } from "./mail/mailboxes.js";
+import { attachmentFileName, downloadAttachment, loadAttachments, streamAttachment } from "./mail/attachments.js";
+import { setMailUnread } from "./mail/unread.js";
+import { createBlobStore, type BlobStore } from "./blob.js";
+import { constructMailSetEntryId } from "./utils/generatedId.js";
+import { httpStatusOf, VersionMismatchError } from "./http.js";
+import {
+  deleteSession,
+  listSessions,
+  parseSessionId,
+  sessionListIdOf,
+  userIdOfAccessToken,
+} from "./auth/sessions.js";
+import { checkModelVersions } from "./doctor.js";
+import {
+  getKeystorePath,
+  openKeystore,
+  readKeystoreInfo,
+  removeKeystore,
+  saveKeystore,
+  type KeystoreSecret,
+} from "./keystore.js";
+import {
+  agentKeyChain,
+  agentStatus,
+  getAgentSocketPath,
+  serveAgentInForeground,
+  serveSpawnedAgent,
+  spawnAgent,
+  stopAgent,
+  type AgentState,
+} from "./agent.js";
+import * as typeModels from "./crypto/typeModels.js";
+import type { ExportAttachment, ExportMail } from "./export/message.js";
+import { createExportWriter, EXPORT_FORMATS, isExportFormat } from "./export/writer.js";
+import {
+  createExportState,
+  getExportStatePath,
+  getFolderState,
+  readExportState,
+  writeExportState,
+} from "./export/state.js";
 
 loadEnv();
 
+/** Exit code when a run with TUTANOTA_ACCESS_TOKEN would have to prompt or needs the password-derived key. */
+const EXIT_INTERACTION_REQUIRED = 3;
+
 function getVerbose(opts: { verbose?: boolean; V?: boolean }): boolean {
   return opts.verbose ?? opts.V ?? false;
 }
 
+/** Exit code for a failed command: EXIT_INTERACTION_REQUIRED or 1. */
+function exitCodeOf(err: unknown): number {
+  return err instanceof InteractionRequiredError ? EXIT_INTERACTION_REQUIRED : 1;
+}
+
 /** Run fn on each item with at most `concurrency` in flight; preserves order. */
 async function mapWithConcurrency<T, R>(
   items: T[],
@@ -72,11 +152,62 @@ async function mapWithConcurrency<T, R>(
   return results as R[];
 }
 
-/** Get a valid session: use stored session if valid, otherwise prompt and login, then persist. */
+/**
+ * Report a session the server rejected (HTTP 401) in a command's error handling. The stored session of the profile
+ * is cleared so the next run logs in again; a rejected TUTANOTA_ACCESS_TOKEN leaves it alone, as it is unrelated.
+ */
+function reportRejectedSession(command: string): void {
+  if (getAccessTokenLogin() != null) {
+    console.error(`Error: TUTANOTA_ACCESS_TOKEN was rejected (expired or revoked). Set a valid token and try '${command}' again.`);
+    return;
+  }
+  clearSession();
+  console.error(`Session expired or invalid. Please run 'auth check' to log in again, then try '${command}' again.`);
+}
+
+/**
+ * Session from TUTANOTA_ACCESS_TOKEN (CI): checked with verifySession and never stored. The user id is
+ * TUTANOTA_USER_ID, else the stored session's when it has the same token, else the user of the token's Session.
+ */
+async function accessTokenSession(
+  baseUrl: string,
+  tokenLogin: { accessToken: string; userId: string | null },
+  verbose: boolean
+): Promise<LoginResult> {
+  const { accessToken } = tokenLogin;
+  try {
+    await verifySession(baseUrl, accessToken);
+  } catch (err) {
+    if (err instanceof VersionMismatchError) throw err;
+    throw new Error("TUTANOTA_ACCESS_TOKEN was rejected. " + getErrorMessage(err));
+  }
+  let userId = tokenLogin.userId;
+  if (userId == null) {
+    try {
+      const stored = readSession();
+      if (stored?.accessToken === accessToken) userId = stored.userId;
+    } catch {
+      // unreadable session file: look the user up
+    }
+  }
+  userId ??= await userIdOfAccessToken(baseUrl, accessToken);
+  if (verbose) console.error("[verbose] Using TUTANOTA_ACCESS_TOKEN for user", userId);
+  return { accessToken, userId, sessionId: getSessionIdFromAccessToken(accessToken) };
+}
+
+/**
+ * Get a valid session: TUTANOTA_ACCESS_TOKEN if set, else the stored session if valid, otherwise prompt and login,
+ * then persist.
+ */
 async function getOrCreateSession(
   baseUrl: string,
   verbose: boolean
 ): Promise<{ result: LoginResult; usedStoredSession: boolean }> {
+  const tokenLogin = getAccessTokenLogin();
+  if (tokenLogin != null) {
+    return { result: await accessTokenSession(baseUrl, tokenLogin, verbose), usedStoredSession: false };
+  }
+
   let session = null;
   try {
     session = readSession();
@@ -85,6 +216,7 @@ async function getOrCreateSession(
   }
 
   if (session != null) {
+    if (session.email != null) checkProfileAccount(session.email);
     try {
       await verifySession(baseUrl, session.accessToken);
       if (verbose) console.error("[verbose] Using stored session.");
@@ -97,6 +229,8 @@ async function getOrCreateSession(
         usedStoredSession: true,
       };
     } catch (err) {
+      // Logging in again would be rejected the same way.
+      if (err instanceof VersionMismatchError) throw err;
       const cause = err instanceof Error ? (err.cause as { code?: string } | undefined) : undefined;
       const isNetworkError =
         (err instanceof Error && err.message === "fetch failed") ||
@@ -112,8 +246,32 @@ async function getOrCreateSession(
     console.error("[verbose] No stored session found, logging in.");
   }
 
-  const { email, password } = await getCredentials();
-  const result = await login(baseUrl, email, password);
+  const { result, email } = await loginWithPassword(baseUrl, session?.email);
+  persistLogin(baseUrl, result, email);
+  return { result, usedStoredSession: false };
+}
+
+/** Email stored with the profile's session, if any. */
+function storedEmail(): string | undefined {
+  try {
+    return readSession()?.email;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Log in with email and password (and a TOTP code if the account requires one). */
+async function loginWithPassword(
+  baseUrl: string,
+  profileEmail: string | undefined
+): Promise<{ result: LoginResult; email: string }> {
+  const { email, password } = await getCredentials(profileEmail);
+  const { totpCommand } = program.opts<{ totpCommand?: string }>();
+  return { result: await login(baseUrl, email, password, getTotpCodeSource(totpCommand)), email };
+}
+
+/** Store a new login as the session of the profile in use for later commands. */
+function persistLogin(baseUrl: string, result: LoginResult, email: string): void {
   const userIdRaw = result.userId as string | string[];
   const userId =
     typeof userIdRaw === "string"
@@ -126,25 +284,409 @@ async function getOrCreateSession(
     accessToken: result.accessToken,
     userId,
     sessionId: result.sessionId,
+    email,
   });
-  return { result, usedStoredSession: false };
 }
 
 /**
- * Get user passphrase key for decryption. Uses result.userPassphraseKey if present (just logged in),
- * otherwise prompts for email and password and derives key via getPassphraseKeyForSession.
+ * Get user passphrase key for decryption. Uses result.userPassphraseKey if present (just logged in), then the
+ * profile's keystore ('auth unlock'; skipped with useStoredKeys false), otherwise prompts for email and password and
+ * derives key via getPassphraseKeyForSession.
  */
 async function getPassphraseKeyForDecryption(
   baseUrl: string,
   result: LoginResult,
-  verbose: boolean
-): Promise<AesKey> {
+  verbose: boolean,
+  useStoredKeys = true
+): Promise<{ key: AesKey; fromKeystore: boolean }> {
   if (result.userPassphraseKey != null) {
-    return result.userPassphraseKey;
+    return { key: result.userPassphraseKey, fromKeystore: false };
+  }
+  if (useStoredKeys) {
+    const stored = await openKeystore(result.userId, () => getKeystorePassphrase());
+    if (stored != null) {
+      if (verbose) console.error("[verbose] Using passphrase key from keystore.");
+      return { key: stored, fromKeystore: true };
+    }
+  }
+  if (getAccessTokenLogin() != null) {
+    throw new InteractionRequiredError(
+      "This command needs your password-derived key, which TUTANOTA_ACCESS_TOKEN does not provide. " +
+        "Use 'agent start' or a keystore with a key file ('auth unlock --key-file') for the profile."
+    );
   }
   if (verbose) console.error("[verbose] No passphrase key in session; prompting for credentials to decrypt.");
-  const { email, password } = await getCredentials();
-  return getPassphraseKeyForSession(baseUrl, email, password);
+  const { email, password } = await getCredentials(storedEmail());
+  return { key: await getPassphraseKeyForSession(baseUrl, email, password), fromKeystore: false };
+}
+
+/**
+ * Get a session, load the User and unlock the key chain (user group + mail group).
+ * If loadUser returns 401 for a stored session, clears it and retries once with a fresh login (not with
+ * TUTANOTA_ACCESS_TOKEN).
+ */
+async function unlockKeyChainForSession(
+  baseUrl: string,
+  verbose: boolean,
+  useStoredKeys = true
+): Promise<{
+  result: LoginResult;
+  keyChain: KeyChain;
+  mailMembership: GroupMembershipKeyMaterial;
+  userRaw: Record<string, unknown>;
+  /** Null when the key chain came from the agent. */
+  userPassphraseKey: AesKey | null;
+}> {
+  let { result } = await getOrCreateSession(baseUrl, verbose);
+  if (useStoredKeys) {
+    const loadFormerKey = formerKeyLoader(baseUrl, result.accessToken, loadEntity, loadRange);
+    const fromAgent = await agentKeyChain(undefined, loadFormerKey).catch((err: unknown) => {
+      if (verbose) console.error("[verbose] Agent not usable:", getErrorMessage(err));
+      return null;
+    });
+    if (fromAgent != null && fromAgent.userId === result.userId) {
+      if (verbose) console.error("[verbose] Using key chain from agent.");
+      const mailMembership = getMailMembership(parseUserKeyMaterial(fromAgent.userRaw));
+      if (mailMembership == null) {
+        throw new Error("No mail group membership found.");
+      }
+      const { keyChain, userRaw } = fromAgent;
+      return { result, keyChain, mailMembership, userRaw, userPassphraseKey: null };
+    }
+  }
+  let userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose, useStoredKeys);
+
+  let userRaw: Record<string, unknown>;
+  try {
+    userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
+  } catch (loadErr) {
+    const loadMsg = getErrorMessage(loadErr);
+    // A rejected TUTANOTA_ACCESS_TOKEN is not retried: the stored session of the profile is not the token's.
+    const tokenLogin = getAccessTokenLogin() != null;
+    if ((loadMsg.includes("401") || loadMsg.includes("Unauthorized")) && !tokenLogin && readSession() != null) {
+      if (verbose) console.error("[verbose] loadUser returned 401; clearing session and retrying with fresh login.");
+      clearSession();
+      const retry = await getOrCreateSession(baseUrl, verbose);
+      result = retry.result;
+      userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose, useStoredKeys);
+      userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
+    } else {
+      throw loadErr;
+    }
+  }
+  const keyMaterial = parseUserKeyMaterial(userRaw);
+  if (verbose) {
+    console.error("[verbose] User key material: userGroup present,", keyMaterial.memberships.length, "memberships.");
+  }
+  const mailMembership = getMailMembership(keyMaterial);
+  if (mailMembership == null) {
+    throw new Error("No mail group membership found.");
+  }
+
+  let keyChain: KeyChain;
+  try {
+    keyChain = unlockUserGroupKey(
+      userPassphraseKey.key,
+      keyMaterial,
+      formerKeyLoader(baseUrl, result.accessToken, loadEntity, loadRange)
+    );
+  } catch (err) {
+    if (!userPassphraseKey.fromKeystore) throw err;
+    throw new Error("The key in the keystore no longer unlocks your account (password changed?). Run 'auth unlock' again.");
+  }
+  return { result, keyChain, mailMembership, userRaw, userPassphraseKey: userPassphraseKey.key };
+}
+
+/**
+ * Mail membership of the mailbox chosen with --mailbox (mail address or mail group id), or the personal mailbox.
+ * Only a mail address needs requests (the groups' GroupInfo).
+ */
+async function selectMailMembership(
+  baseUrl: string,
+  unlocked: Awaited<ReturnType<typeof unlockKeyChainForSession>>,
+  mailbox: string | undefined
+): Promise<GroupMembershipKeyMaterial> {
+  if (mailbox == null) return unlocked.mailMembership;
+  const keyMaterial = parseUserKeyMaterial(unlocked.userRaw);
+  const byGroupId = getMailMemberships(keyMaterial).find((m) => m.group === mailbox.trim());
+  const membership =
+    byGroupId ?? selectMailbox(await listMailboxes(baseUrl, unlocked.result.accessToken, keyMaterial), mailbox).membership;
+  if ((await unlocked.keyChain.resolveGroupKey(membership.group, membership.groupKeyVersion)) == null) {
+    throw new Error(`Could not unlock mailbox ${mailbox} (run with --verbose for details).`);
+  }
+  return membership;
+}
+
+/** Parse a mail id as printed by 'mails list' (listId/elementId). */
+function parseMailId(mailId: string): [string, string] | null {
+  const parts = mailId.trim().split("/");
+  if (parts.length !== 2 || parts[0] === "" || parts[1] === "") return null;
+  return [parts[0], parts[1]];
+}
+
+/**
+ * Parse a --since/--until value: a date (YYYY-MM-DD, UTC) or an ISO 8601 date-time.
+ * With endOfDay, a plain date means the last millisecond of that day, so --until includes the whole day.
+ */
+function parseDateOption(value: string, endOfDay: boolean): Date | null {
+  const v = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    const ms = Date.parse(v + "T00:00:00Z");
+    if (Number.isNaN(ms)) return null;
+    return new Date(endOfDay ? ms + 24 * 60 * 60 * 1000 - 1 : ms);
+  }
+  const ms = Date.parse(v);
+  return Number.isNaN(ms) ? null : new Date(ms);
+}
+
+/**
+ * Parse --since/--until into MailSetEntry id bounds: first is below every entry received at or after since,
+ * last is above every entry received at or before until. Exits on invalid dates.
+ */
+function parseDateRangeOptions(opts: { since?: string; until?: string }): {
+  first: string | null;
+  last: string | null;
+} {
+  const since = opts.since != null ? parseDateOption(opts.since, false) : null;
+  const until = opts.until != null ? parseDateOption(opts.until, true) : null;
+  if ((opts.since != null && since == null) || (opts.until != null && until == null)) {
+    console.error("Error: --since and --until take a date (YYYY-MM-DD) or an ISO 8601 date-time.");
+    process.exit(1);
+  }
+  if (since != null && until != null && since.getTime() > until.getTime()) {
+    console.error("Error: --since is after --until.");
+    process.exit(1);
+  }
+  return {
+    first: since != null ? constructMailSetEntryId(since, GENERATED_MIN_ID) : null,
+    last: until != null ? constructMailSetEntryId(until, GENERATED_MAX_ID) : null,
+  };
+}
+
+function formatMailAddress(a: MailAddressInfo): string {
+  return a.name !== "" ? `${a.name} <${a.address}>` : a.address;
+}
+
+/** A decrypted MailSet (folder or label) with the mail group key version that decrypted it. */
+interface DecryptedFolder {
+  /** Element id, as used for folder ids in commands. */
+  id: string;
+  mailSet: MailSet;
+  /** Key version that decrypted name and color, or null when no version did. */
+  keyVersion: string | null;
+}
+
+/**
+ * Load the mailbox of a mail membership and decrypt its MailSets, including former mail group keys they need.
+ * MailSets whose _ownerKeyVersion is off are retried with the other available key versions; a MailSet no key
+ * decrypts keeps empty encrypted values.
+ */
+async function loadDecryptedFolders(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  mailMembership: GroupMembershipKeyMaterial,
+  verbose: boolean
+): Promise<DecryptedFolder[]> {
+  const mailGroupId = mailMembership.group;
+  const mailboxId = await resolveMailboxId(baseUrl, accessToken, mailGroupId);
+
+  const mailboxRaw = await loadEntity<ServerInstance>(baseUrl, MAIL_BOX, mailboxId, { accessToken });
+  const mailboxSk = await loadSessionKey(keyChain, mailboxRaw, MAIL_BOX);
+  const mailbox = decodeInstance<MailBox>(MAIL_BOX, decryptParsedInstance(MAIL_BOX, mailboxRaw, mailboxSk));
+  const mailSetListId = mailbox.mailSets?.mailSets;
+  if (mailSetListId == null) {
+    throw new Error("MailBox missing mailSets list id.");
+  }
+
+  const mailSetRawList = await loadRange<ServerInstance>(baseUrl, MAIL_SET, mailSetListId, {
+    accessToken,
+    start: GENERATED_MIN_ID,
+    count: 1000,
+    reverse: false,
+    verboseResponse: verbose,
+  });
+
+  // Pre-load former group keys when MailSets use an older key version (e.g. _ownerKeyVersion "0").
+  const keyVersionsNeeded = new Set<string>();
+  for (const raw of mailSetRawList) {
+    const v = raw[getOwnerAttrs(MAIL_SET).ownerKeyVersion];
+    if (v != null && String(v) !== mailMembership.groupKeyVersion) {
+      keyVersionsNeeded.add(String(v));
+    }
+  }
+  for (const keyVersion of keyVersionsNeeded) {
+    if (keyChain.getGroupKey(mailGroupId, keyVersion) != null) continue;
+    const formerKey = await keyChain.resolveGroupKey(mailGroupId, keyVersion);
+    if (formerKey != null && verbose) {
+      const keyBytes = keyToUint8Array(formerKey);
+      console.error("[verbose] Loaded former mail group key for version", keyVersion, "length:", keyBytes.length, "bytes", keyBytes.length === 16 ? "(128-bit)" : keyBytes.length === 32 ? "(256-bit)" : "");
+    }
+  }
+
+  const availableVersions = keyChain.getAvailableKeyVersions(mailGroupId);
+  const FOLDER_LOAD_CONCURRENCY = 5;
+  return mapWithConcurrency(mailSetRawList, FOLDER_LOAD_CONCURRENCY, async (raw, i) => {
+    // Mirror client: avoid prototype pollution (client strips __proto__ in JSON parse reviver).
+    const safe =
+      "__proto__" in raw
+        ? (Object.fromEntries(Object.entries(raw).filter(([k]) => k !== "__proto__")) as ServerInstance)
+        : raw;
+    const onSessionKeyResolved =
+      verbose && i === 0
+        ? (method: "256" | "128" | "256-legacy" | null) => {
+            if (method == null) {
+              console.error("[verbose] Session key: all three attempts failed.");
+            }
+          }
+        : undefined;
+    const instanceVersion = String(safe[getOwnerAttrs(MAIL_SET).ownerKeyVersion] ?? "");
+    const versionsToTry =
+      availableVersions.length <= 1 ? [instanceVersion] : [instanceVersion, ...availableVersions.filter((v) => v !== instanceVersion)];
+    const nameId = attributeId(MAIL_SET, "name");
+    const colorId = attributeId(MAIL_SET, "color");
+    let dec: ServerInstance | null = null;
+    let keyVersion: string | null = null;
+    for (const tryVer of versionsToTry) {
+      const failedValueIds = new Set<string>();
+      const onDecryptFailure = (valueId: string, err: unknown) => {
+        failedValueIds.add(valueId);
+        if (verbose) {
+          console.error("[verbose] Decrypt failed for MailSet attribute", valueId, "(both 256- and 128-bit session key):", getErrorMessage(err));
+        }
+      };
+      const sk = resolveSessionKey(keyChain, safe, MAIL_SET, onSessionKeyResolved, undefined, tryVer);
+      if (sk == null) continue;
+      const onDecryptFallback = verbose
+        ? (valueId: string) => {
+            console.error("[verbose] MailSet attribute", valueId, ": full session key failed, decrypted with 128-bit session key.");
+          }
+        : undefined;
+      dec = decryptParsedInstance(MAIL_SET, safe, sk, onDecryptFailure, onDecryptFallback);
+      if (!failedValueIds.has(nameId) && !failedValueIds.has(colorId)) {
+        keyVersion = tryVer;
+        break;
+      }
+      if (verbose) {
+        console.error("[verbose] MailSet id", safe[attributeId(MAIL_SET, "_id")], "keyVersion", tryVer, "-> invalid mac on name/color, trying next version.");
+      }
+    }
+    if (dec == null) {
+      dec = decryptParsedInstance(MAIL_SET, safe, null, undefined, undefined);
+    }
+    const mailSet = decodeInstance<MailSet>(MAIL_SET, dec);
+    return { id: mailSetElementId(mailSet), mailSet, keyVersion };
+  });
+}
+
+/**
+ * Resolve a folder id (MailSet element id from 'folders list') to the list id of its MailSetEntry list.
+ * Returns null if not found.
+ */
+async function resolveFolderEntriesListId(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  mailMembership: GroupMembershipKeyMaterial,
+  folderId: string,
+  verbose: boolean
+): Promise<string | null> {
+  const folders = await loadDecryptedFolders(baseUrl, accessToken, keyChain, mailMembership, verbose);
+  return folders.find((f) => f.id === folderId)?.mailSet.entries ?? null;
+}
+
+/** Element id of a MailSet (its _id is [listId, elementId]); folder ids in commands are element ids. */
+function mailSetElementId(mailSet: MailSet): string {
+  return Array.isArray(mailSet._id) ? mailSet._id[1] : String(mailSet._id ?? "");
+}
+
+/** Mail id ([listId, elementId]) referenced by a MailSetEntry, or null if the entry has none. */
+function mailIdFromEntry(entry: ServerInstance): [string, string] | null {
+  const mail = decodeInstance<MailSetEntry>(MAIL_SET_ENTRY, entry).mail;
+  return Array.isArray(mail) ? mail : null;
+}
+
+/** Element id of a MailSetEntry (its _id is an IdTuple [listId, elementId]). */
+function entryElementIdOf(entry: ServerInstance): string {
+  const id = decodeInstance<MailSetEntry>(MAIL_SET_ENTRY, entry)._id;
+  return Array.isArray(id) ? id[1] : String(id ?? "");
+}
+
+/**
+ * Load a Mail, strip __proto__, resolve its session key, decrypt and decode it.
+ * Received mail without an owner session key is decrypted with its bucket key; bucketSessionKeys then holds the
+ * session keys of its files too.
+ */
+async function loadDecryptedMail(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  mailId: string | [string, string]
+): Promise<{ mail: Mail; sessionKey: AesKey | null; bucketSessionKeys: Map<string, AesKey> }> {
+  const mailRaw = await loadEntity<ServerInstance>(baseUrl, MAIL, mailId, { accessToken });
+  const raw =
+  "__proto__" in mailRaw
+    ? (Object.fromEntries(Object.entries(mailRaw).filter(([k]) => k !== "__proto__")) as ServerInstance)
+    : mailRaw;
+  let sessionKey = await loadSessionKey(keyChain, raw, MAIL);
+  let bucketSessionKeys = new Map<string, AesKey>();
+  if (sessionKey == null) {
+    const encrypted = decodeInstance<Mail>(MAIL, raw);
+    bucketSessionKeys = await resolveBucketSessionKeys(
+      baseUrl,
+      accessToken,
+      keyChain,
+      encrypted.bucketKey,
+      encrypted._ownerGroup
+    );
+    const elementId = Array.isArray(mailId) ? mailId[1] : mailId;
+    sessionKey = bucketSessionKeys.get(elementId) ?? null;
+  }
+  return {
+    mail: decodeInstance<Mail>(MAIL, decryptParsedInstance(MAIL, raw, sessionKey)),
+    sessionKey,
+    bucketSessionKeys,
+  };
+}
+
+/**
+ * Load a mail with its details and conversation message ids, ready to be written by an exporter.
+ * With withAttachments, attachments are downloaded and decrypted too.
+ */
+async function loadExportMail(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  blobStore: BlobStore,
+  mailId: [string, string],
+  withAttachments = false
+): Promise<ExportMail> {
+  const { mail, sessionKey, bucketSessionKeys } = await loadDecryptedMail(baseUrl, accessToken, keyChain, mailId);
+  const details = await loadMailDetails(blobStore, mail, sessionKey);
+  const { messageId, inReplyTo } = await loadMessageIds(baseUrl, accessToken, mail);
+  const attachments: ExportAttachment[] = [];
+  if (withAttachments) {
+    for (const a of await loadAttachments(baseUrl, accessToken, keyChain, mail, bucketSessionKeys)) {
+      const data = await downloadAttachment(blobStore, a);
+      attachments.push({ name: a.name, mimeType: a.mimeType, cid: a.cid, data });
+    }
+  }
+  return {
+    id: mailId,
+    subject: mail.subject,
+    sender: mailSenderOf(mail),
+    toRecipients: details.toRecipients,
+    ccRecipients: details.ccRecipients,
+    bccRecipients: details.bccRecipients,
+    replyTos: details.replyTos,
+    sentDate: details.sentDate,
+    receivedDate: mail.receivedDate,
+    unread: mail.unread === true,
+    messageId,
+    inReplyTo,
+    body: details.body,
+    attachments,
+  };
 }
 
 const program = new Command();
@@ -152,7 +694,19 @@ const program = new Command();
 program
   .name("tutanota-cli")
   .description("CLI to authenticate with and export mail from Tutanota")
-  .version("0.1.0");
+  .version("0.1.0")
+  .option("--totp-command <command>", "Command that prints the TOTP code for two-factor login (e.g. oathtool)")
+  .option("--profile <name>", "Profile (account) to use; default TUTANOTA_PROFILE or the one set with 'auth profiles use'")
+  .hook("preAction", () => {
+    const { profile } = program.opts<{ profile?: string }>();
+    try {
+      if (profile != null) setProfile(profile);
+      getProfile();
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
 
 const authCmd = program.command("auth").description("Authentication commands");
 
@@ -200,525 +754,1078 @@ authCmd
       } else {
         console.error("Error:", message);
       }
-      process.exit(1);
+      process.exit(exitCodeOf(err));
     }
   });
 
 authCmd
-  .command("logout")
-  .description("Clear the stored session (log out)")
-  .action(() => {
-    clearSession();
-    console.log("Session cleared.");
-  });
-
-const foldersCmd = program.command("folders").description("Mail folder commands");
-
-foldersCmd
-  .command("list")
-  .description("List mail folders (requires password when using stored session)")
-  .option("--json", "Output as JSON")
-  .option("--verbose, -v", "Verbose logging")
-  .action(async (opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
+  .command("login")
+  .description("Log in and store a new session, replacing a stored one")
+  .option("--recovery-code", "Log in with the account recovery code instead of password and second factor")
+  .option("--json", "Output result as JSON")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (opts: { recoveryCode?: boolean; json?: boolean; verbose?: boolean; V?: boolean }) => {
     const verbose = getVerbose(opts);
-    if (verbose) setVerbose(true);
+    if (verbose) {
+      setVerbose(true);
+      console.error("[verbose] Verbose logging enabled.");
+    }
     try {
       const baseUrl = getApiBaseUrl();
-      let { result } = await getOrCreateSession(baseUrl, verbose);
-      let userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose);
-
-      let userRaw: Record<string, unknown>;
-      try {
-        userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
-      } catch (loadErr) {
-        const loadMsg = loadErr instanceof Error ? loadErr.message : String(loadErr);
-        if ((loadMsg.includes("401") || loadMsg.includes("Unauthorized")) && readSession() != null) {
-          if (verbose) console.error("[verbose] loadUser returned 401; clearing session and retrying with fresh login.");
-          clearSession();
-          const retry = await getOrCreateSession(baseUrl, verbose);
-          result = retry.result;
-          userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose);
-          userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
-        } else {
-          throw loadErr;
-        }
-      }
-      const keyMaterial = parseUserKeyMaterial(userRaw);
-      if (verbose) {
-        console.error("[verbose] User key material: userGroup present,", keyMaterial.memberships.length, "memberships.");
-      }
-      const mailMembership = getMailMembership(keyMaterial);
-      if (mailMembership == null) {
-        throw new Error("No mail group membership found.");
-      }
-
-      const keyChain = unlockUserGroupKey(userPassphraseKey, keyMaterial);
-      const mailGroupId = mailMembership.group;
-
-      const mailboxGroupRootRaw = await loadEntity<Record<string, unknown>>(
-        baseUrl,
-        MAILBOX_GROUP_ROOT,
-        mailGroupId,
-        { accessToken: result.accessToken }
-      );
-      const mailboxId = mailboxGroupRootRaw[MAILBOX_GROUP_ROOT_MAILBOX];
-      if (mailboxId == null) {
-        throw new Error("MailboxGroupRoot missing mailbox id.");
-      }
-
-      const mailboxRaw = await loadEntity<ServerInstance>(
-        baseUrl,
-        MAIL_BOX,
-        String(mailboxId),
-        { accessToken: result.accessToken }
-      );
-      const mailboxSk = resolveSessionKey(keyChain, mailboxRaw, MAIL_BOX);
-      const mailboxDecrypted = decryptParsedInstance(MAIL_BOX, mailboxRaw, mailboxSk);
-      const mailSetsAggregate = unwrapSingleElementArray(
-        mailboxDecrypted[MAIL_BOX_MAIL_SETS] as Record<string, unknown> | unknown[] | undefined
-      );
-      const mailSetListId =
-        mailSetsAggregate != null && !Array.isArray(mailSetsAggregate)
-          ? (mailSetsAggregate as Record<string, unknown>)[MAIL_SET_REF_MAIL_SETS_LIST]
-          : null;
-      if (mailSetListId == null) {
-        throw new Error("MailBox missing mailSets list id.");
-      }
-
-      const mailSetRawList = await loadRange<ServerInstance>(
-        baseUrl,
-        MAIL_SET,
-        String(mailSetListId),
-        {
-          accessToken: result.accessToken,
-          start: GENERATED_MIN_ID,
-          count: 1000,
-          reverse: false,
-          verboseResponse: verbose,
-        }
-      );
-
-      // Pre-load former group keys when MailSets use an older key version (e.g. _ownerKeyVersion "0").
-      const keyVersionsNeeded = new Set<string>();
-      for (const raw of mailSetRawList) {
-        const v = raw["1399"];
-        if (v != null && String(v) !== mailMembership.groupKeyVersion) {
-          keyVersionsNeeded.add(String(v));
-        }
-      }
-      for (const keyVersion of keyVersionsNeeded) {
-        if (keyChain.getGroupKey(mailGroupId, keyVersion) != null) continue;
-        const formerKey = await loadFormerGroupKey(
-          baseUrl,
-          result.accessToken,
-          keyChain,
-          loadEntity,
-          loadRange,
-          mailGroupId,
-          mailMembership.groupKeyVersion,
-          keyVersion
-        );
-        if (formerKey != null) {
-          keyChain.addGroupKey(mailGroupId, keyVersion, formerKey);
-          if (verbose) {
-            const keyBytes = keyToUint8Array(formerKey);
-            console.error("[verbose] Loaded former mail group key for version", keyVersion, "length:", keyBytes.length, "bytes", keyBytes.length === 16 ? "(128-bit)" : keyBytes.length === 32 ? "(256-bit)" : "");
-          }
-        }
+      if (verbose) console.error("[verbose] API base URL:", baseUrl);
+      let loggedIn: { result: LoginResult; email: string };
+      if (opts.recoveryCode) {
+        const { email, recoveryCode } = await getRecoveryCredentials(storedEmail());
+        loggedIn = { result: await loginWithRecoveryCode(baseUrl, email, recoveryCode), email };
+      } else {
+        loggedIn = await loginWithPassword(baseUrl, storedEmail());
       }
-
-      // System folder type (MailSetKind) to display name when MailSet name is not stored (client uses fixed labels).
-      const SYSTEM_FOLDER_DISPLAY_NAMES: Record<string, string> = {
-        "1": "Inbox",
-        "2": "Sent",
-        "3": "Trash",
-        "4": "Archive",
-        "5": "Spam",
-        "6": "Draft",
-        "10": "Scheduled",
-      };
-      const availableVersions = keyChain.getAvailableKeyVersions(mailGroupId);
-      const FOLDER_LIST_CONCURRENCY = 5;
-      const folders = await mapWithConcurrency(
-        mailSetRawList,
-        FOLDER_LIST_CONCURRENCY,
-        async (raw, i) => {
-          // Mirror client: avoid prototype pollution (client strips __proto__ in JSON parse reviver).
-          const safe =
-            "__proto__" in raw
-              ? (Object.fromEntries(Object.entries(raw).filter(([k]) => k !== "__proto__")) as ServerInstance)
-              : raw;
-          const onSessionKeyResolved =
-            verbose && i === 0
-              ? (method: "256" | "128" | "256-legacy" | null) => {
-                  if (method == null) {
-                    console.error("[verbose] Session key: all three attempts failed.");
-                  }
-                }
-              : undefined;
-          const instanceVersion = String((safe["1399"] ?? "") as string);
-          const versionsToTry =
-            availableVersions.length <= 1 ? [instanceVersion] : [instanceVersion, ...availableVersions.filter((v) => v !== instanceVersion)];
-          const idForLog = Array.isArray(safe["431"]) ? safe["431"][(safe["431"] as unknown[]).length - 1] : safe["431"];
-          let dec: ServerInstance | null = null;
-          let triedVersion: string | null = null;
-          for (const tryVer of versionsToTry) {
-            const failedValueIds = new Set<string>();
-            const onDecryptFailureInner = (valueId: string, err: unknown) => {
-              failedValueIds.add(valueId);
-              if (verbose) {
-                console.error("[verbose] Decrypt failed for MailSet attribute", valueId, "(both 256- and 128-bit session key):", getErrorMessage(err));
-              }
-            };
-            const sk = resolveSessionKey(keyChain, safe, MAIL_SET, onSessionKeyResolved, undefined, tryVer);
-            if (sk == null) continue;
-            const onDecryptFallback =
-              verbose
-                ? (valueId: string) => {
-                    console.error("[verbose] MailSet attribute", valueId, ": full session key failed, decrypted with 128-bit session key.");
-                  }
-                : undefined;
-            dec = decryptParsedInstance(MAIL_SET, safe, sk, onDecryptFailureInner, onDecryptFallback);
-            const hadRelevantFailure = failedValueIds.has("435") || failedValueIds.has("1479");
-            if (!hadRelevantFailure) {
-              triedVersion = tryVer;
-              break;
-            }
-            if (verbose) {
-              console.error("[verbose] MailSet id", safe["431"], "keyVersion", tryVer, "-> invalid mac on 435/1479, trying next version.");
-            }
-          }
-          if (dec == null) {
-            dec = decryptParsedInstance(MAIL_SET, safe, null, undefined, undefined);
-          }
-          const name = ((dec as ServerInstance)["435"] ?? "") as string;
-          if (verbose && i === 0 && dec != null) {
-            console.error("[verbose] First MailSet: session key resolved, name decrypted.");
-          }
-          const idRaw = safe["431"];
-          // Server returns 431 as [listId, elementId] for list elements; use element id for display.
-          const id = Array.isArray(idRaw)
-            ? String(idRaw[idRaw.length - 1] ?? "")
-            : String(idRaw ?? "");
-          const folderType = (dec as ServerInstance)["436"];
-          const folderTypeStr = String(folderType ?? "");
-          const displayName =
-            String(name).trim() !== ""
-              ? String(name)
-              : SYSTEM_FOLDER_DISPLAY_NAMES[folderTypeStr] ??
-                (folderTypeStr === "8" ? "Label (no name)" : folderTypeStr === "0" ? "(no name)" : String(name) || "(no name)");
-          if (verbose && (folderTypeStr === "0" || folderTypeStr === "8") && String(name).trim() === "") {
-            console.error("[verbose] Custom/label folder with empty name:", "id:", id, "_ownerKeyVersion:", safe["1399"], triedVersion != null ? "decrypted with keyVersion: " + triedVersion : "tried all versions");
-          }
-          return { name: displayName, id, folderType };
-        }
-      );
+      const { result } = loggedIn;
+      clearSession();
+      persistLogin(baseUrl, result, loggedIn.email);
 
       if (opts.json) {
-        console.log(JSON.stringify({ folders }));
+        console.log(
+          JSON.stringify({
+            ok: true,
+            recoveryCode: opts.recoveryCode === true,
+            userId: result.userId,
+            sessionId: result.sessionId,
+          })
+        );
       } else {
-        console.log("Folders");
-        console.log("-------");
-        for (const f of folders) {
-          console.log(`  ${f.name}\t${f.id}`);
+        console.log(opts.recoveryCode ? "Logged in with recovery code." : "Logged in.");
+        console.log("User ID:", result.userId);
+        console.log("Session ID:", result.sessionId.join("/"));
+        if (opts.recoveryCode) {
+          console.log("Commands that decrypt mail will ask for your password.");
         }
       }
     } catch (err) {
       const message = getErrorMessage(err);
-      if (message.includes("401") || message.includes("Unauthorized")) {
-        clearSession();
-        console.error(
-          "Session expired or invalid. Please run 'auth check' to log in again, then try 'folders list' again."
-        );
+      if (verbose) {
+        console.error("[verbose] auth login failed:", err);
+        if (err instanceof Error && err.cause) console.error("[verbose] cause:", err.cause);
+        if (err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+      }
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: false, error: message }));
       } else {
-        if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
         console.error("Error:", message);
       }
-      process.exit(1);
+      process.exit(exitCodeOf(err));
     }
   });
 
-const mailsCmd = program.command("mails").description("Mail commands");
-
-mailsCmd
-  .command("list <folder-id>")
-  .description("List latest 10 mails in a folder (folder-id from 'folders list')")
-  .option("--json", "Output as JSON")
-  .option("--verbose, -v", "Verbose logging")
-  .action(async (folderId: string, opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
-    const verbose = getVerbose(opts);
-    if (verbose) setVerbose(true);
-    const folderIdTrimmed = typeof folderId === "string" ? folderId.trim() : "";
-    if (!folderIdTrimmed) {
-      console.error("Error: folder-id is required. Run 'folders list' to see folder ids.");
-      process.exit(1);
+/**
+ * Delete a profile's stored session on the server (unless local) and then locally.
+ * When the server cannot be reached, keeps the stored session, prints why and returns false.
+ */
+async function logoutProfile(profile: string, local: boolean, verbose: boolean): Promise<boolean> {
+  let session = null;
+  try {
+    session = readSession(profile);
+  } catch {
+    session = null;
+  }
+  if (session != null && !local) {
+    try {
+      const sessionId = session.sessionId ?? getSessionIdFromAccessToken(session.accessToken);
+      await deleteSession(session.baseUrl, session.accessToken, sessionId);
+      console.log("Session deleted on the server.");
+    } catch (err) {
+      const status = httpStatusOf(err);
+      if (status !== 401 && status !== 404) {
+        // Keep the stored session so logout can be retried; the token is still valid.
+        if (verbose) console.error("[verbose] logout failed:", err);
+        console.error("Error: Could not delete the session on the server:", getErrorMessage(err));
+        console.error("The stored session was kept. Retry, or use --local to only clear it locally.");
+        return false;
+      }
+      if (verbose) console.error("[verbose] Session already closed on the server:", getErrorMessage(err));
     }
+  }
+  clearSession(profile);
+  if (removeKeystore(profile) && verbose) console.error("[verbose] Keystore removed.");
+  try {
+    if (await stopAgent(getAgentSocketPath(profile))) console.log("Agent stopped.");
+  } catch (err) {
+    console.error("Warning: Could not stop the agent:", getErrorMessage(err));
+  }
+  return true;
+}
+
+authCmd
+  .command("logout")
+  .description("Log out: delete the session on the server and clear the stored session")
+  .option("--local", "Only clear the stored session; the session stays valid on the server")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (opts: { local?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    if (!(await logoutProfile(getProfile(), opts.local === true, verbose))) process.exit(1);
+    console.log("Session cleared.");
+  });
+
+authCmd
+  .command("unlock")
+  .description("Store your passphrase key in the local keystore, so decrypting commands don't ask for the password")
+  .option("--key-file <path>", "Encrypt the keystore with this key file (created with mode 0600 if missing)")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (opts: { keyFile?: string; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
     try {
       const baseUrl = getApiBaseUrl();
-      let { result } = await getOrCreateSession(baseUrl, verbose);
-      let userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose);
+      // Derive the key from the password (not an old keystore) and check that it unlocks the account.
+      const { result, userPassphraseKey } = await unlockKeyChainForSession(baseUrl, verbose, false);
+      if (userPassphraseKey == null) throw new Error("Could not derive the passphrase key.");
+      const secret: KeystoreSecret =
+        opts.keyFile != null
+          ? { method: "keyFile", keyFile: opts.keyFile }
+          : { method: "passphrase", passphrase: await getKeystorePassphrase(true) };
+      await saveKeystore(userPassphraseKey, result.userId, secret);
+      console.log("Keystore unlocked:", getKeystorePath());
+      if (secret.method === "keyFile") console.log("Key file:", readKeystoreInfo()?.keyFile ?? opts.keyFile);
+    } catch (err) {
+      if (verbose) console.error("[verbose] auth unlock failed:", err);
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+authCmd
+  .command("lock")
+  .description("Delete the local keystore; decrypting commands ask for the password again")
+  .action(() => {
+    try {
+      console.log(removeKeystore() ? "Keystore locked (deleted)." : "No keystore for this profile.");
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+const profilesCmd = authCmd.command("profiles").description("Named profiles: one stored session per account");
 
-      let userRaw: Record<string, unknown>;
+profilesCmd
+  .command("list")
+  .description("List profiles with their account and whether a session is stored")
+  .option("--json", "Output as JSON")
+  .action((opts: { json?: boolean }) => {
+    const active = getProfile();
+    const profiles = listProfiles().map((name) => {
+      let session = null;
       try {
-        userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
-      } catch (loadErr) {
-        const loadMsg = getErrorMessage(loadErr);
-        if ((loadMsg.includes("401") || loadMsg.includes("Unauthorized")) && readSession() != null) {
-          if (verbose) console.error("[verbose] loadUser returned 401; clearing session and retrying with fresh login.");
-          clearSession();
-          const retry = await getOrCreateSession(baseUrl, verbose);
-          result = retry.result;
-          userPassphraseKey = await getPassphraseKeyForDecryption(baseUrl, result, verbose);
-          userRaw = await loadUser(baseUrl, result.accessToken, result.userId) as Record<string, unknown>;
-        } else {
-          throw loadErr;
-        }
+        session = readSession(name);
+      } catch {
+        session = null;
       }
-      const keyMaterial = parseUserKeyMaterial(userRaw);
-      const mailMembership = getMailMembership(keyMaterial);
-      if (mailMembership == null) {
-        throw new Error("No mail group membership found.");
+      return {
+        name,
+        active: name === active,
+        email: session?.email ?? null,
+        userId: session?.userId ?? null,
+        baseUrl: session?.baseUrl ?? null,
+        loggedIn: session != null,
+      };
+    });
+    if (opts.json) {
+      console.log(JSON.stringify({ profiles }));
+      return;
+    }
+    for (const p of profiles) {
+      const account = p.loggedIn ? `${p.email ?? "(unknown email)"}  ${p.baseUrl}` : "(not logged in)";
+      console.log(`${p.active ? "*" : " "} ${p.name}\t${account}`);
+    }
+  });
+
+profilesCmd
+  .command("use <name>")
+  .description("Use this profile for later commands (a new profile logs in at the next command)")
+  .action((name: string) => {
+    try {
+      setCurrentProfile(name);
+      console.log(`Using profile ${name}.`);
+      if (process.env.TUTANOTA_PROFILE?.trim()) {
+        console.log("Note: TUTANOTA_PROFILE is set and takes precedence in this environment.");
       }
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
 
-      const keyChain = unlockUserGroupKey(userPassphraseKey, keyMaterial);
-      const mailGroupId = mailMembership.group;
+profilesCmd
+  .command("remove <name>")
+  .description("Log out a profile and delete its stored session")
+  .option("--local", "Only delete the stored session; the session stays valid on the server")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (name: string, opts: { local?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      validateProfileName(name);
+      if (!listProfiles().includes(name)) throw new Error(`No profile named ${name}.`);
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+    if (!(await logoutProfile(name, opts.local === true, verbose))) process.exit(1);
+    if (getCurrentProfile() === name) setCurrentProfile(DEFAULT_PROFILE);
+    console.log(`Profile ${name} removed.`);
+  });
+
+const sessionsCmd = authCmd.command("sessions").description("Active sessions of your account");
 
-      const mailboxGroupRootRaw = await loadEntity<Record<string, unknown>>(
+sessionsCmd
+  .command("list")
+  .description("List active sessions with client, IP address and last access time (requires password)")
+  .option("--all", "Include expired and deleted sessions")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (opts: { all?: boolean; json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      const baseUrl = getApiBaseUrl();
+      const { result, keyChain, userRaw } = await unlockKeyChainForSession(baseUrl, verbose);
+      const sessions = await listSessions(
         baseUrl,
-        MAILBOX_GROUP_ROOT,
-        mailGroupId,
-        { accessToken: result.accessToken }
+        result.accessToken,
+        keyChain,
+        userRaw,
+        result.sessionId,
+        opts.all === true
       );
-      const mailboxId = mailboxGroupRootRaw[MAILBOX_GROUP_ROOT_MAILBOX];
-      if (mailboxId == null) {
-        throw new Error("MailboxGroupRoot missing mailbox id.");
+
+      if (opts.json) {
+        console.log(
+          JSON.stringify({
+            sessions: sessions.map((s) => ({
+              id: s.id.join("/"),
+              clientIdentifier: s.clientIdentifier,
+              loginTime: s.loginTime?.toISOString() ?? null,
+              lastAccessTime: s.lastAccessTime.toISOString(),
+              loginIpAddress: s.loginIpAddress || null,
+              state: s.state,
+              current: s.current,
+            })),
+          })
+        );
+      } else if (sessions.length === 0) {
+        console.log("No sessions.");
+      } else {
+        for (const s of sessions) {
+          const marker = s.current ? " (this CLI)" : "";
+          console.log(`${s.id.join("/")}  ${s.clientIdentifier || "(unknown client)"}${marker}`);
+          const loggedIn = s.loginTime?.toISOString() ?? "?";
+          const state = s.state !== "active" ? ", " + s.state : "";
+          console.log(
+            `    last access ${s.lastAccessTime.toISOString()}, logged in ${loggedIn}, IP ${s.loginIpAddress || "?"}${state}`
+          );
+        }
+      }
+    } catch (err) {
+      const message = getErrorMessage(err);
+      if (verbose) {
+        console.error("[verbose] auth sessions list failed:", err);
+        if (err instanceof Error && err.cause) console.error("[verbose] cause:", err.cause);
+        if (err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
       }
+      if (opts.json) {
+        console.log(JSON.stringify({ error: message }));
+      } else {
+        console.error("Error:", message);
+      }
+      process.exit(exitCodeOf(err));
+    }
+  });
 
-      const mailboxRaw = await loadEntity<ServerInstance>(
-        baseUrl,
-        MAIL_BOX,
-        String(mailboxId),
-        { accessToken: result.accessToken }
-      );
-      const mailboxSk = resolveSessionKey(keyChain, mailboxRaw, MAIL_BOX);
-      const mailboxDecrypted = decryptParsedInstance(MAIL_BOX, mailboxRaw, mailboxSk);
-      const mailSetsAggregate = unwrapSingleElementArray(
-        mailboxDecrypted[MAIL_BOX_MAIL_SETS] as Record<string, unknown> | unknown[] | undefined
-      );
-      const mailSetListId =
-        mailSetsAggregate != null && !Array.isArray(mailSetsAggregate)
-          ? (mailSetsAggregate as Record<string, unknown>)[MAIL_SET_REF_MAIL_SETS_LIST]
-          : null;
-      if (mailSetListId == null) {
-        throw new Error("MailBox missing mailSets list id.");
+sessionsCmd
+  .command("revoke <session-id>")
+  .description("Delete a session on the server (id from 'auth sessions list'); its device is logged out")
+  .option("--json", "Output result as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (sessionIdArg: string, opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      const baseUrl = getApiBaseUrl();
+      const { result } = await getOrCreateSession(baseUrl, verbose);
+      const userRaw = await loadUser(baseUrl, result.accessToken, result.userId);
+      const sessionId = parseSessionId(sessionIdArg, sessionListIdOf(userRaw));
+      await deleteSession(baseUrl, result.accessToken, sessionId);
+      const current = sessionId[0] === result.sessionId[0] && sessionId[1] === result.sessionId[1];
+      if (current) clearSession();
+
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: true, revoked: sessionId.join("/"), current }));
+      } else {
+        console.log("Session revoked:", sessionId.join("/"));
+        if (current) console.log("This was the CLI's own session; the stored session was cleared.");
+      }
+    } catch (err) {
+      const message = getErrorMessage(err);
+      if (verbose) {
+        console.error("[verbose] auth sessions revoke failed:", err);
+        if (err instanceof Error && err.cause) console.error("[verbose] cause:", err.cause);
+        if (err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+      }
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: false, error: message }));
+      } else {
+        console.error("Error:", message);
       }
+      process.exit(exitCodeOf(err));
+    }
+  });
 
-      const mailSetRawList = await loadRange<ServerInstance>(
-        baseUrl,
-        MAIL_SET,
-        String(mailSetListId),
-        {
-          accessToken: result.accessToken,
-          start: GENERATED_MIN_ID,
-          count: 1000,
-          reverse: false,
+const mailboxesCmd = program.command("mailboxes").description("Mailboxes: your own and shared mailboxes");
+
+mailboxesCmd
+  .command("list")
+  .description("List your personal and shared mailboxes (no password needed)")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      const baseUrl = getApiBaseUrl();
+      const { result } = await getOrCreateSession(baseUrl, verbose);
+      const userRaw = await loadUser(baseUrl, result.accessToken, result.userId);
+      const mailboxes = await listMailboxes(baseUrl, result.accessToken, parseUserKeyMaterial(userRaw));
+      if (opts.json) {
+        const list = mailboxes.map(({ groupId, mailAddress, personal }) => ({ groupId, mailAddress, personal }));
+        console.log(JSON.stringify({ mailboxes: list }, null, 2));
+        return;
+      }
+      if (mailboxes.length === 0) {
+        console.log("No mailboxes.");
+        return;
+      }
+      for (const m of mailboxes) {
+        console.log(`${m.groupId}  ${m.mailAddress ?? "(unknown address)"}  ${m.personal ? "personal" : "shared"}`);
+      }
+    } catch (err) {
+      if (verbose) console.error("[verbose] mailboxes list failed:", err);
+      const message = getErrorMessage(err);
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: false, error: message }));
+      } else {
+        console.error("Error:", message);
+      }
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+const foldersCmd = program.command("folders").description("Mail folder commands");
+
+foldersCmd
+  .command("list")
+  .description("List mail folders (requires password when using stored session)")
+  .option("--mailbox <address|group-id>", "Mailbox to use (default: your personal mailbox; see 'mailboxes list')")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (opts: { mailbox?: string; json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      const baseUrl = getApiBaseUrl();
+      const unlocked = await unlockKeyChainForSession(baseUrl, verbose);
+      const { result, keyChain } = unlocked;
+      const mailMembership = await selectMailMembership(baseUrl, unlocked, opts.mailbox);
+      const decryptedFolders = await loadDecryptedFolders(baseUrl, result.accessToken, keyChain, mailMembership, verbose);
+      if (verbose && decryptedFolders.length > 0) {
+        console.error("[verbose] First MailSet: session key resolved, name decrypted.");
+      }
+
+      // System folder type (MailSetKind) to display name when MailSet name is not stored (client uses fixed labels).
+      const SYSTEM_FOLDER_DISPLAY_NAMES: Record<string, string> = {
+        "1": "Inbox",
+        "2": "Sent",
+        "3": "Trash",
+        "4": "Archive",
+        "5": "Spam",
+        "6": "Draft",
+        "10": "Scheduled",
+      };
+      const folders = decryptedFolders.map(({ id, mailSet, keyVersion }) => {
+        const name = mailSet.name;
+        const folderType = mailSet.folderType;
+        const folderTypeStr = String(folderType ?? "");
+        const displayName =
+          String(name).trim() !== ""
+            ? String(name)
+            : SYSTEM_FOLDER_DISPLAY_NAMES[folderTypeStr] ??
+              (folderTypeStr === "8" ? "Label (no name)" : folderTypeStr === "0" ? "(no name)" : String(name) || "(no name)");
+        if (verbose && (folderTypeStr === "0" || folderTypeStr === "8") && String(name).trim() === "") {
+          console.error("[verbose] Custom/label folder with empty name:", "id:", id, "_ownerKeyVersion:", mailSet._ownerKeyVersion, keyVersion != null ? "decrypted with keyVersion: " + keyVersion : "tried all versions");
         }
-      );
+        return { name: displayName, id, folderType };
+      });
 
-      const keyVersionsNeeded = new Set<string>();
-      for (const raw of mailSetRawList) {
-        const v = raw["1399"];
-        if (v != null && String(v) !== mailMembership.groupKeyVersion) {
-          keyVersionsNeeded.add(String(v));
+      if (opts.json) {
+        console.log(JSON.stringify({ folders }));
+      } else {
+        console.log("Folders");
+        console.log("-------");
+        for (const f of folders) {
+          console.log(`  ${f.name}\t${f.id}`);
         }
       }
-      for (const keyVersion of keyVersionsNeeded) {
-        if (keyChain.getGroupKey(mailGroupId, keyVersion) != null) continue;
-        const formerKey = await loadFormerGroupKey(
+    } catch (err) {
+      const message = getErrorMessage(err);
+      if (message.includes("401") || message.includes("Unauthorized")) {
+        reportRejectedSession("folders list");
+      } else {
+        if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+        console.error("Error:", message);
+      }
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+const mailsCmd = program.command("mails").description("Mail commands");
+
+mailsCmd
+  .command("list <folder-id>")
+  .description("List mails in a folder, newest first (folder-id from 'folders list')")
+  .option("--limit <n>", "Number of mails to list", "10")
+  .option("--all", "List all mails in the folder (ignores --limit)")
+  .option("--start <cursor>", "Continue after this entry id (nextCursor from a previous --json run)")
+  .option("--before <cursor>", "List mails older than this entry id (same as --start, newest first)")
+  .option("--after <cursor>", "List mails newer than this entry id (same as --start with --oldest-first)")
+  .option("--oldest-first", "List oldest mails first")
+  .option("--reverse", "Same as --oldest-first")
+  .option("--since <date>", "Only mails received on or after this date (YYYY-MM-DD or ISO date-time)")
+  .option("--until <date>", "Only mails received on or before this date (YYYY-MM-DD or ISO date-time)")
+  .option("--mailbox <address|group-id>", "Mailbox to use (default: your personal mailbox; see 'mailboxes list')")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(
+    async (
+      folderId: string,
+      opts: {
+        limit: string;
+        all?: boolean;
+        start?: string;
+        before?: string;
+        after?: string;
+        oldestFirst?: boolean;
+        reverse?: boolean;
+        since?: string;
+        until?: string;
+        mailbox?: string;
+        json?: boolean;
+        verbose?: boolean;
+        V?: boolean;
+      }
+    ) => {
+      const verbose = getVerbose(opts);
+      if (verbose) setVerbose(true);
+      const folderIdTrimmed = typeof folderId === "string" ? folderId.trim() : "";
+      if (!folderIdTrimmed) {
+        console.error("Error: folder-id is required. Run 'folders list' to see folder ids.");
+        process.exit(1);
+      }
+      const limit = opts.all ? null : parseInt(opts.limit, 10);
+      if (limit != null && (Number.isNaN(limit) || limit < 1 || String(limit) !== opts.limit.trim())) {
+        console.error("Error: --limit must be a positive integer.");
+        process.exit(1);
+      }
+      const cursors = [opts.start, opts.before, opts.after].filter((c) => c != null);
+      if (cursors.length > 1) {
+        console.error("Error: use only one of --start, --before and --after.");
+        process.exit(1);
+      }
+      const oldestFirst = opts.oldestFirst === true || opts.reverse === true || opts.after != null;
+      if (opts.before != null && oldestFirst) {
+        console.error("Error: --before lists newest first; it cannot be combined with --oldest-first.");
+        process.exit(1);
+      }
+      const cursor = cursors.length > 0 ? String(cursors[0]).trim() : null;
+      const range = parseDateRangeOptions(opts);
+      // Start at the cursor or the date bound, whichever is further along in the listing order.
+      let start: string;
+      if (oldestFirst) {
+        start = [cursor, range.first].reduce<string>((a, b) => (b != null && b > a ? b : a), GENERATED_MIN_ID);
+      } else {
+        start = [cursor, range.last].reduce<string>((a, b) => (b != null && b < a ? b : a), GENERATED_MAX_ID);
+      }
+      const end = (oldestFirst ? range.last : range.first) ?? undefined;
+      try {
+        const baseUrl = getApiBaseUrl();
+        const unlocked = await unlockKeyChainForSession(baseUrl, verbose);
+        const { result, keyChain } = unlocked;
+        const mailMembership = await selectMailMembership(baseUrl, unlocked, opts.mailbox);
+        const entriesListId = await resolveFolderEntriesListId(
           baseUrl,
           result.accessToken,
           keyChain,
-          loadEntity,
-          loadRange,
-          mailGroupId,
-          mailMembership.groupKeyVersion,
-          keyVersion
+          mailMembership,
+          folderIdTrimmed,
+          verbose
         );
-        if (formerKey != null) {
-          keyChain.addGroupKey(mailGroupId, keyVersion, formerKey);
+        if (entriesListId == null) {
+          console.error("Error: Folder not found:", folderIdTrimmed, "(run 'folders list' to see folder ids)");
+          process.exit(1);
         }
-      }
 
-      const availableVersions = keyChain.getAvailableKeyVersions(mailGroupId);
-      const MAILS_LIST_CONCURRENCY = 5;
-      const folderEntries = await mapWithConcurrency(
-        mailSetRawList,
-        MAILS_LIST_CONCURRENCY,
-        async (raw) => {
-          const safe =
-            "__proto__" in raw
-              ? (Object.fromEntries(Object.entries(raw).filter(([k]) => k !== "__proto__")) as ServerInstance)
-              : raw;
-          const instanceVersion = String((safe["1399"] ?? "") as string);
-          const versionsToTry =
-            availableVersions.length <= 1 ? [instanceVersion] : [instanceVersion, ...availableVersions.filter((v) => v !== instanceVersion)];
-          let dec: ServerInstance | null = null;
-          for (const tryVer of versionsToTry) {
-            const sk = resolveSessionKey(keyChain, safe, MAIL_SET, undefined, undefined, tryVer);
-            if (sk == null) continue;
-            const failedValueIds = new Set<string>();
-            const onFail = (valueId: string) => failedValueIds.add(valueId);
-            dec = decryptParsedInstance(MAIL_SET, safe, sk, onFail);
-            if (!failedValueIds.has("435") && !failedValueIds.has("1479")) break;
+        const { elements: mailSetEntryList, nextCursor } = await loadRangePaged<Record<string, unknown>>(
+          baseUrl,
+          MAIL_SET_ENTRY,
+          entriesListId,
+          {
+            accessToken: result.accessToken,
+            start,
+            reverse: !oldestFirst,
+            limit,
+            end,
+            elementIdOf: entryElementIdOf,
+          }
+        );
+
+        const MAIL_LOAD_CONCURRENCY = 5;
+        const mails = await mapWithConcurrency(
+          mailSetEntryList,
+          MAIL_LOAD_CONCURRENCY,
+          async (entry) => {
+            const mailId = mailIdFromEntry(entry);
+            if (mailId == null) {
+              throw new Error("MailSetEntry " + entryElementIdOf(entry) + " has no mail.");
+            }
+            const { mail } = await loadDecryptedMail(baseUrl, result.accessToken, keyChain, mailId);
+            const sender = mailSenderOf(mail);
+            return {
+              id: mailId[0] + "/" + mailId[1],
+              subject: mail.subject,
+              senderName: sender?.name ?? null,
+              senderAddress: sender?.address ?? null,
+              receivedDate: mail.receivedDate?.toISOString() ?? null,
+              unread: mail.unread === true,
+              state: mail.state,
+              confidential: mail.confidential,
+              replyType: mail.replyType,
+              differentEnvelopeSender: mail.differentEnvelopeSender,
+              listUnsubscribe: mail.listUnsubscribe,
+              movedTime: mail.movedTime?.toISOString() ?? null,
+              phishingStatus: mail.phishingStatus,
+              authStatus: mail.authStatus,
+              method: mail.method,
+              recipientCount: mail.recipientCount,
+              encryptionAuthStatus: mail.encryptionAuthStatus,
+              keyVerificationState: mail.keyVerificationState,
+              processingState: mail.processingState,
+              processNeeded: mail.processNeeded === true,
+              sendAt: mail.sendAt?.toISOString() ?? null,
+            };
           }
-          if (dec == null) {
-            dec = decryptParsedInstance(MAIL_SET, safe, null, undefined, undefined);
+        );
+
+        if (opts.json) {
+          console.log(JSON.stringify({ mails, nextCursor }));
+        } else {
+          const heading = `Mails (${mails.length}, ${oldestFirst ? "oldest" : "newest"} first)`;
+          console.log(heading);
+          console.log("-".repeat(heading.length));
+          for (const m of mails) {
+            const from = m.senderName ? `${m.senderName} <${m.senderAddress ?? ""}>` : m.senderAddress;
+            const fromPart = from != null ? `  ${from}` : "";
+            console.log(`  ${m.unread ? "* " : "  "}${m.subject}\t${m.receivedDate ?? ""}${fromPart}`);
+            const meta: string[] = [
+              `id=${m.id}`,
+              `from=${m.senderAddress ?? ""}`,
+              `state=${m.state ?? ""}`,
+              `unread=${m.unread}`,
+              `confidential=${m.confidential}`,
+              `recipientCount=${m.recipientCount ?? ""}`,
+              `replyType=${m.replyType ?? ""}`,
+              `method=${m.method ?? ""}`,
+              `processingState=${m.processingState ?? ""}`,
+              `processNeeded=${m.processNeeded}`,
+            ];
+            if (m.sendAt != null) meta.push(`sendAt=${m.sendAt}`);
+            if (m.movedTime != null) meta.push(`movedTime=${m.movedTime}`);
+            if (m.phishingStatus != null) meta.push(`phishingStatus=${m.phishingStatus}`);
+            if (m.authStatus != null) meta.push(`authStatus=${m.authStatus}`);
+            if (m.differentEnvelopeSender) meta.push(`differentEnvelopeSender=${m.differentEnvelopeSender}`);
+            if (m.listUnsubscribe) meta.push("listUnsubscribe=true");
+            if (m.encryptionAuthStatus != null) meta.push(`encryptionAuthStatus=${m.encryptionAuthStatus}`);
+            if (m.keyVerificationState != null) meta.push(`keyVerificationState=${m.keyVerificationState}`);
+            console.log(`    ${meta.join("  ")}`);
+          }
+          if (nextCursor != null) {
+            console.log("");
+            console.log(`More mails: run again with --start ${nextCursor}${oldestFirst ? " --oldest-first" : ""}`);
           }
-          const idRaw = safe["431"];
-          const id = Array.isArray(idRaw)
-            ? String(idRaw[idRaw.length - 1] ?? "")
-            : String(idRaw ?? "");
-          const entriesRaw = (dec as ServerInstance)["1459"];
-          const entriesListId =
-            entriesRaw != null
-              ? Array.isArray(entriesRaw) && entriesRaw.length === 1
-                ? String(entriesRaw[0])
-                : Array.isArray(entriesRaw) && entriesRaw.length >= 2
-                  ? String(entriesRaw[0])
-                  : String(entriesRaw)
-              : null;
-          return { id, entriesListId };
         }
-      );
-
-      const folder = folderEntries.find((f) => f.id === folderIdTrimmed);
-      if (folder == null || folder.entriesListId == null) {
-        console.error("Error: Folder not found:", folderIdTrimmed, "(run 'folders list' to see folder ids)");
-        process.exit(1);
+      } catch (err) {
+        const message = getErrorMessage(err);
+        if (message.includes("401") || message.includes("Unauthorized")) {
+          reportRejectedSession("mails list");
+        } else {
+          if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+          console.error("Error:", message);
+        }
+        process.exit(exitCodeOf(err));
       }
+    }
+  );
 
-      const mailSetEntryList = await loadRange<Record<string, unknown>>(
+mailsCmd
+  .command("show <mail-id>")
+  .description("Show a mail with body and recipients (mail-id from 'mails list', listId/elementId)")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (mailIdArg: string, opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    const mailId = typeof mailIdArg === "string" ? parseMailId(mailIdArg) : null;
+    if (mailId == null) {
+      console.error("Error: mail-id must be listId/elementId. Run 'mails list <folder-id>' to see mail ids.");
+      process.exit(1);
+    }
+    try {
+      const baseUrl = getApiBaseUrl();
+      const { result, keyChain } = await unlockKeyChainForSession(baseUrl, verbose);
+
+      const { mail: decoded, sessionKey: mailSk } = await loadDecryptedMail(
         baseUrl,
-        MAIL_SET_ENTRY,
-        folder.entriesListId,
-        {
-          accessToken: result.accessToken,
-          start: GENERATED_MAX_ID,
-          count: 10,
-          reverse: true,
-        }
+        result.accessToken,
+        keyChain,
+        mailId
       );
+      if (mailSk == null && verbose) {
+        console.error("[verbose] Could not resolve mail session key; encrypted fields will be empty.");
+      }
+      const details = await loadMailDetails(createBlobStore(baseUrl, result.accessToken), decoded, mailSk);
 
-      const MAIL_LOAD_CONCURRENCY = 5;
-      const mails = await mapWithConcurrency(
-        mailSetEntryList,
-        MAIL_LOAD_CONCURRENCY,
-        async (entry) => {
-          const mailRefRaw = entry["1456"];
-          const mailRef = unwrapSingleElementArray(mailRefRaw);
-          let mailId: string | [string, string];
-          if (Array.isArray(mailRef) && mailRef.length >= 2) {
-            mailId = [String(mailRef[0]), String(mailRef[1])];
-          } else if (Array.isArray(mailRef) && mailRef.length === 1) {
-            mailId = [String(mailRef[0]), ""];
-          } else {
-            mailId = String(mailRef ?? "");
+      const mail = {
+        id: mailId[0] + "/" + mailId[1],
+        subject: decoded.subject,
+        sender: mailSenderOf(decoded),
+        toRecipients: details.toRecipients,
+        ccRecipients: details.ccRecipients,
+        bccRecipients: details.bccRecipients,
+        replyTos: details.replyTos,
+        sentDate: details.sentDate != null ? details.sentDate.toISOString() : null,
+        receivedDate: decoded.receivedDate?.toISOString() ?? null,
+        unread: decoded.unread === true,
+        body: details.body,
+      };
+
+      if (opts.json) {
+        console.log(JSON.stringify({ mail }));
+      } else {
+        console.log("Subject:", mail.subject);
+        console.log("From:", mail.sender != null ? formatMailAddress(mail.sender) : "");
+        console.log("To:", mail.toRecipients.map(formatMailAddress).join(", "));
+        if (mail.ccRecipients.length > 0) console.log("Cc:", mail.ccRecipients.map(formatMailAddress).join(", "));
+        if (mail.bccRecipients.length > 0) console.log("Bcc:", mail.bccRecipients.map(formatMailAddress).join(", "));
+        if (mail.replyTos.length > 0) console.log("Reply-To:", mail.replyTos.map(formatMailAddress).join(", "));
+        console.log("Sent:", mail.sentDate ?? "");
+        console.log("Received:", mail.receivedDate ?? "");
+        console.log("");
+        console.log(mail.body);
+      }
+    } catch (err) {
+      const message = getErrorMessage(err);
+      if (message.includes("401") || message.includes("Unauthorized")) {
+        reportRejectedSession("mails show");
+      } else {
+        if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+        console.error("Error:", message);
+      }
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+mailsCmd
+  .command("attachments <mail-id>")
+  .description("List a mail's attachments; --save downloads and decrypts them (mail-id from 'mails list')")
+  .option("--save <dir>", "Download and decrypt all attachments into this directory")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(async (mailIdArg: string, opts: { save?: string; json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    const mailId = typeof mailIdArg === "string" ? parseMailId(mailIdArg) : null;
+    if (mailId == null) {
+      console.error("Error: mail-id must be listId/elementId. Run 'mails list <folder-id>' to see mail ids.");
+      process.exit(1);
+    }
+    const saveDir = opts.save != null && opts.save.trim() !== "" ? opts.save.trim() : null;
+    try {
+      const baseUrl = getApiBaseUrl();
+      const { result, keyChain } = await unlockKeyChainForSession(baseUrl, verbose);
+      const { mail, bucketSessionKeys } = await loadDecryptedMail(baseUrl, result.accessToken, keyChain, mailId);
+      const attachments = await loadAttachments(baseUrl, result.accessToken, keyChain, mail, bucketSessionKeys);
+      if (verbose) {
+        const unresolved = attachments.filter((a) => a.sessionKey == null).length;
+        if (unresolved > 0) console.error(`[verbose] Could not resolve session key for ${unresolved} attachment(s).`);
+      }
+
+      const savedTo: (string | null)[] = attachments.map(() => null);
+      if (saveDir != null) {
+        fs.mkdirSync(saveDir, { recursive: true, mode: 0o700 });
+        const taken = new Set(fs.readdirSync(saveDir));
+        const blobStore = createBlobStore(baseUrl, result.accessToken);
+        for (let i = 0; i < attachments.length; i++) {
+          const filePath = path.join(saveDir, attachmentFileName(attachments[i].name, taken));
+          const fd = fs.openSync(filePath, "wx", 0o600);
+          try {
+            for await (const chunk of streamAttachment(blobStore, attachments[i])) {
+              fs.writeSync(fd, chunk);
+            }
+          } catch (err) {
+            fs.closeSync(fd);
+            fs.rmSync(filePath, { force: true });
+            throw err;
           }
-          const mailRaw = await loadEntity<ServerInstance>(baseUrl, MAIL, mailId, {
-            accessToken: result.accessToken,
-          });
-          const safeMail =
-            "__proto__" in mailRaw
-              ? (Object.fromEntries(Object.entries(mailRaw).filter(([k]) => k !== "__proto__")) as ServerInstance)
-              : mailRaw;
-          const mailSk = resolveSessionKey(keyChain, safeMail, MAIL);
-          const mailDec = decryptParsedInstance(MAIL, safeMail, mailSk ?? null);
-          const d = mailDec as ServerInstance;
-          const toDateStr = (v: unknown): string | null => {
-            if (v == null) return null;
-            if (v instanceof Date) return v.toISOString();
-            if (typeof v === "number") return new Date(v).toISOString();
-            return String(v);
-          };
-          const senderAgg = mailRaw["111"];
-          const sender = unwrapSingleElementArray(senderAgg);
-          const senderAddress =
-            sender != null && typeof sender === "object" && "95" in sender
-              ? String((sender as Record<string, unknown>)["95"] ?? "")
-              : null;
-          const idForJson =
-            typeof mailId === "string" ? mailId : mailId[0] + "/" + mailId[1];
-          return {
-            id: idForJson,
-            subject: String(d["105"] ?? ""),
-            senderAddress,
-            receivedDate: toDateStr(d["107"]) ?? null,
-            unread: d["109"] === true,
-            state: d["108"] != null ? Number(d["108"]) : null,
-            confidential: d["426"] === true,
-            replyType: d["466"] != null ? Number(d["466"]) : null,
-            differentEnvelopeSender: d["617"] != null ? String(d["617"]) : null,
-            listUnsubscribe: d["866"] === true,
-            movedTime: toDateStr(d["896"]) ?? null,
-            phishingStatus: d["1021"] != null ? Number(d["1021"]) : null,
-            authStatus: d["1022"] != null ? Number(d["1022"]) : null,
-            method: d["1120"] != null ? Number(d["1120"]) : null,
-            recipientCount: d["1307"] != null ? Number(d["1307"]) : null,
-            encryptionAuthStatus: d["1346"] != null ? Number(d["1346"]) : null,
-            keyVerificationState: d["1677"] != null ? Number(d["1677"]) : null,
-            processingState: d["1728"] != null ? Number(d["1728"]) : null,
-            processNeeded: d["1769"] === true,
-            sendAt: toDateStr(d["1784"]) ?? null,
-          };
+          fs.closeSync(fd);
+          savedTo[i] = filePath;
+          if (!opts.json) console.error("Saved", filePath);
         }
-      );
+      }
 
       if (opts.json) {
-        console.log(JSON.stringify({ mails }));
+        console.log(
+          JSON.stringify({
+            attachments: attachments.map((a, i) => ({
+              id: a.id[0] + "/" + a.id[1],
+              name: a.name,
+              mimeType: a.mimeType,
+              size: a.size,
+              cid: a.cid,
+              ...(saveDir != null ? { savedTo: savedTo[i] } : {}),
+            })),
+          })
+        );
+      } else if (attachments.length === 0) {
+        console.log("No attachments.");
       } else {
-        console.log("Mails (latest 10)");
-        console.log("-----------------");
-        for (const m of mails) {
-          const fromPart = m.senderAddress != null ? `  ${m.senderAddress}` : "";
-          console.log(`  ${m.unread ? "* " : "  "}${m.subject}\t${m.receivedDate ?? ""}${fromPart}`);
-          const meta: string[] = [
-            `id=${m.id}`,
-            `from=${m.senderAddress ?? ""}`,
-            `state=${m.state ?? ""}`,
-            `unread=${m.unread}`,
-            `confidential=${m.confidential}`,
-            `recipientCount=${m.recipientCount ?? ""}`,
-            `replyType=${m.replyType ?? ""}`,
-            `method=${m.method ?? ""}`,
-            `processingState=${m.processingState ?? ""}`,
-            `processNeeded=${m.processNeeded}`,
-          ];
-          if (m.sendAt != null) meta.push(`sendAt=${m.sendAt}`);
-          if (m.movedTime != null) meta.push(`movedTime=${m.movedTime}`);
-          if (m.phishingStatus != null) meta.push(`phishingStatus=${m.phishingStatus}`);
-          if (m.authStatus != null) meta.push(`authStatus=${m.authStatus}`);
-          if (m.differentEnvelopeSender) meta.push(`differentEnvelopeSender=${m.differentEnvelopeSender}`);
-          if (m.listUnsubscribe) meta.push("listUnsubscribe=true");
-          if (m.encryptionAuthStatus != null) meta.push(`encryptionAuthStatus=${m.encryptionAuthStatus}`);
-          if (m.keyVerificationState != null) meta.push(`keyVerificationState=${m.keyVerificationState}`);
-          console.log(`    ${meta.join("  ")}`);
+        for (const a of attachments) {
+          console.log(`${a.name || "(no name)"}  ${a.mimeType}  ${a.size} bytes`);
         }
       }
     } catch (err) {
       const message = getErrorMessage(err);
       if (message.includes("401") || message.includes("Unauthorized")) {
-        clearSession();
-        console.error(
-          "Session expired or invalid. Please run 'auth check' to log in again, then try 'mails list' again."
-        );
+        reportRejectedSession("mails attachments");
       } else {
         if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
         console.error("Error:", message);
       }
-      process.exit(1);
+      process.exit(exitCodeOf(err));
     }
   });
 
+/**
+ * mails mark-read / mark-unread: set Mail.unread of the given mails, or with --folder and --all of every mail in a
+ * folder. Mails already in that state are not updated.
+ */
+function addMarkMailsCommand(name: string, unread: boolean): void {
+  const state = unread ? "unread" : "read";
+  mailsCmd
+    .command(`${name} [mail-ids...]`)
+    .description(`Mark mails as ${state} (mail-ids from 'mails list', listId/elementId)`)
+    .option("--folder <folder-id>", `With --all: mark every mail in this folder as ${state} (folder-id from 'folders list')`)
+    .option("--all", "All mails in --folder")
+    .option("--mailbox <address|group-id>", "Mailbox of --folder (default: your personal mailbox; see 'mailboxes list')")
+    .option("--json", "Output result as JSON")
+    .option("--verbose, -v", "Verbose logging")
+    .action(
+      async (
+        mailIdArgs: string[],
+        opts: { folder?: string; all?: boolean; mailbox?: string; json?: boolean; verbose?: boolean; V?: boolean }
+      ) => {
+        const verbose = getVerbose(opts);
+        if (verbose) setVerbose(true);
+        const folderId = opts.folder?.trim() || null;
+        if (mailIdArgs.length > 0 && (folderId != null || opts.all)) {
+          console.error("Error: give either mail ids or --folder <folder-id> --all, not both.");
+          process.exit(1);
+        }
+        if (mailIdArgs.length === 0 && (folderId == null || !opts.all)) {
+          console.error(`Error: give mail ids, or --folder <folder-id> --all to mark a whole folder as ${state}.`);
+          process.exit(1);
+        }
+        const mailIds: [string, string][] = [];
+        for (const arg of mailIdArgs) {
+          const mailId = parseMailId(arg);
+          if (mailId == null) {
+            console.error(`Error: invalid mail id ${arg}; mail ids are listId/elementId (see 'mails list <folder-id>').`);
+            process.exit(1);
+          }
+          mailIds.push(mailId);
+        }
+        try {
+          const baseUrl = getApiBaseUrl();
+          let accessToken: string;
+          if (folderId != null) {
+            // Finding the folder's entry list decrypts the mailbox's MailSets; the mails themselves need no key.
+            const unlocked = await unlockKeyChainForSession(baseUrl, verbose);
+            accessToken = unlocked.result.accessToken;
+            const mailMembership = await selectMailMembership(baseUrl, unlocked, opts.mailbox);
+            const entriesListId = await resolveFolderEntriesListId(
+              baseUrl,
+              accessToken,
+              unlocked.keyChain,
+              mailMembership,
+              folderId,
+              verbose
+            );
+            if (entriesListId == null) {
+              console.error("Error: Folder not found:", folderId, "(run 'folders list' to see folder ids)");
+              process.exit(1);
+            }
+            const { elements } = await loadRangePaged<ServerInstance>(baseUrl, MAIL_SET_ENTRY, entriesListId, {
+              accessToken,
+              start: GENERATED_MAX_ID,
+              reverse: true,
+              limit: null,
+              elementIdOf: entryElementIdOf,
+            });
+            for (const entry of elements) {
+              const mailId = mailIdFromEntry(entry);
+              if (mailId == null) throw new Error("MailSetEntry " + entryElementIdOf(entry) + " has no mail.");
+              mailIds.push(mailId);
+            }
+          } else {
+            accessToken = (await getOrCreateSession(baseUrl, verbose)).result.accessToken;
+          }
+
+          const MAIL_UPDATE_CONCURRENCY = 5;
+          const changed = await mapWithConcurrency(mailIds, MAIL_UPDATE_CONCURRENCY, (mailId) =>
+            setMailUnread(baseUrl, accessToken, mailId, unread)
+          );
+          const ids = mailIds.map((id) => id[0] + "/" + id[1]);
+          const updated = ids.filter((_, i) => changed[i]);
+          const unchanged = ids.filter((_, i) => !changed[i]);
+
+          if (opts.json) {
+            console.log(JSON.stringify({ ok: true, unread, updated, unchanged }));
+          } else {
+            console.log(`Marked ${updated.length} mail(s) as ${state}.`);
+            if (unchanged.length > 0) console.log(`${unchanged.length} mail(s) were already ${state}.`);
+          }
+        } catch (err) {
+          const message = getErrorMessage(err);
+          if (message.includes("401") || message.includes("Unauthorized")) {
+            reportRejectedSession(`mails ${name}`);
+          } else {
+            if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+            console.error("Error:", message);
+          }
+          process.exit(exitCodeOf(err));
+        }
+      }
+    );
+}
+
+addMarkMailsCommand("mark-read", false);
+addMarkMailsCommand("mark-unread", true);
+
+mailsCmd
+  .command("export <folder-id>")
+  .description("Export all mails in a folder (folder-id from 'folders list')")
+  .option("--format <format>", "Export format: mbox, maildir or eml", "mbox")
+  .option("--out <path>", "Output file (mbox) or directory (maildir, eml)")
+  .option("--attachments", "Embed attachments as MIME parts")
+  .option("--since <date>", "Only mails received on or after this date (YYYY-MM-DD or ISO date-time)")
+  .option("--until <date>", "Only mails received on or before this date (YYYY-MM-DD or ISO date-time)")
+  .option("--restart", "Ignore the export state file and export everything again")
+  .option("--mailbox <address|group-id>", "Mailbox to use (default: your personal mailbox; see 'mailboxes list')")
+  .option("--json", "Output summary as JSON")
+  .option("--verbose, -v", "Verbose logging")
+  .action(
+    async (
+      folderId: string,
+      opts: {
+        format: string;
+        out?: string;
+        attachments?: boolean;
+        since?: string;
+        until?: string;
+        restart?: boolean;
+        mailbox?: string;
+        json?: boolean;
+        verbose?: boolean;
+        V?: boolean;
+      }
+    ) => {
+      const verbose = getVerbose(opts);
+      if (verbose) setVerbose(true);
+      const folderIdTrimmed = typeof folderId === "string" ? folderId.trim() : "";
+      if (!folderIdTrimmed) {
+        console.error("Error: folder-id is required. Run 'folders list' to see folder ids.");
+        process.exit(1);
+      }
+      const format = opts.format;
+      if (!isExportFormat(format)) {
+        console.error("Error: unsupported format:", format, "(supported: " + EXPORT_FORMATS.join(", ") + ")");
+        process.exit(1);
+      }
+      if (opts.out == null || opts.out.trim() === "") {
+        console.error("Error: --out <path> is required.");
+        process.exit(1);
+      }
+      const outPath = opts.out.trim();
+      const range = parseDateRangeOptions(opts);
+      try {
+        const baseUrl = getApiBaseUrl();
+        const unlocked = await unlockKeyChainForSession(baseUrl, verbose);
+        const { result, keyChain } = unlocked;
+        const mailMembership = await selectMailMembership(baseUrl, unlocked, opts.mailbox);
+        const entriesListId = await resolveFolderEntriesListId(
+          baseUrl,
+          result.accessToken,
+          keyChain,
+          mailMembership,
+          folderIdTrimmed,
+          verbose
+        );
+        if (entriesListId == null) {
+          console.error("Error: Folder not found:", folderIdTrimmed, "(run 'folders list' to see folder ids)");
+          process.exit(1);
+        }
+
+        const EXPORT_PAGE_SIZE = 100;
+        const EXPORT_CONCURRENCY = 5;
+        const blobStore = createBlobStore(baseUrl, result.accessToken);
+        const statePath = getExportStatePath(outPath);
+        let state = opts.restart ? null : readExportState(statePath);
+        if (state != null && state.format !== format) {
+          console.error(
+            `Error: ${outPath} was exported as ${state.format} (state file ${statePath}). ` +
+              "Use the same --format, or --restart to start over."
+          );
+          process.exit(1);
+        }
+        const resuming = state != null;
+        if (state == null) state = createExportState(format);
+        const folderState = getFolderState(state, entriesListId, folderIdTrimmed);
+        const exportState = state;
+        const writer = createExportWriter(format, outPath, { append: resuming, truncateTo: state.outputSize });
+        let exported = 0;
+        let failed = 0;
+        let skipped = 0;
+
+        /** Load and write the entries (element id -> mail id); record each as exported or failed. */
+        const exportEntries = async (batch: Array<[string, [string, string]]>): Promise<void> => {
+          const mails = await mapWithConcurrency(batch, EXPORT_CONCURRENCY, async ([, mailId]) => {
+            try {
+              return await loadExportMail(
+                baseUrl,
+                result.accessToken,
+                keyChain,
+                blobStore,
+                mailId,
+                opts.attachments === true
+              );
+            } catch (err) {
+              const message = getErrorMessage(err);
+              if (message.includes("401") || message.includes("Unauthorized")) throw err;
+              console.error("Warning: skipping mail", mailId.join("/") + ":", message);
+              return null;
+            }
+          });
+          mails.forEach((mail, i) => {
+            const [entryElementId, mailId] = batch[i];
+            if (mail == null) {
+              folderState.failed[entryElementId] = mailId.join("/");
+              failed++;
+              return;
+            }
+            writer.write(mail);
+            folderState.entries[entryElementId] = mailId.join("/");
+            delete folderState.failed[entryElementId];
+            exported++;
+          });
+        };
+        const saveState = (): void => {
+          if (format === "mbox") exportState.outputSize = fs.statSync(outPath).size;
+          writeExportState(statePath, exportState);
+        };
+
+        try {
+          // Retry mails that failed in an earlier run before fetching newer entries.
+          const retries = Object.entries(folderState.failed).map(([entryElementId, mailId]): [string, [string, string]] => {
+            const [listId, elementId] = mailId.split("/");
+            return [entryElementId, [listId, elementId]];
+          });
+          if (retries.length > 0) {
+            folderState.failed = {};
+            await exportEntries(retries);
+            saveState();
+          }
+
+          let start = folderState.lastEntryId ?? GENERATED_MIN_ID;
+          // Starting at --since skips entries before it; lastEntryId then stays put so a later run still gets them.
+          const contiguous = range.first == null || range.first <= start;
+          if (!contiguous && range.first != null) start = range.first;
+          while (true) {
+            const page = await loadRange<Record<string, unknown>>(baseUrl, MAIL_SET_ENTRY, entriesListId, {
+              accessToken: result.accessToken,
+              start,
+              count: EXPORT_PAGE_SIZE,
+              reverse: false,
+            });
+            const last = range.last;
+            const inRange = last == null ? page : page.filter((entry) => entryElementIdOf(entry) <= last);
+            if (inRange.length === 0) break;
+
+            const batch: Array<[string, [string, string]]> = [];
+            for (const entry of inRange) {
+              const entryElementId = entryElementIdOf(entry);
+              const mailId = mailIdFromEntry(entry);
+              if (folderState.entries[entryElementId] != null) {
+                skipped++;
+              } else if (mailId == null) {
+                failed++;
+              } else {
+                batch.push([entryElementId, mailId]);
+              }
+            }
+            await exportEntries(batch);
+            start = entryElementIdOf(inRange[inRange.length - 1]);
+            if (contiguous) folderState.lastEntryId = start;
+            saveState();
+            if (!opts.json) console.error(`Exported ${exported} mail(s)...`);
+
+            if (page.length < EXPORT_PAGE_SIZE || inRange.length < page.length) break;
+          }
+        } finally {
+          writer.close();
+        }
+
+        if (opts.json) {
+          console.log(
+            JSON.stringify({ ok: true, format, out: outPath, state: statePath, exported, skipped, failed, resumed: resuming })
+          );
+        } else {
+          console.log(
+            `Exported ${exported} mail(s) to ${outPath}` +
+              (skipped > 0 ? `, ${skipped} already exported` : "") +
+              (failed > 0 ? ` (${failed} failed, retried on the next run)` : "") +
+              "."
+          );
+        }
+      } catch (err) {
+        const message = getErrorMessage(err);
+        if (message.includes("401") || message.includes("Unauthorized")) {
+          reportRejectedSession("mails export");
+        } else {
+          if (verbose && err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+          console.error("Error:", message);
+        }
+        process.exit(exitCodeOf(err));
+      }
+    }
+  );
+
 program
   .command("profile")
   .description("Log in and show your user profile (account type, enabled, etc.)")
@@ -831,7 +1938,174 @@ program
       } else {
         console.error("Error:", message);
       }
-      process.exit(1);
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+/** Longest agent lifetime (a week); also keeps the expiry timer within setTimeout's range. */
+const MAX_AGENT_TIMEOUT_MINUTES = 7 * 24 * 60;
+
+const agentCmd = program
+  .command("agent")
+  .description("Background agent that holds the unlocked key chain for later commands (like ssh-agent)");
+
+agentCmd
+  .command("start")
+  .description("Unlock the key chain once and serve it on a Unix socket until the timeout")
+  .option("--timeout <minutes>", "Stop the agent after this many minutes", "60")
+  .option("--foreground", "Run in this process until stopped (Ctrl-C) instead of in the background")
+  .option("--json", "Output as JSON")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (opts: { timeout: string; foreground?: boolean; json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) setVerbose(true);
+    try {
+      const minutes = Number(opts.timeout);
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_AGENT_TIMEOUT_MINUTES) {
+        throw new Error(`--timeout must be a whole number of minutes from 1 to ${MAX_AGENT_TIMEOUT_MINUTES}.`);
+      }
+      const running = await agentStatus();
+      if (running != null) {
+        throw new Error(`An agent is already running for this profile (pid ${running.pid}); use 'agent stop' first.`);
+      }
+      const baseUrl = getApiBaseUrl();
+      const { result, keyChain, userRaw } = await unlockKeyChainForSession(baseUrl, verbose);
+      const keyMaterial = parseUserKeyMaterial(userRaw);
+      const groupIds = [keyMaterial.userGroup.group, ...keyMaterial.memberships.map((m) => m.group)];
+      // Memberships encrypted with a former user group key are only unlocked on demand; the agent gets them all.
+      for (const membership of keyMaterial.memberships) {
+        await keyChain.resolveGroupKey(membership.group, membership.groupKeyVersion);
+      }
+      const state: AgentState = {
+        profile: getProfile(),
+        userId: result.userId,
+        userRaw,
+        groupKeys: exportGroupKeys(keyChain, groupIds),
+        expiresAt: Date.now() + minutes * 60_000,
+      };
+      const expiresAt = new Date(state.expiresAt).toISOString();
+      if (opts.foreground) {
+        await serveAgentInForeground(state, (socketPath) => {
+          if (opts.json) console.log(JSON.stringify({ ok: true, pid: process.pid, socket: socketPath, expiresAt }));
+          else console.log(`Agent listening on ${socketPath} until ${expiresAt} (Ctrl-C to stop).`);
+        });
+        return;
+      }
+      const cliArgs = [...process.execArgv, process.argv[1], "--profile", state.profile, "agent", "serve"];
+      const pid = await spawnAgent(state, cliArgs);
+      const socketPath = getAgentSocketPath(state.profile);
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: true, pid, socket: socketPath, expiresAt }));
+      } else {
+        console.log(`Agent started (pid ${pid}), listening on ${socketPath} until ${expiresAt}.`);
+      }
+    } catch (err) {
+      if (verbose) console.error("[verbose] agent start failed:", err);
+      const msg = getErrorMessage(err);
+      if (opts.json) console.log(JSON.stringify({ ok: false, error: msg }));
+      else console.error("Error:", msg);
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+agentCmd
+  .command("serve", { hidden: true })
+  .description("Run the agent spawned by 'agent start' (state on stdin)")
+  .action(async () => {
+    try {
+      await serveSpawnedAgent();
+    } catch (err) {
+      // stderr is not connected; 'agent start' reports what the agent printed on stdout.
+      process.stdout.write(`Error: ${getErrorMessage(err)}\n`);
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+agentCmd
+  .command("status")
+  .description("Show whether an agent is running for this profile")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { json?: boolean }) => {
+    try {
+      const status = await agentStatus();
+      if (opts.json) {
+        console.log(JSON.stringify(status != null ? { running: true, ...status } : { running: false }));
+      } else if (status != null) {
+        console.log(`Agent running (pid ${status.pid}) for user ${status.userId} until ${status.expiresAt}.`);
+        console.log("Socket:", getAgentSocketPath());
+      } else {
+        console.log("No agent running for this profile.");
+      }
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+agentCmd
+  .command("stop")
+  .description("Stop this profile's agent; its keys are discarded")
+  .action(async () => {
+    try {
+      console.log((await stopAgent()) ? "Agent stopped." : "No agent running for this profile.");
+    } catch (err) {
+      console.error("Error:", getErrorMessage(err));
+      process.exit(exitCodeOf(err));
+    }
+  });
+
+program
+  .command("doctor")
+  .description("Check that the server accepts the client version and the version of every type model the CLI uses")
+  .option("--json", "Output result as JSON")
+  .option("--verbose, -v", "Verbose logging for debugging")
+  .action(async (opts: { json?: boolean; verbose?: boolean; V?: boolean }) => {
+    const verbose = getVerbose(opts);
+    if (verbose) {
+      setVerbose(true);
+      console.error("[verbose] Verbose logging enabled.");
+    }
+    try {
+      const baseUrl = getApiBaseUrl();
+      if (verbose) console.error("[verbose] API base URL:", baseUrl);
+      // The stored session is used when there is one; the version checks do not need a login.
+      let accessToken: string | null = null;
+      try {
+        accessToken = readSession()?.accessToken ?? null;
+      } catch {
+        accessToken = null;
+      }
+      const report = await checkModelVersions(baseUrl, accessToken, Object.values(typeModels));
+      const ok = report.clientAccepted && report.models.every((m) => m.accepted !== false);
+
+      if (opts.json) {
+        console.log(JSON.stringify({ ok, ...report }));
+      } else {
+        console.log(`Client version ${report.clientVersion}: ${report.clientAccepted ? "ok" : "rejected (outdated client)"}`);
+        for (const m of report.models) {
+          const status = m.accepted == null ? (m.note ?? "not checked") : m.accepted ? "ok" : "rejected";
+          console.log(`  ${m.model} v${m.version}: ${status}`);
+          if (m.error != null && verbose) console.error("[verbose]", m.error);
+        }
+        for (const warning of report.warnings) console.log("Warning:", warning);
+        if (!ok) {
+          console.log("The server rejected the versions above. Update the CLI or regenerate the type models (see README).");
+        }
+      }
+      if (!ok) process.exit(1);
+    } catch (err) {
+      const message = getErrorMessage(err);
+      if (verbose) {
+        console.error("[verbose] doctor failed:", err);
+        if (err instanceof Error && err.cause) console.error("[verbose] cause:", err.cause);
+        if (err instanceof Error && err.stack) console.error("[verbose] stack:", err.stack);
+      }
+      if (opts.json) {
+        console.log(JSON.stringify({ ok: false, error: message }));
+      } else {
+        console.error("Error:", message);
+      }
+      process.exit(exitCodeOf(err));
     }
   });
 
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  checkProfileAccount,
+  getAccessTokenLogin,
+  getCredentials,
+  getRecoveryCredentials,
+  getTotpCodeSource,
+  InteractionRequiredError,
+} from "./config.js";
+import { setProfile } from "./session.js";
+
+const savedEnv = { ...process.env };
+let configHome: string;
+
+function writeConfig(config: unknown): void {
+  const configPath = path.join(configHome, "tutanota-cli", "config.json");
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(config));
+}
+
+describe("config", () => {
+  beforeEach(() => {
+    configHome = fs.mkdtempSync(path.join(os.tmpdir(), "tutanota-cli-config-"));
+    process.env.XDG_CONFIG_HOME = configHome;
+    process.env.TUTANOTA_EMAIL = "me@tuta.com";
+    for (const name of [
+      "TUTANOTA_PASSWORD",
+      "TUTANOTA_PASSWORD_COMMAND",
+      "TUTANOTA_TOTP_CODE",
+      "TUTANOTA_TOTP_COMMAND",
+      "TUTANOTA_ACCESS_TOKEN",
+      "TUTANOTA_USER_ID",
+    ]) {
+      delete process.env[name];
+    }
+    delete process.env.TUTANOTA_PROFILE;
+    setProfile(null);
+  });
+
+  afterEach(() => {
+    setProfile(null);
+    process.env = { ...savedEnv };
+    fs.rmSync(configHome, { recursive: true, force: true });
+  });
+
+  test("TUTANOTA_PASSWORD_COMMAND supplies the password from the first line of its output", async () => {
+    process.env.TUTANOTA_PASSWORD_COMMAND = "printf ' pass word \\nurl: tuta.com\\n'";
+    assert.deepEqual(await getCredentials(), { email: "me@tuta.com", password: " pass word " });
+    process.env.TUTANOTA_PASSWORD = "from-env";
+    assert.equal((await getCredentials()).password, "from-env");
+  });
+
+  test("a profile's passwordCommand is used for its account; the env command only for TUTANOTA_EMAIL", async () => {
+    process.env.TUTANOTA_PASSWORD_COMMAND = "echo env-secret";
+    writeConfig({ profiles: { work: { passwordCommand: "echo work-secret" } } });
+    setProfile("work");
+    assert.equal((await getCredentials("team@company.com")).password, "work-secret");
+    assert.equal((await getCredentials("me@tuta.com")).password, "env-secret");
+  });
+
+  test("other profiles use their email from config.json, not TUTANOTA_EMAIL", async () => {
+    process.env.TUTANOTA_EMAIL = "me@tuta.com";
+    process.env.TUTANOTA_PASSWORD = "personal-secret";
+    process.env.TUTANOTA_RECOVERY_CODE = "recovery-code";
+    assert.deepEqual(await getCredentials(), { email: "me@tuta.com", password: "personal-secret" });
+
+    writeConfig({ profiles: { work: { email: "team@company.com" } } });
+    setProfile("work");
+    assert.deepEqual(await getRecoveryCredentials(), { email: "team@company.com", recoveryCode: "recovery-code" });
+
+    // Without an email in config.json, the profile prompts for it (here: prompts are disabled).
+    setProfile("other");
+    process.env.TUTANOTA_ACCESS_TOKEN = "token";
+    await assert.rejects(getCredentials(), /^InteractionRequiredError: Email required/);
+  });
+
+  test("a profile with an email in config.json refuses other accounts", async () => {
+    writeConfig({ profiles: { work: { email: "Team@Company.com" } } });
+    setProfile("work");
+    checkProfileAccount("team@company.com");
+    assert.throws(() => checkProfileAccount("me@tuta.com"), /Profile work is for Team@Company.com \(config.json\), not me@tuta.com/);
+    await assert.rejects(getCredentials("me@tuta.com"), /Profile work is for/);
+  });
+
+  test("a failing password command reports neither its output nor the secret", async () => {
+    process.env.TUTANOTA_PASSWORD_COMMAND = "echo hunter2; exit 3";
+    await assert.rejects(getCredentials(), (err: Error) => {
+      assert.equal(err.message, "Password command failed (exit code 3).");
+      assert.equal(err.cause, undefined);
+      assert.ok(!JSON.stringify(err).includes("hunter2"));
+      return true;
+    });
+    process.env.TUTANOTA_PASSWORD_COMMAND = "true";
+    await assert.rejects(getCredentials(), /Password command printed nothing/);
+  });
+
+  test("TOTP codes come from --totp-command, TUTANOTA_TOTP_COMMAND or the profile's totpCommand", async () => {
+    writeConfig({ profiles: { default: { totpCommand: "echo 333333" } } });
+    assert.equal(await getTotpCodeSource().getCode(), "333333");
+    process.env.TUTANOTA_TOTP_COMMAND = "echo 222222";
+    assert.equal(await getTotpCodeSource().getCode(), "222222");
+    const fromOption = getTotpCodeSource("echo ' 111111 '");
+    assert.equal(fromOption.canRetry, false);
+    assert.equal(await fromOption.getCode(), "111111");
+  });
+
+  test("with TUTANOTA_ACCESS_TOKEN, prompts fail instead of waiting for input", async () => {
+    assert.equal(getAccessTokenLogin(), null);
+    process.env.TUTANOTA_ACCESS_TOKEN = " token ";
+    assert.deepEqual(getAccessTokenLogin(), { accessToken: "token", userId: null });
+    process.env.TUTANOTA_USER_ID = "u1";
+    assert.deepEqual(getAccessTokenLogin(), { accessToken: "token", userId: "u1" });
+
+    await assert.rejects(getCredentials(), (err: Error) => {
+      assert.ok(err instanceof InteractionRequiredError);
+      assert.match(err.message, /^Password required, but prompts are disabled/);
+      return true;
+    });
+    await assert.rejects(getTotpCodeSource().getCode(), InteractionRequiredError);
+  });
+});
@@ -1,5 +1,9 @@
+import { execSync } from "child_process";
 import { config as loadDotenv } from "dotenv";
 import read from "read";
+import type { TotpCodeSource } from "./auth/secondFactor.js";
+import * as logger from "./logger.js";
+import { DEFAULT_PROFILE, getProfile, getProfileConfig, readSession } from "./session.js";
 
 const DEFAULT_API_URL = "https://app.tuta.com";
 
@@ -8,11 +12,49 @@ export function loadEnv(): void {
   loadDotenv();
 }
 
+/** TUTANOTA_API_URL, else the base URL stored for the profile in use, else the default. */
 export function getApiBaseUrl(): string {
-  return process.env.TUTANOTA_API_URL?.trim() || DEFAULT_API_URL;
+  const fromEnv = process.env.TUTANOTA_API_URL?.trim();
+  if (fromEnv) return fromEnv;
+  let stored: string | undefined;
+  try {
+    stored = readSession()?.baseUrl;
+  } catch {
+    stored = undefined;
+  }
+  return stored || DEFAULT_API_URL;
+}
+
+/**
+ * A prompt (password, TOTP code, ...) or a password-derived key was needed in a non-interactive run
+ * (TUTANOTA_ACCESS_TOKEN). The CLI exits with a dedicated exit code instead of waiting for input.
+ */
+export class InteractionRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InteractionRequiredError";
+  }
+}
+
+/** Pre-issued session for CI: TUTANOTA_ACCESS_TOKEN and optional TUTANOTA_USER_ID; null when not set. */
+export function getAccessTokenLogin(): { accessToken: string; userId: string | null } | null {
+  const accessToken = process.env.TUTANOTA_ACCESS_TOKEN?.trim();
+  if (!accessToken) return null;
+  return { accessToken, userId: process.env.TUTANOTA_USER_ID?.trim() || null };
+}
+
+/** Path of the liboqs WebAssembly module (Kyber) for TutaCrypt mail, from TUTANOTA_LIBOQS_WASM; null when not set. */
+export function getLiboqsWasmPath(): string | null {
+  return process.env.TUTANOTA_LIBOQS_WASM?.trim() || null;
 }
 
-function prompt(options: { prompt: string; silent?: boolean }): Promise<string> {
+function prompt(options:{ prompt: string; silent?: boolean }): Promise<string> {
+  if (getAccessTokenLogin() != null) {
+    const what = options.prompt.replace(/:$/, "");
+    return Promise.reject(
+      new InteractionRequiredError(`${what} required, but prompts are disabled when TUTANOTA_ACCESS_TOKEN is set.`)
+    );
+  }
   return new Promise((resolve, reject) => {
     read(
       {
@@ -27,15 +69,82 @@ function prompt(options: { prompt: string; silent?: boolean }): Promise<string>
   });
 }
 
-export async function getCredentials(): Promise<{ email: string; password: string }> {
-  let email = process.env.TUTANOTA_EMAIL?.trim();
-  let password = process.env.TUTANOTA_PASSWORD;
+/**
+ * Throw unless email is the account of the profile in use, when config.json names one (profiles.<name>.email).
+ * Keeps a profile from being logged in to, or using a stored session of, another account.
+ */
+export function checkProfileAccount(email: string): void {
+  const expected = getProfileConfig().email;
+  if (expected != null && expected.toLowerCase() !== email.trim().toLowerCase()) {
+    throw new Error(
+      `Profile ${getProfile()} is for ${expected} (config.json), not ${email}. ` +
+        `Run 'auth logout --profile ${getProfile()}' and log in again.`
+    );
+  }
+}
 
+/**
+ * Login email: profileEmail (the account stored with the profile's session), else the profile's email in
+ * config.json, else TUTANOTA_EMAIL for the default profile only, else a prompt. Other profiles never fall back to
+ * TUTANOTA_EMAIL, so they are not logged in to the account of the .env by accident.
+ */
+async function getEmail(profileEmail?: string): Promise<string> {
+  let email = profileEmail || getProfileConfig().email;
+  if (!email && getProfile() === DEFAULT_PROFILE) email = process.env.TUTANOTA_EMAIL?.trim();
   if (!email) {
     email = await prompt({ prompt: "Email:" });
     if (!email) throw new Error("Email is required.");
   }
+  checkProfileAccount(email);
+  return email;
+}
 
+/** Time limit for password and TOTP commands. */
+const SECRET_COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Run a command that prints a secret (password manager, oathtool) and return the first line of its stdout.
+ * Neither the output nor the error of the command is logged or put into error messages, also not with --verbose;
+ * stderr goes to the terminal.
+ */
+function runSecretCommand(command: string, label: string): string {
+  logger.log(`Running ${label} command.`);
+  let output: string;
+  try {
+    output = execSync(command, {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "inherit"],
+      timeout: SECRET_COMMAND_TIMEOUT_MS,
+    });
+  } catch (err) {
+    // err carries the command's stdout: build a new error without it.
+    const { status, signal } = err as { status?: number | null; signal?: string | null };
+    const reason = signal ? `killed by ${signal}` : status != null ? `exit code ${status}` : "could not run it";
+    throw new Error(`${label} command failed (${reason}).`);
+  }
+  const secret = output.split(/\r?\n/)[0];
+  if (!secret) throw new Error(`${label} command printed nothing.`);
+  return secret;
+}
+
+/**
+ * Email and password for a login. profileEmail is the account stored for the profile in use.
+ * The password comes from TUTANOTA_PASSWORD, else the output of TUTANOTA_PASSWORD_COMMAND, else the profile's
+ * passwordCommand in config.json, else a hidden prompt. The environment variables are only used for the
+ * TUTANOTA_EMAIL account (without TUTANOTA_EMAIL, for the default profile), so another profile's password comes
+ * from its own command or is prompted for.
+ */
+export async function getCredentials(profileEmail?: string): Promise<{ email: string; password: string }> {
+  const email = await getEmail(profileEmail);
+  const envEmail = process.env.TUTANOTA_EMAIL?.trim().toLowerCase();
+  const isEnvAccount = envEmail ? envEmail === email.toLowerCase() : getProfile() === DEFAULT_PROFILE;
+  let password = isEnvAccount ? process.env.TUTANOTA_PASSWORD : undefined;
+
+  if (!password) {
+    const command =
+      (isEnvAccount ? process.env.TUTANOTA_PASSWORD_COMMAND?.trim() : undefined) || getProfileConfig().passwordCommand;
+    if (command) password = runSecretCommand(command, "Password");
+  }
   if (!password) {
     password = await prompt({ prompt: "Password:", silent: true });
     if (!password) throw new Error("Password is required.");
@@ -43,3 +152,53 @@ export async function getCredentials(): Promise<{ email: string; password: strin
 
   return { email, password };
 }
+
+/** Email and account recovery code (TUTANOTA_RECOVERY_CODE, or a hidden prompt) for a recovery code login. */
+export async function getRecoveryCredentials(profileEmail?: string): Promise<{ email: string; recoveryCode: string }> {
+  const email = await getEmail(profileEmail);
+  let recoveryCode = process.env.TUTANOTA_RECOVERY_CODE?.trim();
+  if (!recoveryCode) {
+    recoveryCode = await prompt({ prompt: "Recovery code:", silent: true });
+    if (!recoveryCode) throw new Error("Recovery code is required.");
+  }
+  return { email, recoveryCode };
+}
+
+/**
+ * Passphrase of the local keystore: TUTANOTA_KEYSTORE_PASSPHRASE, else a hidden prompt.
+ * With confirm (choosing a new passphrase), the prompt asks twice.
+ */
+export async function getKeystorePassphrase(confirm = false): Promise<string> {
+  const fromEnv = process.env.TUTANOTA_KEYSTORE_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+  const passphrase = await prompt({ prompt: confirm ? "New keystore passphrase:" : "Keystore passphrase:", silent: true });
+  if (!passphrase) throw new Error("Keystore passphrase is required.");
+  if (confirm && (await prompt({ prompt: "Repeat keystore passphrase:", silent: true })) !== passphrase) {
+    throw new Error("Keystore passphrases do not match.");
+  }
+  return passphrase;
+}
+
+/**
+ * Where TOTP codes come from at a second-factor login: TUTANOTA_TOTP_CODE, else the stdout of a command
+ * (e.g. `oathtool --totp -b "$SECRET"`): --totp-command, TUTANOTA_TOTP_COMMAND or the profile's totpCommand in
+ * config.json, else a prompt.
+ */
+export function getTotpCodeSource(command?: string): TotpCodeSource {
+  const envCode = process.env.TUTANOTA_TOTP_CODE?.trim();
+  if (envCode) {
+    return { getCode: async () => envCode, canRetry: false };
+  }
+  const totpCommand = command || process.env.TUTANOTA_TOTP_COMMAND?.trim() || getProfileConfig().totpCommand;
+  if (totpCommand) {
+    return { getCode: async () => runSecretCommand(totpCommand, "TOTP").trim(), canRetry: false };
+  }
+  return {
+    getCode: async () => {
+      const code = await prompt({ prompt: "TOTP code:" });
+      if (!code) throw new Error("TOTP code is required.");
+      return code;
+    },
+    canRetry: true,
+  };
+}
@@ -0,0 +1,320 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, randomBytes } from "crypto";
+import {
+  type RsaPrivateKey,
+  KeyPairType,
+  aesEncrypt,
+  encryptKey,
+  extractRawPublicRsaKeyFromPrivateRsaKey,
+  generateX25519KeyPair,
+  hexToRsaPublicKey,
+  hkdf,
+  keyToUint8Array,
+  kyberPublicKeyToBytes,
+  random,
+  rsaEncrypt,
+  rsaPrivateKeyToHex,
+  rsaPublicKeyToHex,
+  uint8ArrayToKey,
+  x25519Encapsulate,
+} from "@tutao/tutanota-crypto";
+import type { LibOQSExports } from "@tutao/tutanota-crypto";
+import {
+  byteArraysToBytes,
+  concat,
+  hexToUint8Array,
+  stringToUtf8Uint8Array,
+  uint8ArrayToBase64,
+  uint8ArrayToHex,
+} from "@tutao/tutanota-utils";
+import { loadEntity, loadRange } from "../rest.js";
+import { formerKeyLoader } from "./formerGroupKey.js";
+import { createKeyChainFromGroupKeys } from "./keyChain.js";
+import type { BucketKey } from "./entities.js";
+import {
+  CryptoProtocolVersion,
+  bucketSessionKeys,
+  decryptBucketKey,
+  decryptPubEncBucketKey,
+  loadLiboqs,
+  unlockGroupKeyPair,
+} from "./bucketKey.js";
+
+const API = "https://api.example";
+const originalFetch = globalThis.fetch;
+const savedEnv = { ...process.env };
+let groupRequests: number;
+
+function newKey() {
+  return uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+}
+
+/** Big-endian JWK number as base64 of a non-negative signed byte array (as the RSA code expects). */
+function jwkNumber(value: string): string {
+  const bytes = Buffer.from(value, "base64url");
+  return uint8ArrayToBase64(bytes[0] >= 0x80 ? new Uint8Array([0, ...bytes]) : new Uint8Array(bytes));
+}
+
+/** A 2048-bit RSA key in the client's format, with public key bytes as stored in KeyPair.pubRsaKey. */
+function rsaKey(): { privateKey: RsaPrivateKey; pubRsaKey: Uint8Array } {
+  const jwk = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ format: "jwk" });
+  const privateKey: RsaPrivateKey = {
+    version: 0,
+    keyLength: 2048,
+    modulus: jwkNumber(jwk.n!),
+    privateExponent: jwkNumber(jwk.d!),
+    primeP: jwkNumber(jwk.p!),
+    primeQ: jwkNumber(jwk.q!),
+    primeExponentP: jwkNumber(jwk.dp!),
+    primeExponentQ: jwkNumber(jwk.dq!),
+    crtCoefficient: jwkNumber(jwk.qi!),
+  };
+  const pubRsaKey = hexToUint8Array(rsaPublicKeyToHex(extractRawPublicRsaKeyFromPrivateRsaKey(privateKey)));
+  return { privateKey, pubRsaKey };
+}
+
+function bucket(fields: Partial<BucketKey>): BucketKey {
+  return {
+    _id: "bucket",
+    pubEncBucketKey: null,
+    groupEncBucketKey: null,
+    protocolVersion: CryptoProtocolVersion.RSA,
+    recipientKeyVersion: 0,
+    senderKeyVersion: null,
+    keyGroup: "user-group",
+    bucketEncSessionKeys: [],
+    ...fields,
+  };
+}
+
+/**
+ * liboqs stand-in whose ML-KEM-1024 decapsulation returns sharedSecret, after checking it got the expected private key
+ * and ciphertext. Buffers are passed through a plain WebAssembly memory with a bump allocator.
+ */
+function fakeLiboqs(privateKey: Uint8Array, cipherText: Uint8Array, sharedSecret: Uint8Array): LibOQSExports {
+  const memory = new WebAssembly.Memory({ initial: 1 });
+  let next = 8;
+  const bytes = (ptr: number, length: number) => new Uint8Array(memory.buffer, ptr, length);
+  return {
+    memory,
+    malloc: (length: number) => {
+      const ptr = next;
+      next += length;
+      return ptr;
+    },
+    free: () => {},
+    OQS_KEM_new: () => 1,
+    OQS_KEM_free: () => {},
+    TUTA_KEM_decaps: (_kem: number, sharedSecretPtr: number, cipherTextPtr: number, privateKeyPtr: number) => {
+      assert.deepEqual(bytes(cipherTextPtr, cipherText.length), cipherText);
+      assert.deepEqual(bytes(privateKeyPtr, privateKey.length), privateKey);
+      bytes(sharedSecretPtr, sharedSecret.length).set(sharedSecret);
+      return 0;
+    },
+  } as unknown as LibOQSExports;
+}
+
+describe("bucketKey", () => {
+  random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+  const groupKey = newKey();
+  const rsa = rsaKey();
+  const groupRaw = {
+    "7": "user-group",
+    "2271": "1",
+    "2272": [
+      {
+        "144": "keys",
+        "145": uint8ArrayToBase64(rsa.pubRsaKey),
+        "146": uint8ArrayToBase64(aesEncrypt(groupKey, hexToUint8Array(rsaPrivateKeyToHex(rsa.privateKey)))),
+        "2144": null,
+        "2145": null,
+        "2146": null,
+        "2147": null,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    groupRequests = 0;
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname !== "/rest/sys/group/user-group") return new Response("not found", { status: 404 });
+      groupRequests++;
+      return new Response(JSON.stringify(groupRaw));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    process.env = { ...savedEnv };
+  });
+
+  test("unlocks the current key pair of a group once and keeps it in the key chain", async () => {
+    const keyChain = createKeyChainFromGroupKeys([
+      { groupId: "user-group", keyVersion: "1", key: groupKey },
+      { groupId: "user-group", keyVersion: "0", key: newKey() },
+    ]);
+    const keyPair = await unlockGroupKeyPair(API, "at", keyChain, "user-group", "1");
+    assert.ok(keyPair != null && "privateKey" in keyPair);
+    assert.equal(keyPair.privateKey.modulus, rsa.privateKey.modulus);
+    assert.equal(await unlockGroupKeyPair(API, "at", keyChain, "user-group", "1"), keyPair);
+    assert.equal(groupRequests, 1);
+
+    assert.equal(await unlockGroupKeyPair(API, "at", keyChain, "user-group", "0"), null);
+    assert.equal(await unlockGroupKeyPair(API, "at", keyChain, "other-group", "1"), null);
+  });
+
+  test("unlocks a former key pair with the former group key of its version", async () => {
+    const formerGroupKey = newKey();
+    const formerRsa = rsaKey();
+    const formerKeyRaw = {
+      "2257": ["former-keys", "MA"], // custom id of version "0"
+      "2261": uint8ArrayToBase64(encryptKey(groupKey, formerGroupKey)),
+      "2265": [
+        {
+          "144": "former",
+          "145": uint8ArrayToBase64(formerRsa.pubRsaKey),
+          "146": uint8ArrayToBase64(
+            aesEncrypt(formerGroupKey, hexToUint8Array(rsaPrivateKeyToHex(formerRsa.privateKey)))
+          ),
+          "2144": null,
+          "2145": null,
+          "2146": null,
+          "2147": null,
+        },
+      ],
+    };
+    const requested: string[] = [];
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      requested.push(url.pathname);
+      if (url.pathname === "/rest/sys/group/user-group") {
+        return new Response(JSON.stringify({ ...groupRaw, "2273": [{ "2268": "ref", "2269": "former-keys" }] }));
+      }
+      if (url.pathname === "/rest/sys/groupkey/former-keys") return new Response(JSON.stringify([formerKeyRaw]));
+      if (url.pathname === "/rest/sys/groupkey/former-keys/MA") return new Response(JSON.stringify(formerKeyRaw));
+      return new Response("not found", { status: 404 });
+    }) as typeof fetch;
+    const keyChain = createKeyChainFromGroupKeys(
+      [{ groupId: "user-group", keyVersion: "1", key: groupKey }],
+      formerKeyLoader(API, "at", loadEntity, loadRange)
+    );
+
+    const keyPair = await unlockGroupKeyPair(API, "at", keyChain, "user-group", "0");
+    assert.ok(keyPair != null && "privateKey" in keyPair);
+    assert.equal(keyPair.privateKey.modulus, formerRsa.privateKey.modulus);
+    assert.deepEqual(keyToUint8Array(keyChain.getGroupKey("user-group", "0")!), keyToUint8Array(formerGroupKey));
+    assert.ok(requested.includes("/rest/sys/groupkey/former-keys/MA"));
+    assert.equal(await unlockGroupKeyPair(API, "at", keyChain, "user-group", "0"), keyPair);
+  });
+
+  test("decrypts an RSA pubEncBucketKey and the session keys in the bucket", async () => {
+    const keyChain = createKeyChainFromGroupKeys([{ groupId: "user-group", keyVersion: "1", key: groupKey }]);
+    const bucketKey = newKey();
+    const mailSessionKey = newKey();
+    const fileSessionKey = newKey();
+    const publicKey = hexToRsaPublicKey(uint8ArrayToHex(rsa.pubRsaKey));
+    const received = bucket({
+      pubEncBucketKey: rsaEncrypt(publicKey, keyToUint8Array(bucketKey), new Uint8Array(randomBytes(32))),
+      recipientKeyVersion: 1,
+      bucketEncSessionKeys: [
+        { _id: "1", instanceList: "mails", instanceId: "mail", symEncSessionKey: encryptKey(bucketKey, mailSessionKey) },
+        { _id: "2", instanceList: "files", instanceId: "file", symEncSessionKey: encryptKey(bucketKey, fileSessionKey) },
+      ],
+    });
+
+    const decrypted = await decryptBucketKey(API, "at", keyChain, received, null);
+    assert.deepEqual(keyToUint8Array(decrypted!), keyToUint8Array(bucketKey));
+    const sessionKeys = bucketSessionKeys(decrypted!, received);
+    assert.deepEqual(keyToUint8Array(sessionKeys.get("mail")!), keyToUint8Array(mailSessionKey));
+    assert.deepEqual(keyToUint8Array(sessionKeys.get("file")!), keyToUint8Array(fileSessionKey));
+  });
+
+  test("decrypts a groupEncBucketKey with the key group, defaulting to the owner group", async () => {
+    const mailGroupKey = newKey();
+    const keyChain = createKeyChainFromGroupKeys([{ groupId: "mail-group", keyVersion: "2", key: mailGroupKey }]);
+    const bucketKey = newKey();
+    const received = bucket({
+      groupEncBucketKey: encryptKey(mailGroupKey, bucketKey),
+      protocolVersion: CryptoProtocolVersion.SYMMETRIC_ENCRYPTION,
+      recipientKeyVersion: 2,
+      keyGroup: null,
+    });
+    const decrypted = await decryptBucketKey(API, "at", keyChain, received, "mail-group");
+    assert.deepEqual(keyToUint8Array(decrypted!), keyToUint8Array(bucketKey));
+    assert.equal(await decryptBucketKey(API, "at", keyChain, { ...received, recipientKeyVersion: 1 }, "mail-group"), null);
+    assert.equal(groupRequests, 0);
+  });
+
+  test("TutaCrypt needs a TutaCrypt key pair and liboqs", async () => {
+    delete process.env.TUTANOTA_LIBOQS_WASM;
+    await assert.rejects(loadLiboqs(), /TUTANOTA_LIBOQS_WASM/);
+
+    const x25519KeyPair = generateX25519KeyPair();
+    const pqKeyPair = {
+      keyPairType: KeyPairType.TUTA_CRYPT,
+      x25519KeyPair,
+      kyberKeyPair: { publicKey: { raw: new Uint8Array(0) }, privateKey: { raw: new Uint8Array(0) } },
+    };
+    const noKyber = () => Promise.reject(new Error("no liboqs"));
+    await assert.rejects(
+      decryptPubEncBucketKey(pqKeyPair, new Uint8Array(8), CryptoProtocolVersion.TUTA_CRYPT, noKyber),
+      /no liboqs/
+    );
+    await assert.rejects(
+      decryptPubEncBucketKey(pqKeyPair, new Uint8Array(8), CryptoProtocolVersion.RSA, noKyber),
+      /has no RSA key/
+    );
+    await assert.rejects(
+      decryptPubEncBucketKey(pqKeyPair, new Uint8Array(8), 7, noKyber),
+      /Unsupported bucket key protocol version 7/
+    );
+  });
+
+  test("decrypts a TutaCrypt bucket key", async () => {
+    const recipient = generateX25519KeyPair();
+    const kyberKeyPair = {
+      publicKey: { raw: new Uint8Array(randomBytes(1568)) },
+      privateKey: { raw: new Uint8Array(randomBytes(3168)) },
+    };
+    const pqKeyPair = { keyPairType: KeyPairType.TUTA_CRYPT, x25519KeyPair: recipient, kyberKeyPair };
+    const kyberCipherText = new Uint8Array(randomBytes(1568));
+    const kyberSharedSecret = new Uint8Array(randomBytes(32));
+    const bucketKey = newKey();
+
+    // Sender side of TutaCrypt (as the Tuta client encapsulates).
+    const senderIdentity = generateX25519KeyPair();
+    const ephemeral = generateX25519KeyPair();
+    const eccSharedSecret = x25519Encapsulate(senderIdentity.privateKey, ephemeral.privateKey, recipient.publicKey);
+    const context = concat(
+      senderIdentity.publicKey,
+      ephemeral.publicKey,
+      recipient.publicKey,
+      kyberPublicKeyToBytes(kyberKeyPair.publicKey),
+      kyberCipherText,
+      new Uint8Array([CryptoProtocolVersion.TUTA_CRYPT])
+    );
+    const inputKeyMaterial = concat(
+      eccSharedSecret.ephemeralSharedSecret,
+      eccSharedSecret.authSharedSecret,
+      kyberSharedSecret
+    );
+    const kek = uint8ArrayToKey(hkdf(context, inputKeyMaterial, stringToUtf8Uint8Array("kek"), 32));
+    const pubEncBucketKey = byteArraysToBytes([
+      senderIdentity.publicKey,
+      ephemeral.publicKey,
+      kyberCipherText,
+      encryptKey(kek, bucketKey),
+    ]);
+
+    const kyber = fakeLiboqs(kyberKeyPair.privateKey.raw, kyberCipherText, kyberSharedSecret);
+    const decrypted = await decryptPubEncBucketKey(
+      pqKeyPair,
+      pubEncBucketKey,
+      CryptoProtocolVersion.TUTA_CRYPT,
+      async () => kyber
+    );
+    assert.deepEqual(keyToUint8Array(decrypted), keyToUint8Array(bucketKey));
+  });
+});
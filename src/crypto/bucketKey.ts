@@ -0,0 +1,228 @@
+/**
+ * Bucket keys of received mail. Until the recipient's client writes back _ownerEncSessionKey, a received Mail only
+ * carries a BucketKey: a random key encrypted for the recipient group that encrypts the session key of the mail and
+ * of each of its files (bucketEncSessionKeys, by instance id).
+ *
+ * The bucket key is encrypted with the key group's public key (pubEncBucketKey) or with a group key
+ * (groupEncBucketKey). Public key encryption is RSA or TutaCrypt (x25519 + Kyber, see decapsulateTutaCrypt); the key
+ * pair is Group.currentKeys, or GroupKey.keyPair for a former version (after a key rotation), decrypted with the group
+ * key of the same version and cached in the key chain.
+ * Kyber needs the liboqs WebAssembly module of the Tuta client, which is not bundled (TUTANOTA_LIBOQS_WASM).
+ */
+
+import * as fs from "fs";
+import {
+  type AsymmetricKeyPair,
+  type EncryptedKeyPairs,
+  type LibOQSExports,
+  type PQKeyPairs,
+  decapsulateKyber,
+  decryptKey,
+  decryptKeyPair,
+  hkdf,
+  isPqKeyPairs,
+  isRsaOrRsaX25519KeyPair,
+  kyberPublicKeyToBytes,
+  rsaDecrypt,
+  uint8ArrayToKey,
+  x25519Decapsulate,
+} from "@tutao/tutanota-crypto";
+import { bytesToByteArrays, concat, stringToUtf8Uint8Array } from "@tutao/tutanota-utils";
+import type { AesKey } from "../auth/kdf.js";
+import { getLiboqsWasmPath } from "../config.js";
+import { getErrorMessage, log } from "../logger.js";
+import { loadEntity } from "../rest.js";
+import { decodeInstance } from "./decodeInstance.js";
+import type { ServerInstance } from "./decryptInstance.js";
+import type { BucketKey, Group, KeyPair } from "./entities.js";
+import { loadFormerKeyPair } from "./formerGroupKey.js";
+import type { KeyChain } from "./keyChain.js";
+import { GROUP } from "./typeModels.js";
+
+/** BucketKey.protocolVersion (CryptoProtocolVersion in the main app). */
+export const CryptoProtocolVersion = {
+  RSA: 0,
+  SYMMETRIC_ENCRYPTION: 1,
+  TUTA_CRYPT: 2,
+} as const;
+
+/** Length of the TutaCrypt key encryption key (AES-256). */
+const KEK_LENGTH_BYTES = 32;
+
+/** Empty byte values mean "not set" (the server may send "" instead of null). */
+function bytesOrNull(bytes: Uint8Array | null): Uint8Array | null {
+  return bytes != null && bytes.length > 0 ? bytes : null;
+}
+
+/** Decrypt a group's KeyPair with the group key of the same version (RSA, RSA + x25519 or TutaCrypt). */
+export function decryptGroupKeyPair(groupKey: AesKey, keyPair: KeyPair): AsymmetricKeyPair {
+  const encrypted = {
+    pubRsaKey: bytesOrNull(keyPair.pubRsaKey),
+    symEncPrivRsaKey: bytesOrNull(keyPair.symEncPrivRsaKey),
+    pubEccKey: bytesOrNull(keyPair.pubEccKey),
+    symEncPrivEccKey: bytesOrNull(keyPair.symEncPrivEccKey),
+    pubKyberKey: bytesOrNull(keyPair.pubKyberKey),
+    symEncPrivKyberKey: bytesOrNull(keyPair.symEncPrivKyberKey),
+    signature: null,
+  } as EncryptedKeyPairs;
+  return decryptKeyPair(groupKey, encrypted);
+}
+
+/**
+ * The key pair of a group for a key version: from the key chain, else loaded from the Group (currentKeys, or the
+ * former keys for an older version), decrypted with the group key of that version and added to the key chain. Null
+ * when the key chain cannot resolve that group key or the group has no key pair for that version.
+ */
+export async function unlockGroupKeyPair(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  groupId: string,
+  keyVersion: string
+): Promise<AsymmetricKeyPair | null> {
+  const cached = keyChain.getKeyPair(groupId, keyVersion);
+  if (cached != null) return cached;
+  const groupKey = await keyChain.resolveGroupKey(groupId, keyVersion);
+  if (groupKey == null) return null;
+  const raw = await loadEntity<ServerInstance>(baseUrl, GROUP, groupId, { accessToken });
+  const group = decodeInstance<Group>(GROUP, raw);
+  const encryptedKeyPair =
+    String(group.groupKeyVersion ?? 0) === keyVersion
+      ? group.currentKeys
+      : await loadFormerKeyPair(baseUrl, accessToken, loadEntity, group, keyVersion);
+  if (encryptedKeyPair == null) {
+    log(`Group ${groupId}: no key pair for key version ${keyVersion}.`);
+    return null;
+  }
+  const keyPair = decryptGroupKeyPair(groupKey, encryptedKeyPair);
+  keyChain.addKeyPair(groupId, keyVersion, keyPair);
+  return keyPair;
+}
+
+let liboqs: Promise<LibOQSExports> | null = null;
+
+/** The liboqs WebAssembly exports (Kyber), instantiated once from TUTANOTA_LIBOQS_WASM. */
+export function loadLiboqs(): Promise<LibOQSExports> {
+  const wasmPath = getLiboqsWasmPath();
+  if (wasmPath == null) {
+    return Promise.reject(
+      new Error(
+        "Mail encrypted with TutaCrypt needs Kyber from liboqs; set TUTANOTA_LIBOQS_WASM to the liboqs.wasm of the Tuta client."
+      )
+    );
+  }
+  liboqs ??= fs.promises
+    .readFile(wasmPath)
+    .then(async (bytes) => (await WebAssembly.instantiate(bytes)).instance.exports as unknown as LibOQSExports)
+    .catch((err: unknown) => {
+      liboqs = null;
+      throw new Error(`Could not load liboqs from ${wasmPath}: ${getErrorMessage(err)}`);
+    });
+  return liboqs;
+}
+
+/**
+ * Decrypt a TutaCrypt pubEncBucketKey: the encoded message holds the sender's identity key, an ephemeral x25519 key,
+ * the Kyber ciphertext and the bucket key encrypted with the key encryption key. The key encryption key is derived
+ * (HKDF) from both x25519 shared secrets and the Kyber shared secret, bound to the public keys and the protocol.
+ */
+export function decapsulateTutaCrypt(kyber: LibOQSExports, keyPair: PQKeyPairs, pqMessage: Uint8Array): AesKey {
+  const [senderIdentityPubKey, ephemeralPubKey, kyberCipherText, kekEncBucketKey] = bytesToByteArrays(pqMessage, 4);
+  const eccSharedSecret = x25519Decapsulate(senderIdentityPubKey, ephemeralPubKey, keyPair.x25519KeyPair.privateKey);
+  const kyberSharedSecret = decapsulateKyber(kyber, keyPair.kyberKeyPair.privateKey, kyberCipherText);
+  const context = concat(
+    senderIdentityPubKey,
+    ephemeralPubKey,
+    keyPair.x25519KeyPair.publicKey,
+    kyberPublicKeyToBytes(keyPair.kyberKeyPair.publicKey),
+    kyberCipherText,
+    new Uint8Array([CryptoProtocolVersion.TUTA_CRYPT])
+  );
+  const inputKeyMaterial = concat(
+    eccSharedSecret.ephemeralSharedSecret,
+    eccSharedSecret.authSharedSecret,
+    kyberSharedSecret
+  );
+  const kek = uint8ArrayToKey(hkdf(context, inputKeyMaterial, stringToUtf8Uint8Array("kek"), KEK_LENGTH_BYTES));
+  return decryptKey(kek, kekEncBucketKey);
+}
+
+/** Decrypt a pubEncBucketKey with the recipient key pair, by protocol version (RSA or TutaCrypt). */
+export async function decryptPubEncBucketKey(
+  keyPair: AsymmetricKeyPair,
+  pubEncBucketKey: Uint8Array,
+  protocolVersion: number,
+  getKyber: () => Promise<LibOQSExports> = loadLiboqs
+): Promise<AesKey> {
+  switch (protocolVersion) {
+    case CryptoProtocolVersion.RSA:
+      if (!isRsaOrRsaX25519KeyPair(keyPair)) throw new Error("RSA bucket key, but the key pair has no RSA key.");
+      return uint8ArrayToKey(rsaDecrypt(keyPair.privateKey, pubEncBucketKey));
+    case CryptoProtocolVersion.TUTA_CRYPT:
+      if (!isPqKeyPairs(keyPair)) throw new Error("TutaCrypt bucket key, but the key pair is not a TutaCrypt key pair.");
+      return decapsulateTutaCrypt(await getKyber(), keyPair, pubEncBucketKey);
+    default:
+      throw new Error(`Unsupported bucket key protocol version ${protocolVersion}.`);
+  }
+}
+
+/**
+ * Decrypt a bucket key: groupEncBucketKey with the key group's group key, else pubEncBucketKey with its key pair.
+ * The key group defaults to the instance's owner group. Null when the key chain cannot resolve the needed group key.
+ */
+export async function decryptBucketKey(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  bucketKey: BucketKey,
+  ownerGroup: string | null
+): Promise<AesKey | null> {
+  const keyGroup = bucketKey.keyGroup ?? ownerGroup;
+  if (keyGroup == null) return null;
+  const keyVersion = String(bucketKey.recipientKeyVersion ?? 0);
+  const groupEncBucketKey = bytesOrNull(bucketKey.groupEncBucketKey);
+  if (groupEncBucketKey != null) {
+    const groupKey = await keyChain.resolveGroupKey(keyGroup, keyVersion);
+    return groupKey != null ? decryptKey(groupKey, groupEncBucketKey) : null;
+  }
+  const pubEncBucketKey = bytesOrNull(bucketKey.pubEncBucketKey);
+  if (pubEncBucketKey == null) return null;
+  const keyPair = await unlockGroupKeyPair(baseUrl, accessToken, keyChain, keyGroup, keyVersion);
+  if (keyPair == null) return null;
+  return decryptPubEncBucketKey(keyPair, pubEncBucketKey, bucketKey.protocolVersion ?? CryptoProtocolVersion.RSA);
+}
+
+/** Session keys in a bucket, by instance element id (the mail and its files). */
+export function bucketSessionKeys(decryptedBucketKey: AesKey, bucketKey: BucketKey): Map<string, AesKey> {
+  const sessionKeys = new Map<string, AesKey>();
+  for (const instanceSessionKey of bucketKey.bucketEncSessionKeys) {
+    if (instanceSessionKey.instanceId == null || instanceSessionKey.symEncSessionKey == null) continue;
+    sessionKeys.set(instanceSessionKey.instanceId, decryptKey(decryptedBucketKey, instanceSessionKey.symEncSessionKey));
+  }
+  return sessionKeys;
+}
+
+/**
+ * Session keys of a received mail and its files from its bucket key, by instance element id. Empty when the mail
+ * has no bucket key or it cannot be decrypted (logged), so callers fall back to undecrypted defaults.
+ */
+export async function resolveBucketSessionKeys(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  bucketKey: BucketKey | null,
+  ownerGroup: string | null
+): Promise<Map<string, AesKey>> {
+  if (bucketKey == null) return new Map();
+  try {
+    const decryptedBucketKey = await decryptBucketKey(baseUrl, accessToken, keyChain, bucketKey, ownerGroup);
+    if (decryptedBucketKey == null) {
+      log(`Bucket key: no key for group ${bucketKey.keyGroup ?? ownerGroup} version ${bucketKey.recipientKeyVersion}.`);
+      return new Map();
+    }
+    return bucketSessionKeys(decryptedBucketKey, bucketKey);
+  } catch (err) {
+    log(`Bucket key: could not decrypt: ${getErrorMessage(err)}`);
+    return new Map();
+  }
+}
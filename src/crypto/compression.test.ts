@@ -0,0 +1,50 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { decompressString, lz4Uncompress } from "./compression.js";
+
+/** LZ4 blocks produced by the reference lz4 tool (block payload of `lz4 -l -9`). */
+const HTML_VECTOR =
+  "bf3c6469763e48656c6c6f2006000afe0f2c20776f726c6421204772c3bcc39f65206175732048616e6e6f7665722e3000603c2f6469763e";
+const HTML_PLAIN = "<div>Hello Hello Hello Hello Hello Hello, world! Grüße aus Hannover. Hello Hello Hello</div>";
+/** "abc" x 104: one overlapping match with an extended match length. */
+const REPEAT_VECTOR = "3f6162630300ff1e506263616263";
+
+function hex(s: string): Uint8Array {
+  return new Uint8Array(Buffer.from(s, "hex"));
+}
+
+describe("compression", () => {
+  describe("lz4Uncompress", () => {
+    test("decompresses a block with matches and multi-byte UTF-8 literals", () => {
+      assert.equal(Buffer.from(lz4Uncompress(hex(HTML_VECTOR))).toString("utf8"), HTML_PLAIN);
+    });
+
+    test("decompresses overlapping matches with extended lengths", () => {
+      assert.equal(Buffer.from(lz4Uncompress(hex(REPEAT_VECTOR))).toString("utf8"), "abc".repeat(104));
+    });
+
+    test("decompresses a literal-only block (short strings are stored uncompressed)", () => {
+      assert.equal(Buffer.from(lz4Uncompress(hex("5048656c6c6f"))).toString("utf8"), "Hello");
+      const twenty = "abcdefghijklmnopqrst";
+      assert.equal(Buffer.from(lz4Uncompress(hex("f005" + Buffer.from(twenty).toString("hex")))).toString(), twenty);
+    });
+
+    test("rejects a match offset before the start of the output", () => {
+      assert.throws(() => lz4Uncompress(hex("1061ff00")), /offset out of bounds/);
+    });
+  });
+
+  describe("decompressString", () => {
+    test("returns empty string for empty input", () => {
+      assert.equal(decompressString(new Uint8Array(0)), "");
+    });
+
+    test("decompresses and decodes UTF-8", () => {
+      assert.equal(decompressString(hex(HTML_VECTOR)), HTML_PLAIN);
+    });
+
+    test("falls back to uncompressed UTF-8 for data that is not an LZ4 block", () => {
+      assert.equal(decompressString(hex("1061ff00")), Buffer.from(hex("1061ff00")).toString("utf8"));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * LZ4 decompression for CompressedString values. The main app compresses large text values (mail bodies, headers)
+ * with LZ4 before encrypting them; the data is a raw LZ4 block (no frame header, no size prefix).
+ */
+
+import { utf8Uint8ArrayToString } from "@tutao/tutanota-utils";
+import * as logger from "../logger.js";
+
+const MIN_MATCH = 4;
+
+/** Read an LZ4 extended length: keep adding bytes while they are 255. Returns [length, next position]. */
+function readLength(source: Uint8Array, pos: number, initial: number): [number, number] {
+  let length = initial;
+  if (initial === 15) {
+    let b: number;
+    do {
+      if (pos >= source.length) throw new Error("Invalid LZ4 data: truncated length");
+      b = source[pos++];
+      length += b;
+    } while (b === 255);
+  }
+  return [length, pos];
+}
+
+/** Decompress a raw LZ4 block. Throws if the data is not a valid block. */
+export function lz4Uncompress(source: Uint8Array): Uint8Array {
+  let dest = new Uint8Array(Math.max(source.length * 4, 64));
+  let destPos = 0;
+  const ensure = (extra: number) => {
+    if (destPos + extra <= dest.length) return;
+    let size = dest.length * 2;
+    while (size < destPos + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(dest.subarray(0, destPos));
+    dest = grown;
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    const token = source[pos++];
+
+    let literalLength: number;
+    [literalLength, pos] = readLength(source, pos, token >> 4);
+    if (pos + literalLength > source.length) throw new Error("Invalid LZ4 data: literals out of bounds");
+    ensure(literalLength);
+    dest.set(source.subarray(pos, pos + literalLength), destPos);
+    destPos += literalLength;
+    pos += literalLength;
+
+    // The last sequence has literals only.
+    if (pos >= source.length) break;
+
+    if (pos + 2 > source.length) throw new Error("Invalid LZ4 data: truncated offset");
+    const offset = source[pos] | (source[pos + 1] << 8);
+    pos += 2;
+    if (offset === 0 || offset > destPos) throw new Error("Invalid LZ4 data: match offset out of bounds");
+
+    let matchLength: number;
+    [matchLength, pos] = readLength(source, pos, token & 0x0f);
+    matchLength += MIN_MATCH;
+    ensure(matchLength);
+    // Byte by byte: matches may overlap the bytes they produce (offset < length).
+    for (let i = 0; i < matchLength; i++) {
+      dest[destPos] = dest[destPos - offset];
+      destPos++;
+    }
+  }
+  return dest.subarray(0, destPos);
+}
+
+/**
+ * Decode a decrypted CompressedString value: LZ4-decompress, then UTF-8 decode. Empty input is "".
+ * Data that is not a valid LZ4 block is decoded as uncompressed UTF-8 instead of failing the whole instance.
+ */
+export function decompressString(compressed: Uint8Array): string {
+  if (compressed.length === 0) return "";
+  let bytes: Uint8Array;
+  try {
+    bytes = lz4Uncompress(compressed);
+  } catch (err) {
+    logger.log("CompressedString is not LZ4 data; using it uncompressed (" + logger.getErrorMessage(err) + ")");
+    bytes = compressed;
+  }
+  return utf8Uint8ArrayToString(bytes);
+}
@@ -0,0 +1,68 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeInstance } from "./decodeInstance.js";
+import type { Mail, MailBox, MailSet, MailSetEntry } from "./entities.js";
+import { MAIL, MAIL_BOX, MAIL_SET, MAIL_SET_ENTRY } from "./typeModels.js";
+
+describe("decodeInstance", () => {
+  test("names and converts Mail values and associations", () => {
+    const mail = decodeInstance<Mail>(MAIL, {
+      "99": ["ml", "m1"],
+      "105": "Hello",
+      "107": "1767225600000",
+      "108": "2",
+      "109": "1",
+      "426": false,
+      "1769": "0",
+      "111": [{ "93": "s", "94": "Sender", "95": "from@example.com" }],
+      "115": [
+        ["fl", "f1"],
+        ["fl", "f2"],
+      ],
+      "117": ["cl", "c1"],
+      "1308": [["archive", "blob"]],
+    });
+    assert.deepEqual(mail._id, ["ml", "m1"]);
+    assert.equal(mail.subject, "Hello");
+    assert.equal(mail.receivedDate?.toISOString(), "2026-01-01T00:00:00.000Z");
+    assert.equal(mail.state, 2);
+    assert.equal(mail.unread, true);
+    assert.equal(mail.confidential, false);
+    assert.equal(mail.processNeeded, false);
+    assert.deepEqual(mail.sender, { _id: "s", name: "Sender", address: "from@example.com" });
+    assert.deepEqual(mail.attachments, [
+      ["fl", "f1"],
+      ["fl", "f2"],
+    ]);
+    assert.deepEqual(mail.conversationEntry, ["cl", "c1"]);
+    assert.deepEqual(mail.mailDetails, ["archive", "blob"]);
+  });
+
+  test("missing values and associations decode to null or empty lists", () => {
+    const mail = decodeInstance<Mail>(MAIL, { "1308": [] });
+    assert.equal(mail.sendAt, null);
+    assert.equal(mail.sender, null);
+    assert.deepEqual(mail.attachments, []);
+    assert.equal(mail.mailDetails, null);
+  });
+
+  test("decodes MailSet, MailSetEntry and the MailBox MailSetRef", () => {
+    const mailSet = decodeInstance<MailSet>(MAIL_SET, {
+      "431": ["sl", "s1"],
+      "435": "Work",
+      "436": "0",
+      "1479": "#ff0000",
+      "1459": "entries-list",
+    });
+    assert.equal(mailSet.name, "Work");
+    assert.equal(mailSet.folderType, 0);
+    assert.equal(mailSet.color, "#ff0000");
+    assert.equal(mailSet.entries, "entries-list");
+
+    const entry = decodeInstance<MailSetEntry>(MAIL_SET_ENTRY, { "1452": ["el", "e1"], "1456": ["ml", "m1"] });
+    assert.deepEqual(entry, { _id: ["el", "e1"], mail: ["ml", "m1"] });
+
+    const mailbox = decodeInstance<MailBox>(MAIL_BOX, { "443": [{ "441": "r", "442": "mail-set-list" }] });
+    assert.deepEqual(mailbox.mailSets, { _id: "r", mailSets: "mail-set-list" });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Decode a (decrypted) server instance keyed by attribute id into an object keyed by attribute name.
+ * Values are converted by their model type, aggregations are decoded recursively and other associations become ids.
+ * Use with the entity interfaces in entities.ts: decodeInstance<Mail>(MAIL, decryptParsedInstance(MAIL, raw, sk)).
+ */
+
+import { base64ToUint8Array } from "@tutao/tutanota-utils";
+import type { ServerInstance } from "./decryptInstance.js";
+import { type AssociationModel, type TypeModel, AssociationType, Cardinality, ValueType } from "./typeModel.js";
+
+function decodeValue(type: string, value: unknown): unknown {
+  if (value == null) return null;
+  switch (type) {
+    case ValueType.Number: {
+      if (typeof value === "number") return value;
+      if (value === "") return null;
+      const n = Number(value);
+      return Number.isNaN(n) ? null : n;
+    }
+    case ValueType.Date: {
+      if (value instanceof Date) return value;
+      const ms = typeof value === "number" ? value : parseInt(String(value), 10);
+      return Number.isNaN(ms) ? null : new Date(ms);
+    }
+    case ValueType.Boolean:
+      return typeof value === "boolean" ? value : String(value) !== "0";
+    case ValueType.Bytes:
+      return value instanceof Uint8Array ? value : base64ToUint8Array(String(value));
+    default:
+      // Ids of list elements come as [listId, elementId].
+      return Array.isArray(value) ? value.map(String) : String(value);
+  }
+}
+
+/** An association id: a string id, or an IdTuple for list and blob elements. Empty associations are null. */
+function decodeId(value: unknown): string | [string, string] | null {
+  if (value == null) return null;
+  if (!Array.isArray(value)) return String(value);
+  if (value.length === 0) return null;
+  // Single ids may come wrapped in a one-element array (["id"] or [["listId", "elementId"]]).
+  if (value.length === 1) return decodeId(value[0]);
+  return [String(value[0]), String(value[1])];
+}
+
+function decodeAssociation(association: AssociationModel, value: unknown): unknown {
+  const items = value == null ? [] : Array.isArray(value) ? value : [value];
+  if (association.type === AssociationType.Aggregation) {
+    const aggregates = items
+      .filter((v): v is ServerInstance => v != null && typeof v === "object" && !Array.isArray(v))
+      .map((v) => decodeInstance(association.refType(), v));
+    return association.cardinality === Cardinality.Any ? aggregates : (aggregates[0] ?? null);
+  }
+  if (association.cardinality === Cardinality.Any) {
+    return items.map(decodeId).filter((id) => id != null);
+  }
+  return decodeId(value);
+}
+
+/** Decode an instance into an object with the model's attribute names. Unknown attributes are dropped. */
+export function decodeInstance<T>(typeModel: TypeModel, instance: ServerInstance): T {
+  const result: Record<string, unknown> = {};
+  for (const [id, valueModel] of Object.entries(typeModel.values)) {
+    result[valueModel.name] = decodeValue(valueModel.type, instance[id]);
+  }
+  for (const [id, association] of Object.entries(typeModel.associations ?? {})) {
+    result[association.name] = decodeAssociation(association, instance[id]);
+  }
+  return result as T;
+}
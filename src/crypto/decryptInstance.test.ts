@@ -1,18 +1,23 @@
 import { describe, test } from "node:test";
 import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { aesEncrypt, random, uint8ArrayToKey } from "@tutao/tutanota-crypto";
 import {
   resolveSessionKey,
   decryptParsedInstance,
   type ServerInstance,
 } from "./decryptInstance.js";
 import type { KeyChain } from "./keyChain.js";
-import { MAIL_SET, MAILBOX_GROUP_ROOT } from "./typeModels.js";
+import { BODY, MAIL, MAIL_BOX, MAIL_DETAILS_BLOB, MAIL_SET, MAILBOX_GROUP_ROOT } from "./typeModels.js";
 
 function mockKeyChain(getGroupKeyReturn: ReturnType<KeyChain["getGroupKey"]>): KeyChain {
   return {
     getGroupKey: () => getGroupKeyReturn,
     addGroupKey: () => {},
     getAvailableKeyVersions: () => [],
+    getKeyPair: () => null,
+    addKeyPair: () => {},
+    resolveGroupKey: async () => getGroupKeyReturn,
   };
 }
 
@@ -72,5 +77,61 @@ describe("decryptInstance", () => {
       const result = decryptParsedInstance(MAIL_SET, encryptedInstance, null);
       assert.equal(result["999"], "extra-key");
     });
+
+    test("decrypts and LZ4-decompresses CompressedString values", () => {
+      random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+      const sessionKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+      // "abc" x 104 as an LZ4 block.
+      const compressed = new Uint8Array(Buffer.from("3f6162630300ff1e506263616263", "hex"));
+      const encrypted = Buffer.from(aesEncrypt(sessionKey, compressed)).toString("base64");
+      const result = decryptParsedInstance(BODY, { "1257": "b1", "1259": encrypted }, sessionKey);
+      assert.equal(result["1259"], "abc".repeat(104));
+    });
+
+    test("decrypts aggregations with the parent session key", () => {
+      random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+      const sessionKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+      const enc = (text: string) => Buffer.from(aesEncrypt(sessionKey, new TextEncoder().encode(text))).toString("base64");
+      const mail = decryptParsedInstance(
+        MAIL,
+        { "105": enc("Subject"), "111": [{ "93": "s", "94": enc("Sender"), "95": "from@example.com" }] },
+        sessionKey
+      );
+      assert.equal(mail["105"], "Subject");
+      assert.deepEqual(mail["111"], [{ "93": "s", "94": "Sender", "95": "from@example.com" }]);
+    });
+
+    test("decrypts nested aggregations and keeps list shape", () => {
+      random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+      const sessionKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+      const enc = (text: string) => Buffer.from(aesEncrypt(sessionKey, new TextEncoder().encode(text))).toString("base64");
+      const blob = decryptParsedInstance(
+        MAIL_DETAILS_BLOB,
+        {
+          "1284": ["archive", "blob"],
+          "1289": [
+            {
+              "1276": "d1",
+              "1279": [{ "613": "r", "614": enc("Reply"), "615": enc("reply@example.com") }],
+              "1280": [{ "1270": "r1", "1271": [{ "93": "a1", "94": enc("To"), "95": "to@example.com" }], "1272": [] }],
+              "1281": [{ "1257": "b1", "1258": enc("Hello") }],
+            },
+          ],
+        },
+        sessionKey
+      );
+      assert.deepEqual(blob["1284"], ["archive", "blob"]);
+      const details = (blob["1289"] as ServerInstance[])[0];
+      assert.deepEqual(details["1279"], [{ "613": "r", "614": "Reply", "615": "reply@example.com" }]);
+      const recipients = (details["1280"] as ServerInstance[])[0];
+      assert.deepEqual(recipients["1271"], [{ "93": "a1", "94": "To", "95": "to@example.com" }]);
+      assert.deepEqual(recipients["1272"], []);
+      assert.equal((details["1281"] as ServerInstance[])[0]["1258"], "Hello");
+    });
+
+    test("copies unencrypted aggregates such as MailSetRef", () => {
+      const mailbox = decryptParsedInstance(MAIL_BOX, { "127": "mb", "443": [{ "441": "r", "442": "mail-set-list" }] }, null);
+      assert.deepEqual(mailbox["443"], [{ "441": "r", "442": "mail-set-list" }]);
+    });
   });
 });
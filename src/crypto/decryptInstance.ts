@@ -12,13 +12,15 @@ import {
 } from "@tutao/tutanota-crypto";
 import { base64ToUint8Array, utf8Uint8ArrayToString } from "@tutao/tutanota-utils";
 import type { AesKey } from "../auth/kdf.js";
+import { decompressString } from "./compression.js";
 import type { KeyChain } from "./keyChain.js";
 import {
   type TypeModel,
   type ValueModel,
+  AssociationType,
   getOwnerAttrs,
   ValueType,
-} from "./typeModels.js";
+} from "./typeModel.js";
 
 /** Server-side instance: object keyed by numeric attribute id (string keys). */
 export type ServerInstance = Record<string, unknown>;
@@ -98,6 +100,25 @@ export function resolveSessionKey(
   return null;
 }
 
+/**
+ * resolveSessionKey after resolving the owner group key of the instance's _ownerKeyVersion through the key chain
+ * (former keys after a key rotation, memberships not unlocked yet).
+ */
+export async function loadSessionKey(
+  keyChain: KeyChain,
+  instance: ServerInstance,
+  typeModel: TypeModel,
+  onSessionKeyResolved?: OnSessionKeyResolved
+): Promise<AesKey | null> {
+  if (!typeModel.encrypted) return null;
+  const attrs = getOwnerAttrs(typeModel);
+  const ownerGroup = instance[attrs.ownerGroup];
+  if (ownerGroup != null) {
+    await keyChain.resolveGroupKey(String(ownerGroup), String(instance[attrs.ownerKeyVersion] ?? ""));
+  }
+  return resolveSessionKey(keyChain, instance, typeModel, onSessionKeyResolved);
+}
+
 function convertDbToJsType(
   type: string,
   decryptedValue: string | Uint8Array | null
@@ -137,7 +158,7 @@ export type OnDecryptFallback = (valueId: string, used128BitSessionKey: true) =>
 /**
  * Decrypt an encrypted instance: for each encrypted value, aesDecrypt with session key
  * then convert by value type. Tries full session key first, then 128-bit session key on failure.
- * Non-encrypted values are copied through.
+ * Non-encrypted values are copied through. Aggregations are decrypted recursively with the same session key.
  * If onDecryptFailure is provided, it is called when both attempts throw.
  * If onDecryptFallback is provided, it is called when the first attempt threw and the 128-bit retry succeeded.
  */
@@ -196,7 +217,7 @@ export function decryptParsedInstance(
       if (valueInfoTyped.type === ValueType.Bytes) {
         result[valueIdStr] = decryptedBytes;
       } else if (valueInfoTyped.type === ValueType.CompressedString) {
-        result[valueIdStr] = utf8Uint8ArrayToString(decryptedBytes);
+        result[valueIdStr] = decompressString(decryptedBytes);
       } else {
         result[valueIdStr] = convertDbToJsType(
           valueInfoTyped.type,
@@ -208,9 +229,29 @@ export function decryptParsedInstance(
       result[valueIdStr] = valueToDefault(valueInfoTyped.type);
     }
   }
-  // Copy through association ids and any other keys not in values (e.g. 443 = mailSets)
+  // Aggregates are encrypted with the parent's session key; decrypt them in place, keeping the server's list shape.
+  const aggregationIds = new Set<string>();
+  for (const [associationIdStr, association] of Object.entries(typeModel.associations ?? {})) {
+    if (association.type !== AssociationType.Aggregation) continue;
+    aggregationIds.add(associationIdStr);
+    const decryptAggregate = (aggregate: unknown): unknown =>
+      aggregate != null && typeof aggregate === "object" && !Array.isArray(aggregate)
+        ? decryptParsedInstance(
+            association.refType(),
+            aggregate as ServerInstance,
+            sessionKey,
+            onDecryptFailure,
+            onDecryptFallback
+          )
+        : aggregate;
+    const aggregateValue = encryptedInstance[associationIdStr];
+    result[associationIdStr] = Array.isArray(aggregateValue)
+      ? aggregateValue.map(decryptAggregate)
+      : decryptAggregate(aggregateValue);
+  }
+  // Copy through association ids and any other keys not in values (e.g. 1308 = mailDetails)
   for (const k of Object.keys(encryptedInstance)) {
-    if (!(k in typeModel.values)) {
+    if (!(k in typeModel.values) && !aggregationIds.has(k)) {
       result[k] = encryptedInstance[k];
     }
   }
@@ -0,0 +1,205 @@
+/**
+ * Typed entities produced by decodeInstance (attribute names as in typeModels.ts).
+ * Values that are encrypted are never null after decryption (failures decode to defaults); unencrypted values are
+ * null when the server did not send them. Numbers, dates and booleans are converted; ids stay strings / IdTuples.
+ */
+
+/** [listId, elementId] of a list element (or [archiveId, blobId] of a blob element). */
+export type IdTuple = [string, string];
+
+export interface GroupKeysRef {
+  _id: string | null;
+  list: string | null;
+}
+
+export interface KeyPair {
+  _id: string | null;
+  pubRsaKey: Uint8Array | null;
+  symEncPrivRsaKey: Uint8Array | null;
+  pubEccKey: Uint8Array | null;
+  symEncPrivEccKey: Uint8Array | null;
+  pubKyberKey: Uint8Array | null;
+  symEncPrivKyberKey: Uint8Array | null;
+}
+
+export interface Group {
+  _id: string | null;
+  groupKeyVersion: number | null;
+  currentKeys: KeyPair | null;
+  formerGroupKeys: GroupKeysRef | null;
+}
+
+export interface GroupKey {
+  _id: IdTuple | null;
+  ownerEncGKey: Uint8Array | null;
+  /** Key pair of this former version, encrypted with the group key of the same version. */
+  keyPair: KeyPair | null;
+}
+
+export interface UserAuthentication {
+  _id: string | null;
+  /** List id of the user's Session list. */
+  sessions: string | null;
+}
+
+export interface Session {
+  _id: IdTuple | null;
+  _ownerGroup: string | null;
+  clientIdentifier: string;
+  loginTime: Date | null;
+  loginIpAddress: string;
+  lastAccessTime: Date;
+  /** SessionState: 0 active, 1 expired, 2 deleted, 3 pending (second factor). */
+  state: number | null;
+  user: string | null;
+}
+
+export interface MailboxGroupRoot {
+  _id: string | null;
+  _ownerGroup: string | null;
+  mailbox: string | null;
+}
+
+export interface MailSetRef {
+  _id: string | null;
+  mailSets: string | null;
+}
+
+export interface MailBox {
+  _id: string | null;
+  _ownerGroup: string | null;
+  _ownerKeyVersion: number | null;
+  lastInfoVersion: Date | null;
+  mailSets: MailSetRef | null;
+}
+
+export interface MailSet {
+  _id: IdTuple | null;
+  _ownerGroup: string | null;
+  _ownerKeyVersion: number | null;
+  name: string;
+  folderType: number | null;
+  color: string;
+  /** List id of the folder's MailSetEntry list. */
+  entries: string | null;
+}
+
+export interface MailSetEntry {
+  _id: IdTuple | null;
+  mail: IdTuple | null;
+}
+
+export interface MailAddress {
+  _id: string | null;
+  name: string;
+  address: string | null;
+}
+
+export interface EncryptedMailAddress {
+  _id: string | null;
+  name: string;
+  address: string;
+}
+
+export interface InstanceSessionKey {
+  _id: string | null;
+  instanceList: string | null;
+  instanceId: string | null;
+  symEncSessionKey: Uint8Array | null;
+}
+
+export interface BucketKey {
+  _id: string | null;
+  pubEncBucketKey: Uint8Array | null;
+  groupEncBucketKey: Uint8Array | null;
+  /** CryptoProtocolVersion: 0 RSA, 1 symmetric (groupEncBucketKey), 2 TutaCrypt (x25519 + Kyber). */
+  protocolVersion: number | null;
+  recipientKeyVersion: number | null;
+  senderKeyVersion: number | null;
+  /** Group whose key pair (or group key) encrypts the bucket key. */
+  keyGroup: string | null;
+  bucketEncSessionKeys: InstanceSessionKey[];
+}
+
+export interface Mail {
+  _id: IdTuple | null;
+  _ownerGroup: string | null;
+  _ownerKeyVersion: number | null;
+  subject: string;
+  receivedDate: Date | null;
+  state: number | null;
+  unread: boolean | null;
+  confidential: boolean;
+  replyType: number;
+  differentEnvelopeSender: string;
+  listUnsubscribe: boolean;
+  movedTime: Date | null;
+  phishingStatus: number | null;
+  authStatus: number | null;
+  method: number;
+  recipientCount: number | null;
+  encryptionAuthStatus: number;
+  keyVerificationState: number;
+  processingState: number | null;
+  processNeeded: boolean | null;
+  sendAt: Date | null;
+  sender: MailAddress | null;
+  attachments: IdTuple[];
+  conversationEntry: IdTuple | null;
+  /** [archiveId, blobElementId] of the MailDetailsBlob; null for drafts. */
+  mailDetails: IdTuple | null;
+  /** Set on received mail until the owner session keys are written back. */
+  bucketKey: BucketKey | null;
+}
+
+export interface ConversationEntry {
+  _id: IdTuple | null;
+  messageId: string | null;
+  conversationType: number | null;
+  previous: IdTuple | null;
+}
+
+export interface Recipients {
+  _id: string | null;
+  toRecipients: MailAddress[];
+  ccRecipients: MailAddress[];
+  bccRecipients: MailAddress[];
+}
+
+export interface Body {
+  _id: string | null;
+  text: string;
+  compressedText: string;
+}
+
+export interface MailDetails {
+  _id: string | null;
+  sentDate: Date | null;
+  authStatus: number | null;
+  replyTos: EncryptedMailAddress[];
+  recipients: Recipients | null;
+  body: Body | null;
+}
+
+export interface MailDetailsBlob {
+  _id: IdTuple | null;
+  details: MailDetails | null;
+}
+
+export interface Blob {
+  _id: string | null;
+  archiveId: string | null;
+  blobId: string | null;
+  size: number | null;
+}
+
+export interface File {
+  _id: IdTuple | null;
+  _ownerGroup: string | null;
+  _ownerKeyVersion: number | null;
+  name: string;
+  size: number | null;
+  mimeType: string;
+  cid: string;
+  blobs: Blob[];
+}
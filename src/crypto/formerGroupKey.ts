@@ -1,20 +1,25 @@
 /**
  * Load a former group key by version (from Group.formerGroupKeys).
- * Used when instance._ownerKeyVersion is less than the current group key version.
+ * Used when instance._ownerKeyVersion is less than the current group key version; the key chain calls it through
+ * formerKeyLoader (KeyChain.resolveGroupKey). Former key pairs (for bucket keys of older received mail) are in the
+ * same list, see loadFormerKeyPair.
  */
 
 import { decryptKey } from "@tutao/tutanota-crypto";
-import { base64ToBase64Url, stringToUtf8Uint8Array, uint8ArrayToBase64 } from "@tutao/tutanota-utils";
-import type { AesKey } from "../auth/kdf.js";
-import { toUint8Array, unwrapSingleElementArray } from "../utils/bytes.js";
-import type { KeyChain } from "./keyChain.js";
 import {
-  GROUP,
-  GROUP_ATTR_FORMER_GROUP_KEYS,
-  GROUP_KEY,
-  GROUP_KEY_ATTR_OWNER_ENC_GKEY,
-} from "./typeModels.js";
-import type { TypeModel } from "./typeModels.js";
+  base64ToBase64Url,
+  base64ToUint8Array,
+  base64UrlToBase64,
+  stringToUtf8Uint8Array,
+  uint8ArrayToBase64,
+  utf8Uint8ArrayToString,
+} from "@tutao/tutanota-utils";
+import type { AesKey } from "../auth/kdf.js";
+import { decodeInstance } from "./decodeInstance.js";
+import type { Group, GroupKey, KeyPair } from "./entities.js";
+import type { FormerKeyLoader, KeyChain } from "./keyChain.js";
+import { GROUP, GROUP_KEY } from "./typeModels.js";
+import type { TypeModel } from "./typeModel.js";
 
 type LoadEntityFn = <T = Record<string, unknown>>(
   baseUrl: string,
@@ -33,13 +38,17 @@ function stringToCustomId(s: string): string {
   return base64ToBase64Url(uint8ArrayToBase64(stringToUtf8Uint8Array(s)));
 }
 
+function customIdToString(id: string): string {
+  return utf8Uint8ArrayToString(base64ToUint8Array(base64UrlToBase64(id)));
+}
+
 /**
  * Load the group key for the given version by walking the former-key chain.
- * Requires current key to be in the key chain (from membership).
+ * Requires the key of currentKeyVersion to be in the key chain; every key decrypted on the way is added to it.
  *
- * @param keyChain - must already have the current group key for groupId
- * @param groupId - group id (e.g. mail group id)
- * @param currentKeyVersion - current version (e.g. from membership.groupKeyVersion)
+ * @param keyChain - must already have the group key of currentKeyVersion for groupId
+ * @param groupId - group id (e.g. mail group id or user group id)
+ * @param currentKeyVersion - version to start from (e.g. membership.groupKeyVersion, or any newer version held)
  * @param targetKeyVersion - requested version (e.g. instance._ownerKeyVersion "0")
  * @returns the key for targetKeyVersion, or null if not found
  */
@@ -63,13 +72,8 @@ export async function loadFormerGroupKey(
   const groupRaw = await loadEntity<Record<string, unknown>>(baseUrl, GROUP, groupId, {
     accessToken,
   });
-  const formerRef = groupRaw[GROUP_ATTR_FORMER_GROUP_KEYS];
-  if (formerRef == null) return null;
-  const refList = unwrapSingleElementArray(formerRef);
-  if (refList == null || typeof refList !== "object" || Array.isArray(refList)) return null;
-  const listAttr = (refList as Record<string, unknown>)["2269"];
-  const listId = Array.isArray(listAttr) ? listAttr[0] : listAttr;
-  if (listId == null || typeof listId !== "string") return null;
+  const listId = decodeInstance<Group>(GROUP, groupRaw).formerGroupKeys?.list;
+  if (listId == null) return null;
 
   const startId = stringToCustomId(String(currentVer));
   const count = currentVer - targetVer;
@@ -81,20 +85,52 @@ export async function loadFormerGroupKey(
   });
 
   for (const item of formerKeysRaw) {
-    const ownerEncGKey = item[GROUP_KEY_ATTR_OWNER_ENC_GKEY];
-    if (ownerEncGKey == null) continue;
-    const encBytes = toUint8Array(ownerEncGKey);
-    if (encBytes.length === 0) continue;
+    const formerKey = decodeInstance<GroupKey>(GROUP_KEY, item);
+    const encBytes = formerKey.ownerEncGKey;
+    if (encBytes == null || encBytes.length === 0) continue;
     try {
       currentKey = decryptKey(currentKey, encBytes);
     } catch {
       return null;
     }
+    if (formerKey._id != null) {
+      keyChain.addGroupKey(groupId, customIdToString(formerKey._id[1]), currentKey);
+    }
   }
 
   return currentKey;
 }
 
+/**
+ * The key pair of a former key version of a group (GroupKey.keyPair in Group.formerGroupKeys), still encrypted with
+ * the group key of that version (KeyChain.resolveGroupKey). Null when the group has no former keys or that version
+ * has no key pair.
+ */
+export async function loadFormerKeyPair(
+  baseUrl: string,
+  accessToken: string,
+  loadEntity: LoadEntityFn,
+  group: Group,
+  keyVersion: string
+): Promise<KeyPair | null> {
+  const listId = group.formerGroupKeys?.list;
+  if (listId == null) return null;
+  const elementId = stringToCustomId(String(parseKeyVersion(keyVersion)));
+  const raw = await loadEntity<Record<string, unknown>>(baseUrl, GROUP_KEY, [listId, elementId], { accessToken });
+  return decodeInstance<GroupKey>(GROUP_KEY, raw).keyPair;
+}
+
+/** FormerKeyLoader for the key chain that loads former keys from the server with loadFormerGroupKey. */
+export function formerKeyLoader(
+  baseUrl: string,
+  accessToken: string,
+  loadEntity: LoadEntityFn,
+  loadRange: LoadRangeFn
+): FormerKeyLoader {
+  return (keyChain, groupId, fromKeyVersion, targetKeyVersion) =>
+    loadFormerGroupKey(baseUrl, accessToken, keyChain, loadEntity, loadRange, groupId, fromKeyVersion, targetKeyVersion);
+}
+
 function parseKeyVersion(s: string): number {
   const n = Number(s);
   if (!Number.isInteger(n) || n < 0) throw new Error("Invalid key version: " + s);
@@ -0,0 +1,170 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { encryptKey, keyToUint8Array, random, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { base64ToBase64Url, stringToUtf8Uint8Array, uint8ArrayToBase64 } from "@tutao/tutanota-utils";
+import type { AesKey } from "../auth/kdf.js";
+import type { UserKeyMaterial } from "../auth/userKeyMaterial.js";
+import { formerKeyLoader } from "./formerGroupKey.js";
+import { createKeyChain, createKeyChainFromGroupKeys, type FormerKeyLoader } from "./keyChain.js";
+
+type LoadEntityFn = Parameters<typeof formerKeyLoader>[2];
+type LoadRangeFn = Parameters<typeof formerKeyLoader>[3];
+
+function newKey(): AesKey {
+  return uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+}
+
+function customId(s: string): string {
+  return base64ToBase64Url(uint8ArrayToBase64(stringToUtf8Uint8Array(s)));
+}
+
+function sameKey(actual: AesKey | null, expected: AesKey): void {
+  assert.ok(actual != null);
+  assert.deepEqual(keyToUint8Array(actual), keyToUint8Array(expected));
+}
+
+/**
+ * Server side of groups whose keys were rotated: keys[v] is the key of version v, the last one is current.
+ * Former keys are GroupKey list elements (element id = version) encrypted with the next newer key.
+ */
+class RotatedGroups {
+  readonly keys = new Map<string, AesKey[]>();
+  rangeRequests = 0;
+
+  rotate(groupId: string, rotations: number): AesKey[] {
+    const keys = Array.from({ length: rotations + 1 }, newKey);
+    this.keys.set(groupId, keys);
+    return keys;
+  }
+
+  readonly loadEntity = (async (_baseUrl: string, _typeModel: unknown, id: string | [string, string]) => {
+    if (!this.keys.has(String(id))) throw new Error("404 " + String(id));
+    return { "7": id, "2273": [{ "2268": "ref", "2269": "formerKeys-" + String(id) }] };
+  }) as LoadEntityFn;
+
+  readonly loadRange = (async (
+    _baseUrl: string,
+    _typeModel: unknown,
+    listId: string,
+    options: { start: string; count: number; reverse: boolean }
+  ) => {
+    this.rangeRequests++;
+    const keys = this.keys.get(listId.replace(/^formerKeys-/, "")) ?? [];
+    const start = keys.findIndex((_, v) => customId(String(v)) === options.start);
+    const versions = Array.from({ length: Math.max(start, 0) }, (_, i) => start - 1 - i).slice(0, options.count);
+    return versions.map((v) => ({ "2257": [listId, customId(String(v))], "2261": uint8ArrayToBase64(encryptKey(keys[v + 1], keys[v])) }));
+  }) as LoadRangeFn;
+
+  loader(): FormerKeyLoader {
+    return formerKeyLoader("https://api.example", "at", this.loadEntity, this.loadRange);
+  }
+}
+
+describe("keyChain", () => {
+  random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+  const passphraseKey = newKey();
+
+  /** User group at its current version; each membership encrypted with the user group key of symKeyVersion. */
+  function keyMaterial(
+    userKeys: AesKey[],
+    memberships: { group: string; groupType: string; keys: AesKey[]; symKeyVersion: number }[]
+  ): UserKeyMaterial {
+    const current = userKeys.length - 1;
+    return {
+      userGroup: {
+        symEncGKey: encryptKey(passphraseKey, userKeys[current]),
+        groupKeyVersion: String(current),
+        symKeyVersion: "0",
+        group: "user-group",
+      },
+      memberships: memberships.map((m) => ({
+        symEncGKey: encryptKey(userKeys[m.symKeyVersion], m.keys[m.keys.length - 1]),
+        groupKeyVersion: String(m.keys.length - 1),
+        symKeyVersion: String(m.symKeyVersion),
+        group: m.group,
+        groupType: m.groupType,
+        groupInfo: null,
+      })),
+    };
+  }
+
+  test("unlocks mail memberships of the current user group key right away", () => {
+    const userKeys = [newKey(), newKey()];
+    const mailKeys = [newKey()];
+    const keyChain = createKeyChain(
+      passphraseKey,
+      keyMaterial(userKeys, [{ group: "mail-group", groupType: "5", keys: mailKeys, symKeyVersion: 1 }])
+    );
+    sameKey(keyChain.getGroupKey("user-group", "1"), userKeys[1]);
+    sameKey(keyChain.getGroupKey("mail-group", "0"), mailKeys[0]);
+    assert.equal(keyChain.getGroupKey("user-group", "0"), null);
+  });
+
+  test("resolves any version after several rotations of the user and mail group", async () => {
+    const server = new RotatedGroups();
+    const userKeys = server.rotate("user-group", 3);
+    const mailKeys = server.rotate("mail-group", 4);
+    const customerKeys = server.rotate("customer-group", 0);
+    const keyChain = createKeyChain(
+      passphraseKey,
+      keyMaterial(userKeys, [
+        // Rotated after the user group key it is encrypted with: needs former user group key 1.
+        { group: "mail-group", groupType: "5", keys: mailKeys, symKeyVersion: 1 },
+        { group: "customer-group", groupType: "3", keys: customerKeys, symKeyVersion: 3 },
+      ]),
+      server.loader()
+    );
+    assert.equal(keyChain.getGroupKey("mail-group", "4"), null);
+
+    sameKey(await keyChain.resolveGroupKey("mail-group", "4"), mailKeys[4]);
+    sameKey(keyChain.getGroupKey("user-group", "1"), userKeys[1]);
+    // The walk from version 3 to 1 keeps version 2 too.
+    sameKey(keyChain.getGroupKey("user-group", "2"), userKeys[2]);
+    assert.equal(server.rangeRequests, 1);
+
+    sameKey(await keyChain.resolveGroupKey("mail-group", "1"), mailKeys[1]);
+    sameKey(await keyChain.resolveGroupKey("mail-group", "3"), mailKeys[3]);
+    sameKey(await keyChain.resolveGroupKey("mail-group", "0"), mailKeys[0]);
+    sameKey(await keyChain.resolveGroupKey("user-group", "0"), userKeys[0]);
+    sameKey(await keyChain.resolveGroupKey("customer-group", "0"), customerKeys[0]);
+    assert.equal(server.rangeRequests, 4);
+
+    assert.equal(await keyChain.resolveGroupKey("mail-group", "5"), null);
+    assert.equal(await keyChain.resolveGroupKey("other-group", "0"), null);
+  });
+
+  test("concurrent lookups of a version share one walk", async () => {
+    const server = new RotatedGroups();
+    const userKeys = server.rotate("user-group", 2);
+    const keyChain = createKeyChain(passphraseKey, keyMaterial(userKeys, []), server.loader());
+    const keys = await Promise.all([1, 2, 3].map(() => keyChain.resolveGroupKey("user-group", "0")));
+    for (const key of keys) sameKey(key, userKeys[0]);
+    assert.equal(server.rangeRequests, 1);
+  });
+
+  test("without a former key loader only unlocked keys and memberships resolve", async () => {
+    const userKeys = [newKey(), newKey()];
+    const mailKeys = [newKey(), newKey()];
+    const keyChain = createKeyChain(
+      passphraseKey,
+      keyMaterial(userKeys, [{ group: "mail-group", groupType: "5", keys: mailKeys, symKeyVersion: 1 }])
+    );
+    sameKey(await keyChain.resolveGroupKey("mail-group", "1"), mailKeys[1]);
+    assert.equal(await keyChain.resolveGroupKey("mail-group", "0"), null);
+    assert.equal(await keyChain.resolveGroupKey("user-group", "0"), null);
+  });
+
+  test("a key chain from unlocked group keys resolves former versions with a loader", async () => {
+    const server = new RotatedGroups();
+    const mailKeys = server.rotate("mail-group", 3);
+    const keyChain = createKeyChainFromGroupKeys(
+      [{ groupId: "mail-group", keyVersion: "3", key: mailKeys[3] }],
+      server.loader()
+    );
+    sameKey(await keyChain.resolveGroupKey("mail-group", "1"), mailKeys[1]);
+    // Starts from the closest newer version held (1), not the current one.
+    sameKey(await keyChain.resolveGroupKey("mail-group", "0"), mailKeys[0]);
+    assert.equal(server.rangeRequests, 2);
+  });
+});
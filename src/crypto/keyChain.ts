@@ -1,5 +1,5 @@
 /**
- * Minimal key chain: unlock user group key from passphrase, derive mail group key from membership.
+ * Minimal key chain: unlock user group key from passphrase, derive mail group keys from memberships.
  * Uses only @tutao/tutanota-crypto (decryptKey, keyToUint8Array, uint8ArrayToKey). No dependency on main app facades.
  *
  * Key derivation and legacy compatibility:
@@ -11,13 +11,18 @@
  *   same 128-bit mail group key as the client.
  * - When decrypting the mail membership we also try 128-bit user group key first if we have
  *   256-bit, for accounts where the server encrypted the mail group key with 128-bit user key.
+ *
+ * Key versions (key rotation): every key is held per (group, version). Keys that are not unlocked up front are
+ * resolved on demand by resolveGroupKey: a membership's group key from the user group key of the membership's
+ * symKeyVersion (which may be a former user group key), and older versions of any group from a newer one of the
+ * same group through its former keys (FormerKeyLoader, see formerGroupKey.ts).
  */
 
-import { decryptKey, keyToUint8Array, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { type AsymmetricKeyPair, decryptKey, keyToUint8Array, uint8ArrayToKey } from "@tutao/tutanota-crypto";
 import type { AesKey } from "../auth/kdf.js";
-import type { UserKeyMaterial } from "../auth/userKeyMaterial.js";
-import { getMailMembership } from "../auth/userKeyMaterial.js";
-import { log } from "../logger.js";
+import type { GroupMembershipKeyMaterial, UserKeyMaterial } from "../auth/userKeyMaterial.js";
+import { getMailMemberships } from "../auth/userKeyMaterial.js";
+import { getErrorMessage, log } from "../logger.js";
 
 export interface KeyChain {
   getGroupKey(groupId: string, keyVersion: string): AesKey | null;
@@ -25,12 +30,33 @@ export interface KeyChain {
   addGroupKey(groupId: string, keyVersion: string, key: AesKey): void;
   /** Return all key versions currently available for a group (for retrying decryption with alternate versions). */
   getAvailableKeyVersions(groupId: string): string[];
+  /** Unlocked key pair of a group for a key version (see bucketKey.ts), or null if it was not unlocked yet. */
+  getKeyPair(groupId: string, keyVersion: string): AsymmetricKeyPair | null;
+  /** Remember a key pair decrypted with the group key of the same version. */
+  addKeyPair(groupId: string, keyVersion: string, keyPair: AsymmetricKeyPair): void;
+  /**
+   * Group key of any version, unlocking it on demand (membership via its symKeyVersion, former keys via the
+   * FormerKeyLoader) and adding it to the chain. Null when it cannot be reached.
+   */
+  resolveGroupKey(groupId: string, keyVersion: string): Promise<AesKey | null>;
 }
 
-/** Per-group: current version and a map of version -> key (current + any former keys added). */
+/**
+ * Loads the key of an older version of a group, starting from a newer version the key chain already holds
+ * (see formerKeyLoader in formerGroupKey.ts). Returns null when the former key is not found.
+ */
+export type FormerKeyLoader = (
+  keyChain: KeyChain,
+  groupId: string,
+  fromKeyVersion: string,
+  targetKeyVersion: string
+) => Promise<AesKey | null>;
+
+/** Per-group: current version, a map of version -> key (current + any former keys added) and unlocked key pairs. */
 interface GroupKeyEntry {
   currentVersion: string;
   keys: Map<string, AesKey>;
+  keyPairs: Map<string, AsymmetricKeyPair>;
 }
 
 /**
@@ -56,10 +82,13 @@ function decryptWith128BitFallback(
 /**
  * Build a key chain from user passphrase key and parsed user key material.
  * Call unlockUserGroupKey then use getGroupKey(ownerGroup, ownerKeyVersion) for entity decryption.
+ * Mail memberships encrypted with the current user group key are unlocked right away; every other (group, version)
+ * is left to resolveGroupKey, which needs loadFormerKey for former keys.
  */
 export function createKeyChain(
   userPassphraseKey: AesKey,
-  userKeyMaterial: UserKeyMaterial
+  userKeyMaterial: UserKeyMaterial,
+  loadFormerKey: FormerKeyLoader | null = null
 ): KeyChain {
   const userGroupKey = decryptWith128BitFallback(
     userPassphraseKey,
@@ -72,46 +101,172 @@ export function createKeyChain(
   const cache = new Map<string, GroupKeyEntry>();
   const userKeys = new Map<string, AesKey>();
   userKeys.set(userGroupVersion, userGroupKey);
-  cache.set(userGroupId, { currentVersion: userGroupVersion, keys: userKeys });
-
-  const mailMembership = getMailMembership(userKeyMaterial);
-  if (mailMembership != null) {
-    const mailGroupKey = decryptWith128BitFallback(
-      userGroupKey,
-      mailMembership.symEncGKey,
-      "mail group"
-    );
+  cache.set(userGroupId, { currentVersion: userGroupVersion, keys: userKeys, keyPairs: new Map() });
+
+  // Personal mailbox first; a shared mailbox whose key does not decrypt is skipped instead of failing every command.
+  getMailMemberships(userKeyMaterial).forEach((mailMembership, index) => {
+    if (mailMembership.symKeyVersion !== userGroupVersion) {
+      log(
+        `Key chain: mail group ${mailMembership.group} is encrypted with user group key version ` +
+          `${mailMembership.symKeyVersion} (current ${userGroupVersion}); unlocking it when needed.`
+      );
+      return;
+    }
+    let mailGroupKey: AesKey;
+    try {
+      mailGroupKey = decryptWith128BitFallback(userGroupKey, mailMembership.symEncGKey, "mail group");
+    } catch (err) {
+      if (index === 0) throw err;
+      log(`Key chain: could not unlock mail group ${mailMembership.group}: ${getErrorMessage(err)}`);
+      return;
+    }
     const userLen = keyToUint8Array(userGroupKey).length;
     const mailLen = keyToUint8Array(mailGroupKey).length;
-    log(`Key chain: user group ${userLen} bytes, mail group ${mailLen} bytes (${mailLen === 16 ? "128-bit" : "256-bit"}).`);
+    log(
+      `Key chain: user group ${userLen} bytes, mail group ${mailMembership.group} ${mailLen} bytes ` +
+        `(${mailLen === 16 ? "128-bit" : "256-bit"}).`
+    );
     const mailKeys = new Map<string, AesKey>();
     mailKeys.set(mailMembership.groupKeyVersion, mailGroupKey);
     cache.set(mailMembership.group, {
       currentVersion: mailMembership.groupKeyVersion,
       keys: mailKeys,
+      keyPairs: new Map(),
     });
+  });
+
+  return keyChainFromCache(cache, userGroupId, userKeyMaterial.memberships, loadFormerKey);
+}
+
+function keyChainFromCache(
+  cache: Map<string, GroupKeyEntry>,
+  userGroupId: string | null,
+  memberships: GroupMembershipKeyMaterial[],
+  loadFormerKey: FormerKeyLoader | null
+): KeyChain {
+  const membershipsByGroup = new Map(memberships.map((m) => [m.group, m]));
+  /** Resolutions in progress by "group/version", so concurrent lookups share one unlock or former-key walk. */
+  const resolving = new Map<string, Promise<AesKey | null>>();
+
+  function entryOf(groupId: string, keyVersion: string): GroupKeyEntry {
+    let entry = cache.get(groupId);
+    if (entry == null) {
+      entry = { currentVersion: keyVersion, keys: new Map(), keyPairs: new Map() };
+      cache.set(groupId, entry);
+    }
+    return entry;
   }
 
-  return {
+  /** A membership's group key, decrypted with the user group key of the membership's symKeyVersion. */
+  async function unlockMembership(membership: GroupMembershipKeyMaterial): Promise<AesKey | null> {
+    if (userGroupId == null) return null;
+    const userGroupKey = await keyChain.resolveGroupKey(userGroupId, membership.symKeyVersion);
+    if (userGroupKey == null) {
+      log(`Key chain: no user group key version ${membership.symKeyVersion} for group ${membership.group}.`);
+      return null;
+    }
+    try {
+      return decryptWith128BitFallback(userGroupKey, membership.symEncGKey, "membership");
+    } catch (err) {
+      log(`Key chain: could not unlock group ${membership.group}: ${getErrorMessage(err)}`);
+      return null;
+    }
+  }
+
+  /** An older key of a group from the closest newer version the chain holds (unlocking the membership first). */
+  async function loadOlderKey(groupId: string, keyVersion: string): Promise<AesKey | null> {
+    if (loadFormerKey == null || !/^\d+$/.test(keyVersion)) return null;
+    const target = Number(keyVersion);
+    const membership = membershipsByGroup.get(groupId);
+    if (membership != null && Number(membership.groupKeyVersion) > target) {
+      await keyChain.resolveGroupKey(groupId, membership.groupKeyVersion);
+    }
+    const newer = keyChain
+      .getAvailableKeyVersions(groupId)
+      .map(Number)
+      .filter((v) => v > target)
+      .sort((a, b) => a - b)[0];
+    if (newer == null) return null;
+    return loadFormerKey(keyChain, groupId, String(newer), keyVersion);
+  }
+
+  async function resolve(groupId: string, keyVersion: string): Promise<AesKey | null> {
+    const membership = membershipsByGroup.get(groupId);
+    const key =
+      membership != null && membership.groupKeyVersion === keyVersion
+        ? await unlockMembership(membership)
+        : await loadOlderKey(groupId, keyVersion);
+    if (key != null) keyChain.addGroupKey(groupId, keyVersion, key);
+    return key;
+  }
+
+  const keyChain: KeyChain = {
     getGroupKey(groupId: string, keyVersion: string): AesKey | null {
       const entry = cache.get(groupId);
       if (entry == null) return null;
       return entry.keys.get(keyVersion) ?? null;
     },
     addGroupKey(groupId: string, keyVersion: string, key: AesKey): void {
-      let entry = cache.get(groupId);
-      if (entry == null) {
-        entry = { currentVersion: keyVersion, keys: new Map() };
-        cache.set(groupId, entry);
-      }
-      entry.keys.set(keyVersion, key);
+      entryOf(groupId, keyVersion).keys.set(keyVersion, key);
     },
     getAvailableKeyVersions(groupId: string): string[] {
       const entry = cache.get(groupId);
       if (entry == null) return [];
       return Array.from(entry.keys.keys());
     },
+    getKeyPair(groupId: string, keyVersion: string): AsymmetricKeyPair | null {
+      return cache.get(groupId)?.keyPairs.get(keyVersion) ?? null;
+    },
+    addKeyPair(groupId: string, keyVersion: string, keyPair: AsymmetricKeyPair): void {
+      entryOf(groupId, keyVersion).keyPairs.set(keyVersion, keyPair);
+    },
+    resolveGroupKey(groupId: string, keyVersion: string): Promise<AesKey | null> {
+      const known = keyChain.getGroupKey(groupId, keyVersion);
+      if (known != null) return Promise.resolve(known);
+      const id = groupId + "/" + keyVersion;
+      let pending = resolving.get(id);
+      if (pending == null) {
+        pending = resolve(groupId, keyVersion).finally(() => resolving.delete(id));
+        resolving.set(id, pending);
+      }
+      return pending;
+    },
   };
+  return keyChain;
+}
+
+/** One unlocked group key, e.g. as handed out by the agent. */
+export interface UnlockedGroupKey {
+  groupId: string;
+  keyVersion: string;
+  key: AesKey;
+}
+
+/** All keys the key chain holds for these groups (every available version). */
+export function exportGroupKeys(keyChain: KeyChain, groupIds: string[]): UnlockedGroupKey[] {
+  const keys: UnlockedGroupKey[] = [];
+  for (const groupId of new Set(groupIds)) {
+    for (const keyVersion of keyChain.getAvailableKeyVersions(groupId)) {
+      const key = keyChain.getGroupKey(groupId, keyVersion);
+      if (key != null) keys.push({ groupId, keyVersion, key });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Key chain from already unlocked group keys (exportGroupKeys); the first key of a group is its current one.
+ * With loadFormerKey, older versions of these groups are resolved on demand.
+ */
+export function createKeyChainFromGroupKeys(
+  groupKeys: UnlockedGroupKey[],
+  loadFormerKey: FormerKeyLoader | null = null
+): KeyChain {
+  const keyChain = keyChainFromCache(new Map(), null, [], loadFormerKey);
+  for (const { groupId, keyVersion, key } of groupKeys) {
+    keyChain.addGroupKey(groupId, keyVersion, key);
+  }
+  return keyChain;
 }
 
 /**
@@ -120,7 +275,8 @@ export function createKeyChain(
  */
 export function unlockUserGroupKey(
   userPassphraseKey: AesKey,
-  userKeyMaterial: UserKeyMaterial
+  userKeyMaterial: UserKeyMaterial,
+  loadFormerKey: FormerKeyLoader | null = null
 ): KeyChain {
-  return createKeyChain(userPassphraseKey, userKeyMaterial);
+  return createKeyChain(userPassphraseKey, userKeyMaterial, loadFormerKey);
 }
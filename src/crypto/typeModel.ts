@@ -0,0 +1,95 @@
+/**
+ * Shape of a type model (see typeModels.ts): values and associations by attribute id, with names and types
+ * as in the main app's sys/tutanota TypeModels.
+ */
+
+/** Kind of a type: root types are loaded by id (list elements as <listId>/<elementId>), aggregates only inside them. */
+export const TypeKind = {
+  Element: "Element",
+  ListElement: "ListElement",
+  BlobElement: "BlobElement",
+  Aggregated: "Aggregated",
+  DataTransfer: "DataTransfer",
+} as const;
+
+export type TypeKindName = (typeof TypeKind)[keyof typeof TypeKind];
+
+export const ValueType = {
+  String: "String",
+  Number: "Number",
+  Date: "Date",
+  Boolean: "Boolean",
+  Bytes: "Bytes",
+  CompressedString: "CompressedString",
+} as const;
+
+export type ValueTypeName = (typeof ValueType)[keyof typeof ValueType];
+
+export interface ValueModel {
+  id: number;
+  name: string;
+  type: ValueTypeName;
+  encrypted: boolean;
+}
+
+export const AssociationType = {
+  Aggregation: "Aggregation",
+  ElementAssociation: "ElementAssociation",
+  ListAssociation: "ListAssociation",
+  ListElementAssociation: "ListElementAssociation",
+  BlobElementAssociation: "BlobElementAssociation",
+} as const;
+
+export type AssociationTypeName = (typeof AssociationType)[keyof typeof AssociationType];
+
+export const Cardinality = {
+  One: "One",
+  ZeroOrOne: "ZeroOrOne",
+  Any: "Any",
+} as const;
+
+export type CardinalityName = (typeof Cardinality)[keyof typeof Cardinality];
+
+export interface AssociationModel {
+  id: number;
+  name: string;
+  type: AssociationTypeName;
+  cardinality: CardinalityName;
+  /** Referenced type; a function so models can refer to types declared further down. */
+  refType: () => TypeModel;
+}
+
+export interface TypeModel {
+  app: string;
+  name: string;
+  type: TypeKindName;
+  version: number;
+  encrypted: boolean;
+  values: Record<string, ValueModel>;
+  /** Associations by attribute id. Aggregations are decrypted recursively; other associations are ids, copied as is. */
+  associations?: Record<string, AssociationModel>;
+}
+
+/** Attribute id of a value or association by name; throws if the model does not have it. */
+export function attributeId(typeModel: TypeModel, name: string): string {
+  const attribute = [...Object.values(typeModel.values), ...Object.values(typeModel.associations ?? {})].find(
+    (a) => a.name === name
+  );
+  if (attribute == null) {
+    throw new Error(`${typeModel.name} has no attribute "${name}".`);
+  }
+  return String(attribute.id);
+}
+
+/** Attribute ids of the owner fields that resolve the session key of an encrypted root instance. */
+export function getOwnerAttrs(typeModel: TypeModel): {
+  ownerGroup: string;
+  ownerEncSessionKey: string;
+  ownerKeyVersion: string;
+} {
+  return {
+    ownerGroup: attributeId(typeModel, "_ownerGroup"),
+    ownerEncSessionKey: attributeId(typeModel, "_ownerEncSessionKey"),
+    ownerKeyVersion: attributeId(typeModel, "_ownerKeyVersion"),
+  };
+}
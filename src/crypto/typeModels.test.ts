@@ -1,6 +1,7 @@
 import { describe, test } from "node:test";
 import assert from "node:assert/strict";
-import { getOwnerAttrs, MAIL_SET, MAIL_BOX } from "./typeModels.js";
+import { getOwnerAttrs } from "./typeModel.js";
+import { FILE, MAIL_ADDRESS, MAIL_SET, MAIL_BOX } from "./typeModels.js";
 
 describe("typeModels", () => {
   describe("getOwnerAttrs", () => {
@@ -11,12 +12,23 @@ describe("typeModels", () => {
       assert.equal(attrs.ownerKeyVersion, "1399");
     });
 
-    test("returns default owner attrs for MAIL_BOX", () => {
+    test("returns File owner attrs for FILE", () => {
+      const attrs = getOwnerAttrs(FILE);
+      assert.equal(attrs.ownerGroup, "580");
+      assert.equal(attrs.ownerEncSessionKey, "581");
+      assert.equal(attrs.ownerKeyVersion, "1391");
+    });
+
+    test("returns MailBox owner attrs for MAIL_BOX", () => {
       const attrs = getOwnerAttrs(MAIL_BOX);
       assert.equal(attrs.ownerGroup, "590");
       assert.equal(attrs.ownerEncSessionKey, "591");
       assert.equal(attrs.ownerKeyVersion, "1396");
     });
+
+    test("throws for types without owner fields", () => {
+      assert.throws(() => getOwnerAttrs(MAIL_ADDRESS), /MailAddress has no attribute "_ownerGroup"/);
+    });
   });
 
   describe("MAIL_SET", () => {
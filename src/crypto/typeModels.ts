@@ -1,89 +1,205 @@
 /**
- * Minimal type model definitions for REST (path, version) and decryption (value id, type, encrypted).
- * Extracted from main app sys/tutanota TypeModels; only types and attributes we use.
+ * Type models for REST (path, version), decryption (value id, type, encrypted, aggregations) and decoding into
+ * named objects (attribute names, see decodeInstance.ts). Pinned at sys v143 and tutanota v102.
+ *
+ * A hand-extracted subset in the format written by src/tools/generateTypeModels.ts; regenerate it from the
+ * upstream TypeModels JSON (see README) when adding types or moving to a new model version.
  */
 
-export const ValueType = {
-  String: "String",
-  Number: "Number",
-  Date: "Date",
-  Boolean: "Boolean",
-  Bytes: "Bytes",
-  CompressedString: "CompressedString",
-} as const;
-
-export type ValueTypeName = (typeof ValueType)[keyof typeof ValueType];
-
-export interface ValueModel {
-  id: number;
-  type: ValueTypeName;
-  encrypted: boolean;
-}
-
-export interface TypeModel {
-  app: string;
-  name: string;
-  version: number;
-  encrypted: boolean;
-  values: Record<string, ValueModel>;
-}
-
-/** Group (sys): for loading formerGroupKeys list. Attribute 2273 = formerGroupKeys (aggregation ref with list id at 2269). */
+import type { TypeModel } from "./typeModel.js";
+
+/**
+ * Group (sys): current key version and key pair (currentKeys, for bucket keys of received mail) and the
+ * formerGroupKeys aggregation (GroupKeysRef), used to load former group keys.
+ */
 export const GROUP: TypeModel = {
   app: "sys",
   name: "Group",
+  type: "Element",
   version: 143,
   encrypted: false,
   values: {
-    "2273": { id: 2273, type: "Bytes", encrypted: false },
-    "2269": { id: 2269, type: "String", encrypted: false },
+    "7": { id: 7, name: "_id", type: "String", encrypted: false },
+    "2271": { id: 2271, name: "groupKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "2272": { id: 2272, name: "currentKeys", type: "Aggregation", cardinality: "ZeroOrOne", refType: () => KEY_PAIR },
+    "2273": { id: 2273, name: "formerGroupKeys", type: "Aggregation", cardinality: "ZeroOrOne", refType: () => GROUP_KEYS_REF },
+  },
+};
+
+/** KeyPair (sys aggregate of Group): public keys and private keys encrypted with the group key (RSA, x25519, Kyber). */
+export const KEY_PAIR: TypeModel = {
+  app: "sys",
+  name: "KeyPair",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "144": { id: 144, name: "_id", type: "String", encrypted: false },
+    "145": { id: 145, name: "pubRsaKey", type: "Bytes", encrypted: false },
+    "146": { id: 146, name: "symEncPrivRsaKey", type: "Bytes", encrypted: false },
+    "2144": { id: 2144, name: "pubEccKey", type: "Bytes", encrypted: false },
+    "2145": { id: 2145, name: "symEncPrivEccKey", type: "Bytes", encrypted: false },
+    "2146": { id: 2146, name: "pubKyberKey", type: "Bytes", encrypted: false },
+    "2147": { id: 2147, name: "symEncPrivKyberKey", type: "Bytes", encrypted: false },
+  },
+};
+
+/** GroupKeysRef (sys aggregate of Group): list id of the GroupKey list (2269). */
+export const GROUP_KEYS_REF: TypeModel = {
+  app: "sys",
+  name: "GroupKeysRef",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "2268": { id: 2268, name: "_id", type: "String", encrypted: false },
+  },
+  associations: {
+    "2269": { id: 2269, name: "list", type: "ListAssociation", cardinality: "One", refType: () => GROUP_KEY },
   },
 };
 
-/** GroupKey (sys): former key chain. Attribute 2261 = ownerEncGKey. Element id = key version (custom id). */
+/** GroupKey (sys): former key chain and the key pair of that version. Element id = key version (custom id). */
 export const GROUP_KEY: TypeModel = {
   app: "sys",
   name: "GroupKey",
+  type: "ListElement",
   version: 143,
   encrypted: false,
   values: {
-    "2261": { id: 2261, type: "Bytes", encrypted: false },
+    "2257": { id: 2257, name: "_id", type: "String", encrypted: false },
+    "2261": { id: 2261, name: "ownerEncGKey", type: "Bytes", encrypted: false },
+  },
+  associations: {
+    "2265": { id: 2265, name: "keyPair", type: "Aggregation", cardinality: "ZeroOrOne", refType: () => KEY_PAIR },
+  },
+};
+
+/** UserAuthentication (sys aggregate of User.auth): list id of the user's Session list. */
+export const USER_AUTHENTICATION: TypeModel = {
+  app: "sys",
+  name: "UserAuthentication",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "1207": { id: 1207, name: "_id", type: "String", encrypted: false },
+  },
+  associations: {
+    "1208": { id: 1208, name: "sessions", type: "ListAssociation", cardinality: "One", refType: () => SESSION },
+  },
+};
+
+/** Session (sys): encrypted with the user group key; client, IP address and last access time are encrypted. */
+export const SESSION: TypeModel = {
+  app: "sys",
+  name: "Session",
+  type: "ListElement",
+  version: 143,
+  encrypted: true,
+  values: {
+    "1193": { id: 1193, name: "_id", type: "String", encrypted: false },
+    "1194": { id: 1194, name: "_permissions", type: "String", encrypted: false },
+    "1195": { id: 1195, name: "_format", type: "Number", encrypted: false },
+    "1196": { id: 1196, name: "clientIdentifier", type: "String", encrypted: true },
+    "1197": { id: 1197, name: "loginTime", type: "Date", encrypted: false },
+    "1198": { id: 1198, name: "loginIpAddress", type: "String", encrypted: true },
+    "1199": { id: 1199, name: "lastAccessTime", type: "Date", encrypted: true },
+    "1200": { id: 1200, name: "accessKey", type: "Bytes", encrypted: false },
+    "1201": { id: 1201, name: "state", type: "Number", encrypted: false },
+    "1202": { id: 1202, name: "_ownerGroup", type: "String", encrypted: false },
+    "1203": { id: 1203, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "2279": { id: 2279, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "1205": { id: 1205, name: "user", type: "ElementAssociation", cardinality: "One", refType: () => USER },
+  },
+};
+
+/**
+ * GroupInfo (sys list element): the mail address of a group (unencrypted). The name is encrypted with the list
+ * key and not needed.
+ */
+export const GROUP_INFO: TypeModel = {
+  app: "sys",
+  name: "GroupInfo",
+  type: "ListElement",
+  version: 143,
+  encrypted: true,
+  values: {
+    "16": { id: 16, name: "_id", type: "String", encrypted: false },
+    "22": { id: 22, name: "mailAddress", type: "String", encrypted: false },
+  },
+  associations: {
+    "25": { id: 25, name: "group", type: "ElementAssociation", cardinality: "One", refType: () => GROUP },
   },
 };
 
-/** Group: attribute id for formerGroupKeys ref; inner list id is 2269. */
-export const GROUP_ATTR_FORMER_GROUP_KEYS = "2273";
-export const GROUP_KEYS_REF_ATTR_LIST = "2269";
-export const GROUP_KEY_ATTR_OWNER_ENC_GKEY = "2261";
+/** User (sys): only the id; the CLI reads users raw (loadUser, parseUserKeyMaterial). */
+export const USER: TypeModel = {
+  app: "sys",
+  name: "User",
+  type: "Element",
+  version: 143,
+  encrypted: false,
+  values: {
+    "86": { id: 86, name: "_id", type: "String", encrypted: false },
+  },
+};
 
 /** MailboxGroupRoot: unencrypted; we only need path and mailbox association id. */
 export const MAILBOX_GROUP_ROOT: TypeModel = {
   app: "tutanota",
   name: "MailboxGroupRoot",
+  type: "Element",
   version: 102,
   encrypted: false,
   values: {
-    "695": { id: 695, type: "String", encrypted: false },
-    "696": { id: 696, type: "String", encrypted: false },
-    "697": { id: 697, type: "Number", encrypted: false },
-    "698": { id: 698, type: "String", encrypted: false },
+    "695": { id: 695, name: "_id", type: "String", encrypted: false },
+    "696": { id: 696, name: "_permissions", type: "String", encrypted: false },
+    "697": { id: 697, name: "_format", type: "Number", encrypted: false },
+    "698": { id: 698, name: "_ownerGroup", type: "String", encrypted: false },
+  },
+  associations: {
+    "699": { id: 699, name: "mailbox", type: "ElementAssociation", cardinality: "One", refType: () => MAIL_BOX },
   },
 };
 
-/** MailBox: encrypted; owner fields + association 443 = mailSets (MailSetRef). */
+/** MailBox: encrypted; owner fields + aggregation 443 = mailSets (MailSetRef). */
 export const MAIL_BOX: TypeModel = {
   app: "tutanota",
   name: "MailBox",
+  type: "Element",
   version: 102,
   encrypted: true,
   values: {
-    "127": { id: 127, type: "String", encrypted: false },
-    "128": { id: 128, type: "String", encrypted: false },
-    "129": { id: 129, type: "Number", encrypted: false },
-    "569": { id: 569, type: "Date", encrypted: false },
-    "590": { id: 590, type: "String", encrypted: false },
-    "591": { id: 591, type: "Bytes", encrypted: false },
-    "1396": { id: 1396, type: "Number", encrypted: false },
+    "127": { id: 127, name: "_id", type: "String", encrypted: false },
+    "128": { id: 128, name: "_permissions", type: "String", encrypted: false },
+    "129": { id: 129, name: "_format", type: "Number", encrypted: false },
+    "569": { id: 569, name: "lastInfoVersion", type: "Date", encrypted: false },
+    "590": { id: 590, name: "_ownerGroup", type: "String", encrypted: false },
+    "591": { id: 591, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "1396": { id: 1396, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "443": { id: 443, name: "mailSets", type: "Aggregation", cardinality: "One", refType: () => MAIL_SET_REF },
+  },
+};
+
+/** MailSetRef (aggregate of MailBox): list id of the mailbox's MailSets (442). */
+export const MAIL_SET_REF: TypeModel = {
+  app: "tutanota",
+  name: "MailSetRef",
+  type: "Aggregated",
+  version: 102,
+  encrypted: false,
+  values: {
+    "441": { id: 441, name: "_id", type: "String", encrypted: false },
+  },
+  associations: {
+    "442": { id: 442, name: "mailSets", type: "ListAssociation", cardinality: "One", refType: () => MAIL_SET },
   },
 };
 
@@ -91,31 +207,37 @@ export const MAIL_BOX: TypeModel = {
 export const MAIL_SET: TypeModel = {
   app: "tutanota",
   name: "MailSet",
+  type: "ListElement",
   version: 102,
   encrypted: true,
   values: {
-    "431": { id: 431, type: "String", encrypted: false },
-    "432": { id: 432, type: "String", encrypted: false },
-    "433": { id: 433, type: "Number", encrypted: false },
-    "434": { id: 434, type: "Bytes", encrypted: false },
-    "435": { id: 435, type: "String", encrypted: true },
-    "436": { id: 436, type: "Number", encrypted: false },
-    "589": { id: 589, type: "String", encrypted: false },
-    "1399": { id: 1399, type: "Number", encrypted: false },
-    "1479": { id: 1479, type: "String", encrypted: true },
-    "1459": { id: 1459, type: "String", encrypted: false },
+    "431": { id: 431, name: "_id", type: "String", encrypted: false },
+    "432": { id: 432, name: "_permissions", type: "String", encrypted: false },
+    "433": { id: 433, name: "_format", type: "Number", encrypted: false },
+    "434": { id: 434, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "435": { id: 435, name: "name", type: "String", encrypted: true },
+    "436": { id: 436, name: "folderType", type: "Number", encrypted: false },
+    "589": { id: 589, name: "_ownerGroup", type: "String", encrypted: false },
+    "1399": { id: 1399, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+    "1479": { id: 1479, name: "color", type: "String", encrypted: true },
+  },
+  associations: {
+    "1459": { id: 1459, name: "entries", type: "ListAssociation", cardinality: "One", refType: () => MAIL_SET_ENTRY },
   },
 };
 
-/** MailSetEntry: unencrypted list element; we only need path/version and attribute 1456 (mail ref). */
+/** MailSetEntry: unencrypted list element; id (1452) encodes the received date, mail (1456) is the Mail it lists. */
 export const MAIL_SET_ENTRY: TypeModel = {
   app: "tutanota",
   name: "MailSetEntry",
+  type: "ListElement",
   version: 102,
   encrypted: false,
   values: {
-    "1452": { id: 1452, type: "String", encrypted: false },
-    "1456": { id: 1456, type: "String", encrypted: false },
+    "1452": { id: 1452, name: "_id", type: "String", encrypted: false },
+  },
+  associations: {
+    "1456": { id: 1456, name: "mail", type: "ListElementAssociation", cardinality: "One", refType: () => MAIL },
   },
 };
 
@@ -123,76 +245,253 @@ export const MAIL_SET_ENTRY: TypeModel = {
 export const MAIL: TypeModel = {
   app: "tutanota",
   name: "Mail",
+  type: "ListElement",
+  version: 102,
+  encrypted: true,
+  values: {
+    "99": { id: 99, name: "_id", type: "String", encrypted: false },
+    "102": { id: 102, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "105": { id: 105, name: "subject", type: "String", encrypted: true },
+    "107": { id: 107, name: "receivedDate", type: "Date", encrypted: false },
+    "108": { id: 108, name: "state", type: "Number", encrypted: false },
+    "109": { id: 109, name: "unread", type: "Boolean", encrypted: false },
+    "426": { id: 426, name: "confidential", type: "Boolean", encrypted: true },
+    "466": { id: 466, name: "replyType", type: "Number", encrypted: true },
+    "587": { id: 587, name: "_ownerGroup", type: "String", encrypted: false },
+    "617": { id: 617, name: "differentEnvelopeSender", type: "String", encrypted: true },
+    "866": { id: 866, name: "listUnsubscribe", type: "Boolean", encrypted: true },
+    "896": { id: 896, name: "movedTime", type: "Date", encrypted: false },
+    "1021": { id: 1021, name: "phishingStatus", type: "Number", encrypted: false },
+    "1022": { id: 1022, name: "authStatus", type: "Number", encrypted: false },
+    "1120": { id: 1120, name: "method", type: "Number", encrypted: true },
+    "1307": { id: 1307, name: "recipientCount", type: "Number", encrypted: false },
+    "1346": { id: 1346, name: "encryptionAuthStatus", type: "Number", encrypted: true },
+    "1395": { id: 1395, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+    "1677": { id: 1677, name: "keyVerificationState", type: "Number", encrypted: true },
+    "1728": { id: 1728, name: "processingState", type: "Number", encrypted: false },
+    "1769": { id: 1769, name: "processNeeded", type: "Boolean", encrypted: false },
+    "1784": { id: 1784, name: "sendAt", type: "Date", encrypted: false },
+  },
+  associations: {
+    "111": { id: 111, name: "sender", type: "Aggregation", cardinality: "One", refType: () => MAIL_ADDRESS },
+    "115": { id: 115, name: "attachments", type: "ListElementAssociation", cardinality: "Any", refType: () => FILE },
+    "117": {
+      id: 117,
+      name: "conversationEntry",
+      type: "ListElementAssociation",
+      cardinality: "One",
+      refType: () => CONVERSATION_ENTRY,
+    },
+    "1308": {
+      id: 1308,
+      name: "mailDetails",
+      type: "BlobElementAssociation",
+      cardinality: "ZeroOrOne",
+      refType: () => MAIL_DETAILS_BLOB,
+    },
+    "1310": { id: 1310, name: "bucketKey", type: "Aggregation", cardinality: "ZeroOrOne", refType: () => BUCKET_KEY },
+  },
+};
+
+/**
+ * BucketKey (sys aggregate of Mail): set on received mail until the client writes back the owner session keys.
+ * The bucket key is encrypted with the recipient group's public key (pubEncBucketKey) or, between users of the same
+ * kind, with a group key (groupEncBucketKey); it encrypts the session keys of the mail and its files.
+ */
+export const BUCKET_KEY: TypeModel = {
+  app: "sys",
+  name: "BucketKey",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "2044": { id: 2044, name: "_id", type: "String", encrypted: false },
+    "2045": { id: 2045, name: "pubEncBucketKey", type: "Bytes", encrypted: false },
+    "2046": { id: 2046, name: "groupEncBucketKey", type: "Bytes", encrypted: false },
+    "2158": { id: 2158, name: "protocolVersion", type: "Number", encrypted: false },
+    "2254": { id: 2254, name: "recipientKeyVersion", type: "Number", encrypted: false },
+    "2255": { id: 2255, name: "senderKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "2047": { id: 2047, name: "keyGroup", type: "ElementAssociation", cardinality: "ZeroOrOne", refType: () => GROUP },
+    "2048": {
+      id: 2048,
+      name: "bucketEncSessionKeys",
+      type: "Aggregation",
+      cardinality: "Any",
+      refType: () => INSTANCE_SESSION_KEY,
+    },
+  },
+};
+
+/** InstanceSessionKey (sys aggregate of BucketKey): session key of one instance (list id + element id), encrypted with the bucket key. */
+export const INSTANCE_SESSION_KEY: TypeModel = {
+  app: "sys",
+  name: "InstanceSessionKey",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "2038": { id: 2038, name: "_id", type: "String", encrypted: false },
+    "2039": { id: 2039, name: "instanceList", type: "String", encrypted: false },
+    "2040": { id: 2040, name: "instanceId", type: "String", encrypted: false },
+    "2041": { id: 2041, name: "symEncSessionKey", type: "Bytes", encrypted: false },
+  },
+};
+
+/** ConversationEntry: unencrypted list element; messageId (123) and previous entry (125) for threading headers. */
+export const CONVERSATION_ENTRY: TypeModel = {
+  app: "tutanota",
+  name: "ConversationEntry",
+  type: "ListElement",
+  version: 102,
+  encrypted: false,
+  values: {
+    "120": { id: 120, name: "_id", type: "String", encrypted: false },
+    "123": { id: 123, name: "messageId", type: "String", encrypted: false },
+    "124": { id: 124, name: "conversationType", type: "Number", encrypted: false },
+  },
+  associations: {
+    "125": {
+      id: 125,
+      name: "previous",
+      type: "ListElementAssociation",
+      cardinality: "ZeroOrOne",
+      refType: () => CONVERSATION_ENTRY,
+    },
+  },
+};
+
+/** MailAddress (aggregate of Mail and Recipients): name (94) encrypted, address (95) plain. */
+export const MAIL_ADDRESS: TypeModel = {
+  app: "tutanota",
+  name: "MailAddress",
+  type: "Aggregated",
+  version: 102,
+  encrypted: true,
+  values: {
+    "93": { id: 93, name: "_id", type: "String", encrypted: false },
+    "94": { id: 94, name: "name", type: "String", encrypted: true },
+    "95": { id: 95, name: "address", type: "String", encrypted: false },
+  },
+};
+
+/** EncryptedMailAddress (aggregate of MailDetails.replyTos): name (614) and address (615) both encrypted. */
+export const ENCRYPTED_MAIL_ADDRESS: TypeModel = {
+  app: "tutanota",
+  name: "EncryptedMailAddress",
+  type: "Aggregated",
+  version: 102,
+  encrypted: true,
+  values: {
+    "613": { id: 613, name: "_id", type: "String", encrypted: false },
+    "614": { id: 614, name: "name", type: "String", encrypted: true },
+    "615": { id: 615, name: "address", type: "String", encrypted: true },
+  },
+};
+
+/** MailDetailsBlob: blob element holding MailDetails (1289); shares the Mail's session key. */
+export const MAIL_DETAILS_BLOB: TypeModel = {
+  app: "tutanota",
+  name: "MailDetailsBlob",
+  type: "BlobElement",
+  version: 102,
+  encrypted: true,
+  values: {
+    "1284": { id: 1284, name: "_id", type: "String", encrypted: false },
+    "1286": { id: 1286, name: "_format", type: "Number", encrypted: false },
+    "1287": { id: 1287, name: "_ownerGroup", type: "String", encrypted: false },
+    "1288": { id: 1288, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "1403": { id: 1403, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "1289": { id: 1289, name: "details", type: "Aggregation", cardinality: "One", refType: () => MAIL_DETAILS },
+  },
+};
+
+/** MailDetails (aggregate): sentDate (1277), authStatus (1278); replyTos 1279, recipients 1280, body 1281. */
+export const MAIL_DETAILS: TypeModel = {
+  app: "tutanota",
+  name: "MailDetails",
+  type: "Aggregated",
+  version: 102,
+  encrypted: true,
+  values: {
+    "1276": { id: 1276, name: "_id", type: "String", encrypted: false },
+    "1277": { id: 1277, name: "sentDate", type: "Date", encrypted: false },
+    "1278": { id: 1278, name: "authStatus", type: "Number", encrypted: false },
+  },
+  associations: {
+    "1279": { id: 1279, name: "replyTos", type: "Aggregation", cardinality: "Any", refType: () => ENCRYPTED_MAIL_ADDRESS },
+    "1280": { id: 1280, name: "recipients", type: "Aggregation", cardinality: "One", refType: () => RECIPIENTS },
+    "1281": { id: 1281, name: "body", type: "Aggregation", cardinality: "One", refType: () => BODY },
+  },
+};
+
+/** Recipients (aggregate): toRecipients 1271, ccRecipients 1272, bccRecipients 1273 (MailAddress lists). */
+export const RECIPIENTS: TypeModel = {
+  app: "tutanota",
+  name: "Recipients",
+  type: "Aggregated",
+  version: 102,
+  encrypted: true,
+  values: {
+    "1270": { id: 1270, name: "_id", type: "String", encrypted: false },
+  },
+  associations: {
+    "1271": { id: 1271, name: "toRecipients", type: "Aggregation", cardinality: "Any", refType: () => MAIL_ADDRESS },
+    "1272": { id: 1272, name: "ccRecipients", type: "Aggregation", cardinality: "Any", refType: () => MAIL_ADDRESS },
+    "1273": { id: 1273, name: "bccRecipients", type: "Aggregation", cardinality: "Any", refType: () => MAIL_ADDRESS },
+  },
+};
+
+/** Body (aggregate): text (1258) for old mails, compressedText (1259) for current ones. */
+export const BODY: TypeModel = {
+  app: "tutanota",
+  name: "Body",
+  type: "Aggregated",
+  version: 102,
+  encrypted: true,
+  values: {
+    "1257": { id: 1257, name: "_id", type: "String", encrypted: false },
+    "1258": { id: 1258, name: "text", type: "String", encrypted: true },
+    "1259": { id: 1259, name: "compressedText", type: "CompressedString", encrypted: true },
+  },
+};
+
+/** File: encrypted list element (mail attachment); name (18), size (19), mimeType (20), cid (924), owner fields. */
+export const FILE: TypeModel = {
+  app: "tutanota",
+  name: "File",
+  type: "ListElement",
   version: 102,
   encrypted: true,
   values: {
-    "99": { id: 99, type: "String", encrypted: false },
-    "102": { id: 102, type: "Bytes", encrypted: false },
-    "105": { id: 105, type: "String", encrypted: true },
-    "107": { id: 107, type: "Date", encrypted: false },
-    "108": { id: 108, type: "Number", encrypted: false },
-    "109": { id: 109, type: "Boolean", encrypted: false },
-    "426": { id: 426, type: "Boolean", encrypted: true },
-    "466": { id: 466, type: "Number", encrypted: true },
-    "587": { id: 587, type: "String", encrypted: false },
-    "617": { id: 617, type: "String", encrypted: true },
-    "866": { id: 866, type: "Boolean", encrypted: true },
-    "896": { id: 896, type: "Date", encrypted: false },
-    "1021": { id: 1021, type: "Number", encrypted: false },
-    "1022": { id: 1022, type: "Number", encrypted: false },
-    "1120": { id: 1120, type: "Number", encrypted: true },
-    "1307": { id: 1307, type: "Number", encrypted: false },
-    "1346": { id: 1346, type: "Number", encrypted: true },
-    "1395": { id: 1395, type: "Number", encrypted: false },
-    "1677": { id: 1677, type: "Number", encrypted: true },
-    "1728": { id: 1728, type: "Number", encrypted: false },
-    "1769": { id: 1769, type: "Boolean", encrypted: false },
-    "1784": { id: 1784, type: "Date", encrypted: false },
-  },
-};
-
-/** Attribute IDs for owner/session key resolution (same across encrypted types). */
-export const ATTR_OWNER_GROUP = "590"; // MailBox; MailSet uses 589
-export const ATTR_OWNER_ENC_SESSION_KEY = "591"; // MailBox; MailSet uses 434
-export const ATTR_OWNER_KEY_VERSION = "1396"; // MailBox; MailSet uses 1399
-
-export const MAIL_SET_ATTR_OWNER_GROUP = "589";
-export const MAIL_SET_ATTR_OWNER_ENC_SESSION_KEY = "434";
-export const MAIL_SET_ATTR_OWNER_KEY_VERSION = "1399";
-
-export const MAIL_ATTR_OWNER_GROUP = "587";
-export const MAIL_ATTR_OWNER_ENC_SESSION_KEY = "102";
-export const MAIL_ATTR_OWNER_KEY_VERSION = "1395";
-
-/** MailboxGroupRoot: mailbox association id (ELEMENT_ASSOCIATION -> MailBox id). */
-export const MAILBOX_GROUP_ROOT_MAILBOX = "699";
-
-/** MailBox: mailSets aggregation id; inner MailSetRef has 442 = list id for MailSet. */
-export const MAIL_BOX_MAIL_SETS = "443";
-export const MAIL_SET_REF_MAIL_SETS_LIST = "442";
-
-export function getOwnerAttrs(typeModel: TypeModel): {
-  ownerGroup: string;
-  ownerEncSessionKey: string;
-  ownerKeyVersion: string;
-} {
-  if (typeModel.name === "MailSet") {
-    return {
-      ownerGroup: MAIL_SET_ATTR_OWNER_GROUP,
-      ownerEncSessionKey: MAIL_SET_ATTR_OWNER_ENC_SESSION_KEY,
-      ownerKeyVersion: MAIL_SET_ATTR_OWNER_KEY_VERSION,
-    };
-  }
-  if (typeModel.name === "Mail") {
-    return {
-      ownerGroup: MAIL_ATTR_OWNER_GROUP,
-      ownerEncSessionKey: MAIL_ATTR_OWNER_ENC_SESSION_KEY,
-      ownerKeyVersion: MAIL_ATTR_OWNER_KEY_VERSION,
-    };
-  }
-  return {
-    ownerGroup: ATTR_OWNER_GROUP,
-    ownerEncSessionKey: ATTR_OWNER_ENC_SESSION_KEY,
-    ownerKeyVersion: ATTR_OWNER_KEY_VERSION,
-  };
-}
+    "16": { id: 16, name: "_id", type: "String", encrypted: false },
+    "18": { id: 18, name: "name", type: "String", encrypted: true },
+    "19": { id: 19, name: "size", type: "Number", encrypted: false },
+    "20": { id: 20, name: "mimeType", type: "String", encrypted: true },
+    "580": { id: 580, name: "_ownerGroup", type: "String", encrypted: false },
+    "581": { id: 581, name: "_ownerEncSessionKey", type: "Bytes", encrypted: false },
+    "924": { id: 924, name: "cid", type: "String", encrypted: true },
+    "1391": { id: 1391, name: "_ownerKeyVersion", type: "Number", encrypted: false },
+  },
+  associations: {
+    "1225": { id: 1225, name: "blobs", type: "Aggregation", cardinality: "Any", refType: () => BLOB },
+  },
+};
+
+/** Blob (sys aggregate of File): archive id, blob id, size. */
+export const BLOB: TypeModel = {
+  app: "sys",
+  name: "Blob",
+  type: "Aggregated",
+  version: 143,
+  encrypted: false,
+  values: {
+    "2128": { id: 2128, name: "_id", type: "String", encrypted: false },
+    "2129": { id: 2129, name: "archiveId", type: "String", encrypted: false },
+    "2130": { id: 2130, name: "blobId", type: "String", encrypted: false },
+    "2131": { id: 2131, name: "size", type: "Number", encrypted: false },
+  },
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { checkModelVersions } from "./doctor.js";
+import { GENERATED_MIN_ID, loadEntity } from "./rest.js";
+import { VersionMismatchError, CLIENT_VERSION, SYS_MODEL_VERSION } from "./http.js";
+import { GROUP, MAIL, MAIL_ADDRESS, MAIL_DETAILS_BLOB, MAIL_SET } from "./crypto/typeModels.js";
+
+const API = "https://api.example";
+const originalFetch = globalThis.fetch;
+/** Answer for a request path; defaults to an empty instance (version accepted). */
+let handle: (path: string, v: string) => Response;
+/** Paths requested by the current test. */
+let requested: string[];
+
+describe("doctor", () => {
+  beforeEach(() => {
+    handle = () => new Response("{}", { status: 200 });
+    requested = [];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      const path = new URL(String(input)).pathname;
+      requested.push(path);
+      return handle(path, headers.v);
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("loadEntity names the type and version the server rejected", async () => {
+    handle = () => new Response("invalid model version", { status: 400 });
+    await assert.rejects(loadEntity(API, MAIL, ["l", "e"], { accessToken: "at" }), (err: unknown) => {
+      assert.ok(err instanceof VersionMismatchError);
+      assert.equal(err.outdatedClient, false);
+      assert.equal(err.modelName, "tutanota/Mail");
+      assert.equal(err.version, String(MAIL.version));
+      assert.match(err.message, /rejected tutanota\/Mail version \d+/);
+      return true;
+    });
+  });
+
+  test("reports rejected models", async () => {
+    handle = (path) =>
+      path.startsWith("/rest/tutanota/mailset/")
+        ? new Response("Invalid model version 1", { status: 400 })
+        : new Response("{}", { status: 200 });
+    const report = await checkModelVersions(API, null, [MAIL, MAIL_SET, GROUP]);
+    assert.equal(report.clientAccepted, true);
+    assert.deepEqual(
+      report.models.map((m) => [m.model, m.accepted]),
+      [
+        ["sys services", true],
+        ["sys/Group", true],
+        ["tutanota/Mail", true],
+        ["tutanota/MailSet", false],
+      ]
+    );
+    assert.match(report.models[3].error ?? "", /tutanota\/MailSet/);
+    assert.deepEqual(report.warnings, []);
+  });
+
+  test("probes elements by id and list elements by list id and element id", async () => {
+    await checkModelVersions(API, null, [MAIL, GROUP]);
+    assert.deepEqual(requested.slice(1), [
+      `/rest/sys/group/${GENERATED_MIN_ID}`,
+      `/rest/tutanota/mail/${GENERATED_MIN_ID}/${GENERATED_MIN_ID}`,
+    ]);
+  });
+
+  test("does not check aggregates and blob elements", async () => {
+    const report = await checkModelVersions(API, null, [MAIL_ADDRESS, MAIL_DETAILS_BLOB]);
+    assert.deepEqual(
+      report.models.slice(1).map((m) => [m.model, m.accepted, m.note]),
+      [
+        ["tutanota/MailAddress", null, "not checked: aggregated type, sent inside its root type"],
+        ["tutanota/MailDetailsBlob", null, "not checked: blob element type, needs a blob access token"],
+      ]
+    );
+    assert.deepEqual(requested, ["/rest/sys/systemkeysservice"]);
+  });
+
+  test("does not report other HTTP errors as accepted", async () => {
+    handle = (path) => new Response("", { status: path.includes("/tutanota/mail/") ? 404 : 400 });
+    const report = await checkModelVersions(API, null, [MAIL]);
+    assert.deepEqual(
+      report.models.map((m) => [m.model, m.accepted, m.note]),
+      [
+        ["sys services", null, "not confirmed: HTTP 400"],
+        ["tutanota/Mail", null, "not confirmed: HTTP 404"],
+      ]
+    );
+  });
+
+  test("stops checking models when the client version is rejected", async () => {
+    handle = () => new Response("", { status: 474 });
+    const report = await checkModelVersions(API, "at", [MAIL]);
+    assert.equal(report.clientVersion, CLIENT_VERSION);
+    assert.equal(report.clientAccepted, false);
+    assert.deepEqual(report.models.map((m) => m.accepted), [null, null]);
+  });
+
+  test("warns about inconsistent local versions", async () => {
+    const oldMail = { ...MAIL, version: MAIL.version - 1 };
+    const oldGroup = { ...GROUP, version: Number(SYS_MODEL_VERSION) - 1 };
+    const report = await checkModelVersions(API, null, [oldMail, MAIL_SET, oldGroup]);
+    assert.equal(report.warnings.length, 2);
+    assert.match(report.warnings[0], /^tutanota type models have different versions/);
+    assert.match(report.warnings[1], /^sys type models are v\d+ but services are sent v/);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Checks for 'tutanota-cli doctor': does the server accept our client version, the sys version sent to services
+ * and the version of every type model the CLI uses?
+ *
+ * Each root type (element and list element) is probed with a load of a made-up id in its id shape (<listId>/<elementId>
+ * for list elements) and its own v header. A version rejection (see VersionMismatchError) means the model is outdated,
+ * an answer means it is accepted. Other errors (404 for the id, 401 without a session, ...) do not tell whether the
+ * server checked the version, so the model is reported as not confirmed. Aggregates are only sent inside their root
+ * instance and blob elements need a blob access token; they are not checked.
+ */
+
+import * as http from "./http.js";
+import { VersionMismatchError } from "./http.js";
+import { TypeKind, type TypeModel } from "./crypto/typeModel.js";
+import { GENERATED_MIN_ID, modelName } from "./rest.js";
+
+export interface ModelVersionCheck {
+  /** "tutanota/Mail", or "sys services" for the version sent to sys services. */
+  model: string;
+  version: string;
+  /** Null when the model was not checked or the answer does not confirm the version (see note). */
+  accepted: boolean | null;
+  /** Server message when the version was rejected. */
+  error: string | null;
+  /** Why accepted is null: "not checked: aggregated type, ...", "not confirmed: HTTP 404", ... */
+  note: string | null;
+}
+
+export interface DoctorReport {
+  clientVersion: string;
+  clientAccepted: boolean;
+  models: ModelVersionCheck[];
+  /** Local problems: an app's type models with different versions, sys models not matching the services version. */
+  warnings: string[];
+}
+
+interface Probe {
+  model: string;
+  version: string;
+  /** Null for types that are not checked (see note). */
+  path: string | null;
+  options: http.RequestOptions;
+  note?: string;
+}
+
+/**
+ * Send one probe; resolves to null when the server answered, the version error, or the HTTP status of any other
+ * error. Network errors are thrown.
+ */
+async function probe(
+  baseUrl: string,
+  path: string,
+  options: http.RequestOptions
+): Promise<VersionMismatchError | number | null> {
+  try {
+    await http.get(baseUrl, path, options);
+    return null;
+  } catch (err) {
+    if (err instanceof VersionMismatchError) return err;
+    const status = http.httpStatusOf(err);
+    if (status != null) return status;
+    throw err;
+  }
+}
+
+/** Load path of a made-up instance of a root type; null for types that are not loaded on their own. */
+function probePath(t: TypeModel): string | null {
+  const base = `/rest/${t.app}/${t.name.toLowerCase()}`;
+  if (t.type === TypeKind.Element) return `${base}/${GENERATED_MIN_ID}`;
+  if (t.type === TypeKind.ListElement) return `${base}/${GENERATED_MIN_ID}/${GENERATED_MIN_ID}`;
+  return null;
+}
+
+/** Why the type is not checked when it has no probe path. */
+function notCheckedNote(t: TypeModel): string {
+  if (t.type === TypeKind.Aggregated) return "not checked: aggregated type, sent inside its root type";
+  if (t.type === TypeKind.BlobElement) return "not checked: blob element type, needs a blob access token";
+  return "not checked: not loaded by id";
+}
+
+function localWarnings(typeModels: TypeModel[]): string[] {
+  const warnings: string[] = [];
+  const byApp = new Map<string, Map<number, string[]>>();
+  for (const t of typeModels) {
+    const versions = byApp.get(t.app) ?? new Map<number, string[]>();
+    versions.set(t.version, [...(versions.get(t.version) ?? []), t.name]);
+    byApp.set(t.app, versions);
+  }
+  for (const [app, versions] of byApp) {
+    if (versions.size > 1) {
+      const list = [...versions].map(([version, names]) => `v${version}: ${names.join(", ")}`).join("; ");
+      warnings.push(`${app} type models have different versions (${list}).`);
+    }
+  }
+  const sysVersions = [...(byApp.get("sys")?.keys() ?? [])].filter((v) => String(v) !== http.SYS_MODEL_VERSION);
+  if (sysVersions.length > 0) {
+    warnings.push(
+      `sys type models are v${sysVersions.join(", v")} but services are sent v${http.SYS_MODEL_VERSION} (src/http.ts).`
+    );
+  }
+  return warnings;
+}
+
+/** Check the client version, the sys services version and each type model against the server. */
+export async function checkModelVersions(
+  baseUrl: string,
+  accessToken: string | null,
+  typeModels: TypeModel[]
+): Promise<DoctorReport> {
+  const auth = accessToken != null ? { accessToken } : {};
+  const probes: Probe[] = [
+    {
+      model: "sys services",
+      version: http.SYS_MODEL_VERSION,
+      path: "/rest/sys/systemkeysservice",
+      options: { ...auth },
+    },
+    ...[...typeModels]
+      .sort((a, b) => modelName(a).localeCompare(modelName(b)))
+      .map((t) => ({
+        model: modelName(t),
+        version: String(t.version),
+        path: probePath(t),
+        options: { ...auth, extraHeaders: { v: String(t.version) }, modelName: modelName(t) },
+        note: notCheckedNote(t),
+      })),
+  ];
+
+  let clientAccepted = true;
+  const models: ModelVersionCheck[] = [];
+  for (const p of probes) {
+    const unchecked = (note: string) =>
+      models.push({ model: p.model, version: p.version, accepted: null, error: null, note });
+    if (p.path == null) {
+      unchecked(p.note ?? "not checked");
+      continue;
+    }
+    if (!clientAccepted) {
+      unchecked("not checked: client version rejected");
+      continue;
+    }
+    const result = await probe(baseUrl, p.path, p.options);
+    if (typeof result === "number") {
+      unchecked(`not confirmed: HTTP ${result}`);
+      continue;
+    }
+    if (result?.outdatedClient) {
+      // Every request fails the same way; the models cannot be checked with this client.
+      clientAccepted = false;
+      unchecked("not checked: client version rejected");
+      continue;
+    }
+    models.push({
+      model: p.model,
+      version: p.version,
+      accepted: result == null,
+      error: result?.message ?? null,
+      note: null,
+    });
+  }
+
+  return { clientVersion: http.CLIENT_VERSION, clientAccepted, models, warnings: localWarnings(typeModels) };
+}
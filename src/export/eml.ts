@@ -0,0 +1,39 @@
+/**
+ * EML writer: one RFC 5322 file per message in a directory.
+ * Filenames are built from the received date (attribute 107) and the mail element id, so they sort by date
+ * and stay stable across runs.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { buildRfc5322Message, type ExportMail } from "./message.js";
+import type { ExportWriter } from "./writer.js";
+
+function pad2(n: number): string {
+  return n < 10 ? "0" + n : String(n);
+}
+
+/** Compact UTC timestamp for filenames, e.g. "20260101T080503Z". */
+export function formatFileTimestamp(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}` +
+    `T${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`
+  );
+}
+
+/** File name for a mail, e.g. "20260101T080503Z_LBsV9V9--3-0.eml". */
+export function emlFileName(mail: ExportMail): string {
+  const date = mail.receivedDate ?? mail.sentDate ?? new Date(0);
+  return `${formatFileTimestamp(date)}_${mail.id[1]}.eml`;
+}
+
+/** Write each mail to dirPath/<emlFileName>. Creates the directory if needed; overwrites existing files. */
+export function createEmlWriter(dirPath: string): ExportWriter {
+  fs.mkdirSync(dirPath, { recursive: true, mode: 0o700 });
+  return {
+    write(mail: ExportMail): void {
+      fs.writeFileSync(path.join(dirPath, emlFileName(mail)), buildRfc5322Message(mail), { mode: 0o600 });
+    },
+    close(): void {},
+  };
+}
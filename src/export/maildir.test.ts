@@ -0,0 +1,53 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createMaildirWriter, maildirBaseName, maildirRelativePath } from "./maildir.js";
+import type { ExportMail } from "./message.js";
+
+function mail(unread: boolean): ExportMail {
+  return {
+    id: ["list", "elem-1"],
+    subject: "Hi",
+    sender: { name: "", address: "a@example.com" },
+    toRecipients: [],
+    ccRecipients: [],
+    bccRecipients: [],
+    replyTos: [],
+    sentDate: null,
+    receivedDate: new Date(1767225600000),
+    unread,
+    messageId: null,
+    inReplyTo: null,
+    body: "x",
+  };
+}
+
+describe("maildir", () => {
+  test("maildirBaseName uses received seconds and element id", () => {
+    assert.equal(maildirBaseName(mail(false)), "1767225600.elem-1.tutanota-cli");
+  });
+
+  test("maildirRelativePath puts unread mails in new/ and read mails in cur/ with S flag", () => {
+    assert.equal(maildirRelativePath(mail(true)), path.join("new", "1767225600.elem-1.tutanota-cli"));
+    assert.equal(maildirRelativePath(mail(false)), path.join("cur", "1767225600.elem-1.tutanota-cli:2,S"));
+  });
+
+  test("writer creates tmp/new/cur and replaces a copy with different read state", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "maildir-test-"));
+    try {
+      const writer = createMaildirWriter(dir);
+      writer.write(mail(true));
+      writer.write(mail(false));
+      writer.close();
+      assert.deepEqual(fs.readdirSync(path.join(dir, "tmp")), []);
+      assert.deepEqual(fs.readdirSync(path.join(dir, "new")), []);
+      assert.deepEqual(fs.readdirSync(path.join(dir, "cur")), ["1767225600.elem-1.tutanota-cli:2,S"]);
+      const content = fs.readFileSync(path.join(dir, "cur", "1767225600.elem-1.tutanota-cli:2,S"), "utf8");
+      assert.ok(!content.includes("\r\n"));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
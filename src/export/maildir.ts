@@ -0,0 +1,47 @@
+/**
+ * Maildir writer: one file per message under tmp/, then renamed into new/ (unread) or cur/ (read).
+ * Read mails get the Maildir "S" (seen) flag; the unread flag comes from Mail attribute 109.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { buildRfc5322Message, type ExportMail } from "./message.js";
+import type { ExportWriter } from "./writer.js";
+
+const MAILDIR_SUBDIRS = ["tmp", "new", "cur"] as const;
+
+/**
+ * Unique name for a mail (without info suffix): "<received seconds>.<element id>.tutanota-cli".
+ * Stable across runs so re-exports overwrite instead of duplicating.
+ */
+export function maildirBaseName(mail: ExportMail): string {
+  const date = mail.receivedDate ?? mail.sentDate ?? new Date(0);
+  return `${Math.floor(date.getTime() / 1000)}.${mail.id[1]}.tutanota-cli`;
+}
+
+/** Target path relative to the Maildir root: new/<name> for unread, cur/<name>:2,S for read. */
+export function maildirRelativePath(mail: ExportMail): string {
+  const name = maildirBaseName(mail);
+  return mail.unread ? path.join("new", name) : path.join("cur", name + ":2,S");
+}
+
+/** Create the Maildir (tmp, new, cur) at dirPath if needed and write messages with LF line endings. */
+export function createMaildirWriter(dirPath: string): ExportWriter {
+  for (const sub of MAILDIR_SUBDIRS) {
+    fs.mkdirSync(path.join(dirPath, sub), { recursive: true, mode: 0o700 });
+  }
+  return {
+    write(mail: ExportMail): void {
+      const tmpPath = path.join(dirPath, "tmp", maildirBaseName(mail));
+      fs.writeFileSync(tmpPath, buildRfc5322Message(mail).replace(/\r\n/g, "\n"), { mode: 0o600 });
+      const target = maildirRelativePath(mail);
+      // Drop a copy from an earlier export whose read state differed.
+      const name = maildirBaseName(mail);
+      for (const stale of [path.join("new", name), path.join("cur", name + ":2,S")]) {
+        if (stale !== target) fs.rmSync(path.join(dirPath, stale), { force: true });
+      }
+      fs.renameSync(tmpPath, path.join(dirPath, target));
+    },
+    close(): void {},
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createMboxWriter, formatAsctime, toMboxrdEntry } from "./mbox.js";
+import type { ExportMail } from "./message.js";
+
+describe("mbox", () => {
+  describe("formatAsctime", () => {
+    test("pads single-digit day with a space", () => {
+      assert.equal(formatAsctime(new Date(Date.UTC(2026, 0, 1, 8, 5, 3))), "Thu Jan  1 08:05:03 2026");
+    });
+  });
+
+  describe("toMboxrdEntry", () => {
+    test("writes separator line, LF endings and trailing empty line", () => {
+      const entry = toMboxrdEntry("Subject: x\r\n\r\nbody\r\n", "a@b.c", new Date(Date.UTC(2026, 0, 1)));
+      assert.equal(entry, "From a@b.c Thu Jan  1 00:00:00 2026\nSubject: x\n\nbody\n\n");
+    });
+
+    test("quotes From and >From lines (mboxrd)", () => {
+      const entry = toMboxrdEntry("Subject: x\n\nFrom here\n>From there\nFrom: not quoted", null, null);
+      const lines = entry.split("\n");
+      assert.equal(lines[0], "From MAILER-DAEMON Thu Jan  1 00:00:00 1970");
+      assert.equal(lines[3], ">From here");
+      assert.equal(lines[4], ">>From there");
+      assert.equal(lines[5], "From: not quoted");
+    });
+  });
+
+  describe("createMboxWriter", () => {
+    const mail: ExportMail = {
+      id: ["list", "elem-1"],
+      subject: "Hi",
+      sender: { name: "", address: "a@example.com" },
+      toRecipients: [],
+      ccRecipients: [],
+      bccRecipients: [],
+      replyTos: [],
+      sentDate: null,
+      receivedDate: new Date(Date.UTC(2026, 0, 1)),
+      unread: false,
+      messageId: null,
+      inReplyTo: null,
+      body: "x",
+    };
+
+    test("append truncates a partially written tail before appending", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tutanota-cli-mbox-"));
+      try {
+        const file = path.join(dir, "out.mbox");
+        const first = createMboxWriter(file);
+        first.write(mail);
+        first.close();
+        const size = fs.statSync(file).size;
+        fs.appendFileSync(file, "From partial");
+
+        const second = createMboxWriter(file, { append: true, truncateTo: size });
+        second.write(mail);
+        second.close();
+        const content = fs.readFileSync(file, "utf8");
+        assert.equal(content.length, size * 2);
+        assert.equal(content.includes("partial"), false);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
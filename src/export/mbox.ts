@@ -0,0 +1,56 @@
+/**
+ * mboxrd writer: each message starts with a "From " separator line, body lines matching /^>*From / get
+ * one extra ">" so readers can reverse the quoting, and each message ends with an empty line.
+ */
+
+import * as fs from "fs";
+import { buildRfc5322Message, type ExportMail } from "./message.js";
+import type { ExportWriter } from "./writer.js";
+
+const ASCTIME_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ASCTIME_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function pad2(n: number): string {
+  return n < 10 ? "0" + n : String(n);
+}
+
+/** Format a date in asctime style (UTC) as used in the mbox "From " line, e.g. "Thu Jan  1 00:00:00 2026". */
+export function formatAsctime(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, " ");
+  return (
+    `${ASCTIME_DAYS[date.getUTCDay()]} ${ASCTIME_MONTHS[date.getUTCMonth()]} ${day} ` +
+    `${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} ${date.getUTCFullYear()}`
+  );
+}
+
+/**
+ * Convert one RFC 5322 message to an mboxrd entry: separator line, LF line endings, ">From " quoting, trailing empty line.
+ * envelopeSender falls back to MAILER-DAEMON when empty.
+ */
+export function toMboxrdEntry(message: string, envelopeSender: string | null, date: Date | null): string {
+  const sender = envelopeSender != null && envelopeSender.trim() !== "" ? envelopeSender.trim().replace(/\s/g, "") : "MAILER-DAEMON";
+  const fromLine = `From ${sender} ${formatAsctime(date ?? new Date(0))}`;
+  const lines = message.replace(/\r\n?/g, "\n").replace(/\n+$/, "").split("\n");
+  const quoted = lines.map((line) => (/^>*From /.test(line) ? ">" + line : line));
+  return fromLine + "\n" + quoted.join("\n") + "\n\n";
+}
+
+/**
+ * Open an mbox file for writing (mode 0o600). Truncates an existing file unless append is set;
+ * with append and truncateTo, the file is first cut back to truncateTo bytes (drops a partially written tail).
+ */
+export function createMboxWriter(filePath: string, options: { append?: boolean; truncateTo?: number } = {}): ExportWriter {
+  if (options.append && options.truncateTo != null && fs.existsSync(filePath)) {
+    fs.truncateSync(filePath, options.truncateTo);
+  }
+  const fd = fs.openSync(filePath, options.append ? "a" : "w", 0o600);
+  return {
+    write(mail: ExportMail): void {
+      const entry = toMboxrdEntry(buildRfc5322Message(mail), mail.sender?.address ?? null, mail.receivedDate ?? mail.sentDate);
+      fs.writeSync(fd, entry);
+    },
+    close(): void {
+      fs.closeSync(fd);
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildRfc5322Message,
+  encodeHeaderText,
+  encodeBase64Lines,
+  encodeQuotedPrintable,
+  formatAddress,
+  formatMimeParameter,
+  formatRfc5322Date,
+  type ExportMail,
+} from "./message.js";
+
+const baseMail: ExportMail = {
+  id: ["list", "element"],
+  subject: "Hello",
+  sender: { name: "Alice", address: "alice@example.com" },
+  toRecipients: [{ name: "", address: "bob@example.com" }],
+  ccRecipients: [],
+  bccRecipients: [],
+  replyTos: [],
+  sentDate: new Date(Date.UTC(2026, 0, 1, 8, 5, 3)),
+  receivedDate: null,
+  unread: false,
+  messageId: "abc@example.com",
+  inReplyTo: null,
+  body: "<p>Hi</p>",
+};
+
+describe("message", () => {
+  test("formatRfc5322Date formats UTC with +0000", () => {
+    assert.equal(formatRfc5322Date(new Date(Date.UTC(2026, 0, 1, 8, 5, 3))), "Thu, 01 Jan 2026 08:05:03 +0000");
+  });
+
+  test("encodeHeaderText leaves ASCII and encodes non-ASCII as RFC 2047", () => {
+    assert.equal(encodeHeaderText("Hello"), "Hello");
+    assert.equal(encodeHeaderText("Grüße"), "=?UTF-8?B?R3LDvMOfZQ==?=");
+  });
+
+  test("formatAddress quotes names with specials", () => {
+    assert.equal(formatAddress({ name: "Doe, John", address: "j@d.e" }), '"Doe, John" <j@d.e>');
+    assert.equal(formatAddress({ name: "", address: "j@d.e" }), "j@d.e");
+  });
+
+  test("encodeQuotedPrintable escapes = and non-ASCII and wraps long lines", () => {
+    assert.equal(encodeQuotedPrintable("a=b ü"), "a=3Db =C3=BC");
+    const wrapped = encodeQuotedPrintable("x".repeat(100)).split("\r\n");
+    assert.equal(wrapped.length, 2);
+    assert.ok(wrapped[0].endsWith("="));
+    assert.ok(wrapped.every((l) => l.length <= 76));
+  });
+
+  test("buildRfc5322Message includes headers and angle-bracketed Message-ID", () => {
+    const msg = buildRfc5322Message({ ...baseMail, inReplyTo: "<prev@example.com>" });
+    const [head] = msg.split("\r\n\r\n");
+    assert.match(head, /^From: Alice <alice@example.com>$/m);
+    assert.match(head, /^To: bob@example.com$/m);
+    assert.match(head, /^Date: Thu, 01 Jan 2026 08:05:03 \+0000$/m);
+    assert.match(head, /^Message-ID: <abc@example.com>$/m);
+    assert.match(head, /^In-Reply-To: <prev@example.com>$/m);
+    assert.doesNotMatch(head, /^Cc:/m);
+  });
+
+  test("buildRfc5322Message strips line breaks from addresses and message ids", () => {
+    const msg = buildRfc5322Message({
+      ...baseMail,
+      sender: { name: "Alice", address: "alice@example.com\r\nBcc: eve@example.com" },
+      toRecipients: [{ name: "", address: "bob@example.com\nFrom evil@example.com Thu Jan  1 00:00:00 2026" }],
+      messageId: "abc@example.com\r\nX-Injected: 1",
+      inReplyTo: "\n\x00",
+    });
+    const [head] = msg.split("\r\n\r\n");
+    assert.doesNotMatch(msg.replace(/\r\n/g, ""), /[\x00-\x1f]/);
+    assert.match(head, /^From: Alice <alice@example.comBcc: eve@example.com>$/m);
+    assert.match(head, /^To: bob@example.comFrom evil@example.com Thu Jan  1 00:00:00 2026$/m);
+    assert.match(head, /^Message-ID: <abc@example.comX-Injected: 1>$/m);
+    assert.doesNotMatch(head, /^(Bcc|X-Injected|In-Reply-To):/m);
+    assert.doesNotMatch(head, /^From evil/m);
+  });
+
+  test("formatMimeParameter quotes ASCII and uses RFC 2231 for non-ASCII", () => {
+    assert.equal(formatMimeParameter("filename", "invoice.pdf"), 'filename="invoice.pdf"');
+    assert.equal(formatMimeParameter("filename", "Rechnung März.pdf"), "filename*=UTF-8''Rechnung%20M%C3%A4rz.pdf");
+  });
+
+  test("encodeBase64Lines wraps at 76 characters", () => {
+    const lines = encodeBase64Lines(new Uint8Array(100)).split("\r\n");
+    assert.deepEqual(lines.map((l) => l.length), [76, 60]);
+  });
+
+  test("buildRfc5322Message with attachments writes multipart/mixed", () => {
+    const message = buildRfc5322Message({
+      ...baseMail,
+      attachments: [
+        { name: "a.pdf", mimeType: "application/pdf", cid: null, data: new TextEncoder().encode("PDF") },
+        { name: "logo.png", mimeType: "image/png", cid: "logo@x", data: new Uint8Array([1, 2]) },
+      ],
+    });
+    const boundary = "----=_tutanota-cli_element";
+    assert.ok(message.includes(`Content-Type: multipart/mixed; boundary="${boundary}"\r\n`));
+    assert.equal(message.split(`--${boundary}\r\n`).length, 4);
+    assert.ok(message.endsWith(`--${boundary}--\r\n`));
+    assert.ok(message.includes('Content-Disposition: attachment; filename="a.pdf"\r\n'));
+    assert.ok(message.includes("\r\n\r\nUERG\r\n"));
+    assert.ok(message.includes("Content-Disposition: inline; filename=\"logo.png\"\r\nContent-ID: <logo@x>"));
+  });
+});
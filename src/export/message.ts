@@ -0,0 +1,193 @@
+/**
+ * Rebuild an RFC 5322 message from a decrypted mail (headers + quoted-printable UTF-8 body).
+ * Tutanota does not keep the original MIME source, so the message is reconstructed from entity fields.
+ */
+
+import type { MailAddressInfo } from "../mail/mailDetails.js";
+
+/** Decrypted mail fields needed to write an exported message. */
+export interface ExportMail {
+  /** Mail id as [listId, elementId]. */
+  id: [string, string];
+  subject: string;
+  sender: MailAddressInfo | null;
+  toRecipients: MailAddressInfo[];
+  ccRecipients: MailAddressInfo[];
+  bccRecipients: MailAddressInfo[];
+  replyTos: MailAddressInfo[];
+  sentDate: Date | null;
+  receivedDate: Date | null;
+  unread: boolean;
+  /** Message-ID without angle brackets, or null if unknown. */
+  messageId: string | null;
+  /** Message-ID of the mail this one replies to, without angle brackets. */
+  inReplyTo: string | null;
+  /** Body as stored by Tutanota (HTML). */
+  body: string;
+  /** Decrypted attachments to embed as MIME parts; omitted when attachments are not exported. */
+  attachments?: ExportAttachment[];
+}
+
+export interface ExportAttachment {
+  name: string;
+  mimeType: string;
+  /** Content-ID (without angle brackets) of inline images, or null. */
+  cid: string | null;
+  data: Uint8Array;
+}
+
+const CRLF = "\r\n";
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function pad2(n: number): string {
+  return n < 10 ? "0" + n : String(n);
+}
+
+/** Format a date as RFC 5322 date-time in UTC, e.g. "Thu, 01 Jan 2026 00:00:00 +0000". */
+export function formatRfc5322Date(date: Date): string {
+  return (
+    `${DAYS[date.getUTCDay()]}, ${pad2(date.getUTCDate())} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ` +
+    `${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} +0000`
+  );
+}
+
+/** Encode a header text as an RFC 2047 encoded-word when it contains non-ASCII or control characters. */
+export function encodeHeaderText(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  return `=?UTF-8?B?${Buffer.from(text, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Remove control characters (CR, LF, NUL, ...) from a value written into a header as is (addresses, message ids).
+ * These values come from the received mail; a line break in them would add header lines to the exported message.
+ */
+function stripControlChars(value: string): string {
+  return value.replace(/[\x00-\x1f\x7f]/g, "");
+}
+
+/** Format one address as `Name <address>` (name quoted or encoded as needed) or a bare address. */
+export function formatAddress(a: MailAddressInfo): string {
+  const address = stripControlChars(a.address);
+  const name = a.name.trim();
+  if (name === "") return address;
+  const encoded = encodeHeaderText(name);
+  const display = encoded !== name ? encoded : /[()<>\[\]:;@\\,."]/.test(name) ? `"${name.replace(/["\\]/g, "\\$&")}"` : name;
+  return `${display} <${address}>`;
+}
+
+function formatAddressList(list: MailAddressInfo[]): string {
+  return list.map(formatAddress).join(", ");
+}
+
+function angle(messageId: string): string {
+  const id = stripControlChars(messageId).trim();
+  return id.startsWith("<") ? id : `<${id}>`;
+}
+
+/** Encode text as UTF-8 quoted-printable (RFC 2045) with soft line breaks at 76 characters and CRLF line endings. */
+export function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  for (const line of lines) {
+    const bytes = Buffer.from(line, "utf8");
+    let current = "";
+    for (let i = 0; i < bytes.length; i++) {
+      const b = bytes[i];
+      const isLast = i === bytes.length - 1;
+      let token: string;
+      if ((b === 0x20 || b === 0x09) && !isLast) {
+        token = String.fromCharCode(b);
+      } else if (b >= 0x21 && b <= 0x7e && b !== 0x3d) {
+        token = String.fromCharCode(b);
+      } else {
+        token = "=" + b.toString(16).toUpperCase().padStart(2, "0");
+      }
+      if (current.length + token.length > 75) {
+        out.push(current + "=");
+        current = "";
+      }
+      current += token;
+    }
+    out.push(current);
+  }
+  return out.join(CRLF);
+}
+
+/** Encode binary data as base64 wrapped at 76 characters (RFC 2045) with CRLF line endings. */
+export function encodeBase64Lines(data: Uint8Array): string {
+  const encoded = Buffer.from(data).toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += 76) {
+    lines.push(encoded.slice(i, i + 76));
+  }
+  return lines.join(CRLF);
+}
+
+/** Format a MIME parameter: quoted when ASCII, RFC 2231 percent-encoded UTF-8 (name*=UTF-8''...) otherwise. */
+export function formatMimeParameter(name: string, value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return `${name}="${value.replace(/["\\]/g, "\\$&")}"`;
+  const encoded = Array.from(Buffer.from(value, "utf8"))
+    .map((b) => {
+      const c = String.fromCharCode(b);
+      return /[A-Za-z0-9!#$&+.^_`|~-]/.test(c) ? c : "%" + b.toString(16).toUpperCase().padStart(2, "0");
+    })
+    .join("");
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+function attachmentPart(attachment: ExportAttachment): string {
+  const name = attachment.name !== "" ? attachment.name.replace(/[\x00-\x1f\x7f]/g, " ") : "attachment";
+  // The MIME type comes from the (sender-controlled) File entity; only accept a plain type/subtype.
+  const mimeType = /^[\w.+-]+\/[\w.+-]+$/.test(attachment.mimeType) ? attachment.mimeType : "application/octet-stream";
+  const headers = [
+    `Content-Type: ${mimeType}; ${formatMimeParameter("name", name)}`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: ${attachment.cid != null ? "inline" : "attachment"}; ${formatMimeParameter("filename", name)}`,
+  ];
+  if (attachment.cid != null) headers.push("Content-ID: " + angle(attachment.cid.replace(/[\x00-\x20\x7f<>]/g, "")));
+  return headers.join(CRLF) + CRLF + CRLF + encodeBase64Lines(attachment.data);
+}
+
+/**
+ * Build the full RFC 5322 message (CRLF line endings) for an exported mail.
+ * Date is the sent date, falling back to the received date. With attachments the message is multipart/mixed:
+ * the HTML body first, then one base64 part per attachment (inline with Content-ID when the file has a cid).
+ */
+export function buildRfc5322Message(mail: ExportMail): string {
+  const headers: string[] = [];
+  const date = mail.sentDate ?? mail.receivedDate;
+  if (mail.sender != null) headers.push("From: " + formatAddress(mail.sender));
+  if (mail.toRecipients.length > 0) headers.push("To: " + formatAddressList(mail.toRecipients));
+  if (mail.ccRecipients.length > 0) headers.push("Cc: " + formatAddressList(mail.ccRecipients));
+  if (mail.bccRecipients.length > 0) headers.push("Bcc: " + formatAddressList(mail.bccRecipients));
+  if (mail.replyTos.length > 0) headers.push("Reply-To: " + formatAddressList(mail.replyTos));
+  if (date != null) headers.push("Date: " + formatRfc5322Date(date));
+  headers.push("Subject: " + encodeHeaderText(mail.subject));
+  if (mail.messageId != null && stripControlChars(mail.messageId).trim() !== "") {
+    headers.push("Message-ID: " + angle(mail.messageId));
+  }
+  if (mail.inReplyTo != null && stripControlChars(mail.inReplyTo).trim() !== "") {
+    headers.push("In-Reply-To: " + angle(mail.inReplyTo));
+  }
+  headers.push("MIME-Version: 1.0");
+  const bodyHeaders = 'Content-Type: text/html; charset="utf-8"' + CRLF + "Content-Transfer-Encoding: quoted-printable";
+  const attachments = mail.attachments ?? [];
+  if (attachments.length === 0) {
+    return headers.join(CRLF) + CRLF + bodyHeaders + CRLF + CRLF + encodeQuotedPrintable(mail.body) + CRLF;
+  }
+  // Derived from the mail id so re-exports produce identical files.
+  const boundary = `----=_tutanota-cli_${mail.id[1]}`;
+  headers.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+  const parts = [bodyHeaders + CRLF + CRLF + encodeQuotedPrintable(mail.body), ...attachments.map(attachmentPart)];
+  return (
+    headers.join(CRLF) +
+    CRLF +
+    CRLF +
+    "This is a multi-part message in MIME format." +
+    CRLF +
+    parts.map((part) => `--${boundary}` + CRLF + part + CRLF).join("") +
+    `--${boundary}--` +
+    CRLF
+  );
+}
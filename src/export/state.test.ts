@@ -0,0 +1,74 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createExportState,
+  getExportStatePath,
+  getFolderState,
+  readExportState,
+  writeExportState,
+} from "./state.js";
+
+function tmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "tutanota-cli-state-"));
+}
+
+describe("export state", () => {
+  test("getExportStatePath puts the state next to the output", () => {
+    assert.equal(getExportStatePath("/backup/inbox.mbox"), "/backup/inbox.mbox.tutanota-cli-state.json");
+    assert.equal(getExportStatePath("/backup/INBOX/"), "/backup/INBOX.tutanota-cli-state.json");
+  });
+
+  test("readExportState returns null when the file does not exist", () => {
+    const dir = tmpDir();
+    try {
+      assert.equal(readExportState(path.join(dir, "missing.json")), null);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("round-trips folder entries, failures and mbox size", () => {
+    const dir = tmpDir();
+    try {
+      const statePath = path.join(dir, "state.json");
+      const state = createExportState("mbox");
+      const folder = getFolderState(state, "entries-list", "folder-1");
+      folder.lastEntryId = "entry-2";
+      folder.entries["entry-1"] = "mail-list/mail-1";
+      folder.failed["entry-2"] = "mail-list/mail-2";
+      state.outputSize = 1234;
+      writeExportState(statePath, state);
+
+      assert.equal(fs.statSync(statePath).mode & 0o777, 0o600);
+      assert.equal(fs.existsSync(statePath + ".tmp"), false);
+      assert.deepEqual(readExportState(statePath), state);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("getFolderState returns the existing folder state", () => {
+    const state = createExportState("eml");
+    const folder = getFolderState(state, "entries-list", "folder-1");
+    folder.lastEntryId = "entry-9";
+    assert.equal(getFolderState(state, "entries-list", "folder-1").lastEntryId, "entry-9");
+  });
+
+  test("readExportState rejects an invalid file instead of starting over", () => {
+    const dir = tmpDir();
+    try {
+      const statePath = path.join(dir, "state.json");
+      fs.writeFileSync(statePath, "{not json");
+      assert.throws(() => readExportState(statePath), /not valid JSON/);
+      fs.writeFileSync(statePath, JSON.stringify({ version: 1, format: "pst", folders: {} }));
+      assert.throws(() => readExportState(statePath), /unsupported version or format/);
+      fs.writeFileSync(statePath, JSON.stringify({ version: 1, format: "mbox", folders: { x: { folderId: 1 } } }));
+      assert.throws(() => readExportState(statePath), /invalid folder entry/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
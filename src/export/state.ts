@@ -0,0 +1,123 @@
+/**
+ * Export state file: which MailSetEntries have been written per folder, so interrupted exports resume
+ * and later runs only fetch entries newer than the last exported one.
+ *
+ * Stored next to the output as "<out>.tutanota-cli-state.json". Folders are keyed by MailSetEntry list id;
+ * entries by MailSetEntry element id (value: exported mail id "listId/elementId").
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getErrorMessage } from "../logger.js";
+import * as logger from "../logger.js";
+import { isExportFormat, type ExportFormat } from "./writer.js";
+
+const STATE_FILE_SUFFIX = ".tutanota-cli-state.json";
+const STATE_VERSION = 1;
+
+export interface FolderExportState {
+  /** Folder (MailSet) element id the entries list belongs to. */
+  folderId: string;
+  /** Element id of the newest MailSetEntry already processed; the next run starts after it. */
+  lastEntryId: string | null;
+  /** MailSetEntry element id -> exported mail id. */
+  entries: Record<string, string>;
+  /** MailSetEntry element id -> mail id for entries that failed; retried on the next run. */
+  failed: Record<string, string>;
+}
+
+export interface ExportState {
+  version: number;
+  format: ExportFormat;
+  /** mbox only: file size after the last saved page. A resumed run truncates back to it. */
+  outputSize?: number;
+  /** Keyed by MailSetEntry list id. */
+  folders: Record<string, FolderExportState>;
+}
+
+/** Path of the state file for an output path (file or directory). */
+export function getExportStatePath(outPath: string): string {
+  return path.resolve(outPath).replace(/[/\\]+$/, "") + STATE_FILE_SUFFIX;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function parseFolderState(raw: unknown): FolderExportState | null {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.folderId !== "string") return null;
+  if (r.lastEntryId != null && typeof r.lastEntryId !== "string") return null;
+  if (!isStringRecord(r.entries)) return null;
+  return {
+    folderId: r.folderId,
+    lastEntryId: (r.lastEntryId as string | null | undefined) ?? null,
+    entries: r.entries,
+    failed: isStringRecord(r.failed) ? r.failed : {},
+  };
+}
+
+/**
+ * Read the state file. Returns null if it does not exist.
+ * Throws if the file is unreadable or not a valid state file, so a broken state never silently restarts an export.
+ */
+export function readExportState(statePath: string): ExportState | null {
+  let data: string;
+  try {
+    data = fs.readFileSync(statePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+      logger.log("No export state at " + statePath);
+      return null;
+    }
+    throw err;
+  }
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(data) as Record<string, unknown>;
+  } catch (err) {
+    throw new Error("Export state file is not valid JSON: " + statePath + " (" + getErrorMessage(err) + ")");
+  }
+  if (parsed.version !== STATE_VERSION || typeof parsed.format !== "string" || !isExportFormat(parsed.format)) {
+    throw new Error("Export state file has an unsupported version or format: " + statePath);
+  }
+  const folders: Record<string, FolderExportState> = {};
+  const foldersRaw = parsed.folders;
+  if (foldersRaw != null && typeof foldersRaw === "object" && !Array.isArray(foldersRaw)) {
+    for (const [listId, raw] of Object.entries(foldersRaw)) {
+      const folder = parseFolderState(raw);
+      if (folder == null) throw new Error("Export state file has an invalid folder entry: " + listId);
+      folders[listId] = folder;
+    }
+  }
+  const state: ExportState = { version: STATE_VERSION, format: parsed.format, folders };
+  if (typeof parsed.outputSize === "number") state.outputSize = parsed.outputSize;
+  return state;
+}
+
+/** Write the state file atomically (temp file + rename), mode 0o600. */
+export function writeExportState(statePath: string, state: ExportState): void {
+  const tmpPath = statePath + ".tmp";
+  fs.writeFileSync(tmpPath, JSON.stringify(state), { mode: 0o600 });
+  fs.renameSync(tmpPath, statePath);
+}
+
+export function createExportState(format: ExportFormat): ExportState {
+  return { version: STATE_VERSION, format, folders: {} };
+}
+
+/** Get (or create) the state for a folder's MailSetEntry list. */
+export function getFolderState(state: ExportState, entriesListId: string, folderId: string): FolderExportState {
+  let folder = state.folders[entriesListId];
+  if (folder == null) {
+    folder = { folderId, lastEntryId: null, entries: {}, failed: {} };
+    state.folders[entriesListId] = folder;
+  }
+  return folder;
+}
@@ -0,0 +1,43 @@
+/**
+ * Export writers: one interface for all output layouts so the export loop does not care about the format.
+ */
+
+import { createEmlWriter } from "./eml.js";
+import { createMaildirWriter } from "./maildir.js";
+import { createMboxWriter } from "./mbox.js";
+import type { ExportMail } from "./message.js";
+
+export const EXPORT_FORMATS = ["mbox", "maildir", "eml"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportWriter {
+  /** Write one mail. Writers may buffer; call close() when done. */
+  write(mail: ExportMail): void;
+  close(): void;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface ExportWriterOptions {
+  /** Continue an earlier export: mbox appends (after truncating to truncateTo) instead of overwriting. */
+  append?: boolean;
+  truncateTo?: number;
+}
+
+/**
+ * Create a writer for the format. mbox writes a single file at outPath;
+ * maildir and eml treat outPath as a directory and write one file per message (re-writes are idempotent).
+ */
+export function createExportWriter(format: ExportFormat, outPath: string, options: ExportWriterOptions = {}): ExportWriter {
+  switch (format) {
+    case "mbox":
+      return createMboxWriter(outPath, options);
+    case "maildir":
+      return createMaildirWriter(outPath);
+    case "eml":
+      return createEmlWriter(outPath);
+  }
+}
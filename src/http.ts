@@ -1,8 +1,9 @@
 import * as logger from "./logger.js";
 
-const SYS_MODEL_VERSION = "143";
+/** sys model version sent in the v header unless a request sets its own (entity loads send their type's version). */
+export const SYS_MODEL_VERSION = "143";
 /** Client version sent in cv header; should match @tutao package version. */
-const CLIENT_VERSION = "327.260210.0";
+export const CLIENT_VERSION = "327.260210.0";
 /** Client platform: 5 = WEB (see ClientPlatform in main app). */
 const CLIENT_PLATFORM = "5";
 const USER_AGENT = "Tutanota-CLI/0.1.0";
@@ -14,21 +15,70 @@ export interface RequestOptions {
   extraHeaders?: Record<string, string>;
   /** When true and verbose mode is on, log response status/size and raw body. */
   verboseResponse?: boolean;
+  /** Type or app the v header is for (e.g. "tutanota/Mail"); named in model version errors. Default "sys". */
+  modelName?: string;
 }
 
-export async function get<T>(baseUrl: string, path: string, options: RequestOptions = {}): Promise<T> {
-  const url = new URL(path, baseUrl);
-  if (options.body != null) {
-    url.searchParams.set("_body", JSON.stringify(options.body));
+/** HTTP status the server answers with when it no longer accepts the client version (InvalidSoftwareVersionError). */
+const OUTDATED_CLIENT_STATUS = 474;
+
+/**
+ * The server rejected the client version (cv header) or the model version (v header) of a request.
+ * modelName and version are the ones sent; for an outdated client, version is the client version.
+ */
+export class VersionMismatchError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly outdatedClient: boolean,
+    readonly modelName: string,
+    readonly version: string
+  ) {
+    super(message);
+    this.name = "VersionMismatchError";
   }
+}
 
-  const urlString = url.toString();
-  logger.log(`GET ${url.origin}${url.pathname}${url.search || ""}`);
+/** HTTP status from an http.get/post error ("HTTP 503: ..." or a VersionMismatchError), or null for network errors. */
+export function httpStatusOf(err: unknown): number | null {
+  if (err instanceof VersionMismatchError) return err.status;
+  const match = /^HTTP (\d{3})\b/.exec(err instanceof Error ? err.message : String(err));
+  return match != null ? parseInt(match[1], 10) : null;
+}
 
+/** Error for a non-ok response: VersionMismatchError for version rejections, otherwise "HTTP <status>: <body>". */
+async function responseError(res: Response, headers: Record<string, string>, options: RequestOptions): Promise<Error> {
+  const text = await res.text();
+  if (logger.isVerbose() && text) console.error("[verbose] response body:", text);
+  if (res.status === OUTDATED_CLIENT_STATUS) {
+    return new VersionMismatchError(
+      `Outdated client: the server no longer accepts client version ${CLIENT_VERSION} (HTTP ${res.status}). ` +
+        "Update the CLI; run 'tutanota-cli doctor' to check the type models.",
+      res.status,
+      true,
+      "client",
+      CLIENT_VERSION
+    );
+  }
+  if (res.status >= 400 && res.status < 500 && /model.?version/i.test(text)) {
+    const modelName = options.modelName ?? "sys";
+    return new VersionMismatchError(
+      `Invalid model version: the server rejected ${modelName} version ${headers.v} (HTTP ${res.status}: ${text}). ` +
+        "Regenerate the type models (see README) and run 'tutanota-cli doctor'.",
+      res.status,
+      false,
+      modelName,
+      headers.v
+    );
+  }
+  return new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+}
+
+function buildHeaders(options: RequestOptions, accept = "application/json"): Record<string, string> {
   const headers: Record<string, string> = {
     "User-Agent": USER_AGENT,
     "Content-Type": "application/json",
-    Accept: "application/json",
+    Accept: accept,
     v: SYS_MODEL_VERSION,
     cv: CLIENT_VERSION,
     cp: CLIENT_PLATFORM,
@@ -39,6 +89,19 @@ export async function get<T>(baseUrl: string, path: string, options: RequestOpti
   if (options.extraHeaders) {
     Object.assign(headers, options.extraHeaders);
   }
+  return headers;
+}
+
+export async function get<T>(baseUrl: string, path: string, options: RequestOptions = {}): Promise<T> {
+  const url = new URL(path, baseUrl);
+  if (options.body != null) {
+    url.searchParams.set("_body", JSON.stringify(options.body));
+  }
+
+  const urlString = url.toString();
+  logger.log(`GET ${url.origin}${url.pathname}${url.search || ""}`);
+
+  const headers = buildHeaders(options);
 
   let res: Response;
   try {
@@ -60,9 +123,7 @@ export async function get<T>(baseUrl: string, path: string, options: RequestOpti
   }
 
   if (!res.ok) {
-    const text = await res.text();
-    if (logger.isVerbose() && text) console.error("[verbose] response body:", text);
-    throw new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+    throw await responseError(res, headers, options);
   }
 
   if (options.verboseResponse && logger.isVerbose()) {
@@ -76,25 +137,44 @@ export async function get<T>(baseUrl: string, path: string, options: RequestOpti
   return res.json() as Promise<T>;
 }
 
-export async function post<T>(baseUrl: string, path: string, body: object, options: RequestOptions = {}): Promise<T> {
+/** GET a binary response (e.g. blob data). Same error handling as get(). */
+export async function getBinary(baseUrl: string, path: string, options: RequestOptions = {}): Promise<Uint8Array> {
   const url = new URL(path, baseUrl);
-  logger.log(`POST ${url.origin}${url.pathname}`);
+  if (options.body != null) {
+    url.searchParams.set("_body", JSON.stringify(options.body));
+  }
+  logger.log(`GET ${url.origin}${url.pathname}`);
 
-  const headers: Record<string, string> = {
-    "User-Agent": USER_AGENT,
-    "Content-Type": "application/json",
-    Accept: "application/json",
-    v: SYS_MODEL_VERSION,
-    cv: CLIENT_VERSION,
-    cp: CLIENT_PLATFORM,
-  };
-  if (options.accessToken) {
-    headers.accessToken = options.accessToken;
+  const headers = buildHeaders(options, "application/octet-stream");
+  let res: Response;
+  try {
+    res = await fetch(url.toString(), {
+      method: "GET",
+      headers,
+    });
+  } catch (err) {
+    if (logger.isVerbose()) {
+      const cause = err instanceof Error ? err.cause : null;
+      console.error("Request failed: GET", url.origin + url.pathname);
+      console.error("Error:", err);
+      if (cause) console.error("Cause:", cause);
+    }
+    throw err;
   }
-  if (options.extraHeaders) {
-    Object.assign(headers, options.extraHeaders);
+
+  if (!res.ok) {
+    throw await responseError(res, headers, options);
   }
 
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+export async function post<T>(baseUrl: string, path: string, body: object, options: RequestOptions = {}): Promise<T> {
+  const url = new URL(path, baseUrl);
+  logger.log(`POST ${url.origin}${url.pathname}`);
+
+  const headers = buildHeaders(options);
+
   let res: Response;
   try {
     res = await fetch(url.toString(), {
@@ -114,10 +194,65 @@ export async function post<T>(baseUrl: string, path: string, body: object, optio
   }
 
   if (!res.ok) {
-    const text = await res.text();
-    if (logger.isVerbose() && text) console.error("[verbose] response body:", text);
-    throw new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+    throw await responseError(res, headers, options);
   }
 
   return res.json() as Promise<T>;
 }
+
+/** DELETE (e.g. an entity). Same error handling as get(); the response body is ignored. */
+export async function del(baseUrl: string, path: string, options: RequestOptions = {}): Promise<void> {
+  const url = new URL(path, baseUrl);
+  logger.log(`DELETE ${url.origin}${url.pathname}`);
+
+  const headers = buildHeaders(options);
+
+  let res: Response;
+  try {
+    res = await fetch(url.toString(), {
+      method: "DELETE",
+      headers,
+    });
+  } catch (err) {
+    if (logger.isVerbose()) {
+      const cause = err instanceof Error ? err.cause : null;
+      console.error("Request failed: DELETE", url.origin + url.pathname);
+      console.error("Error:", err);
+      if (cause) console.error("Cause:", cause);
+    }
+    throw err;
+  }
+
+  if (!res.ok) {
+    throw await responseError(res, headers, options);
+  }
+}
+
+/** PUT (e.g. an updated entity). Same error handling as get(); the response body is ignored. */
+export async function put(baseUrl: string, path: string, body: object, options: RequestOptions = {}): Promise<void> {
+  const url = new URL(path, baseUrl);
+  logger.log(`PUT ${url.origin}${url.pathname}`);
+
+  const headers = buildHeaders(options);
+
+  let res: Response;
+  try {
+    res = await fetch(url.toString(), {
+      method: "PUT",
+      headers,
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    if (logger.isVerbose()) {
+      const cause = err instanceof Error ? err.cause : null;
+      console.error("Request failed: PUT", url.origin + url.pathname);
+      console.error("Error:", err);
+      if (cause) console.error("Cause:", cause);
+    }
+    throw err;
+  }
+
+  if (!res.ok) {
+    throw await responseError(res, headers, options);
+  }
+}
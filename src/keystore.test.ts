@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { keyToUint8Array, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import { getKeystorePath, openKeystore, readKeystoreInfo, removeKeystore, saveKeystore } from "./keystore.js";
+import { setProfile } from "./session.js";
+
+const savedEnv = { ...process.env };
+const passphraseKey = uint8ArrayToKey(new Uint8Array(randomBytes(32)));
+let configHome: string;
+
+function noPassphrase(): Promise<string> {
+  throw new Error("passphrase not expected");
+}
+
+describe("keystore", () => {
+  beforeEach(() => {
+    configHome = fs.mkdtempSync(path.join(os.tmpdir(), "tutanota-cli-keystore-"));
+    process.env.XDG_CONFIG_HOME = configHome;
+    delete process.env.TUTANOTA_PROFILE;
+    setProfile(null);
+  });
+
+  afterEach(() => {
+    setProfile(null);
+    process.env = { ...savedEnv };
+    fs.rmSync(configHome, { recursive: true, force: true });
+  });
+
+  test("keystores are per profile in the config directory", () => {
+    setProfile("work");
+    assert.equal(getKeystorePath(), path.join(configHome, "tutanota-cli", "keystore", "work.json"));
+    assert.equal(getKeystorePath("default"), path.join(configHome, "tutanota-cli", "keystore", "default.json"));
+    assert.throws(() => getKeystorePath("../x"), /Invalid profile name/);
+  });
+
+  test("a key file keystore creates the key file and returns the stored key", async () => {
+    const keyFile = path.join(configHome, "keys", "cli.key");
+    await saveKeystore(passphraseKey, "u1", { method: "keyFile", keyFile });
+    assert.equal(fs.statSync(keyFile).mode & 0o777, 0o600);
+    assert.equal(fs.statSync(getKeystorePath()).mode & 0o777, 0o600);
+    assert.deepEqual(readKeystoreInfo(), { userId: "u1", method: "keyFile", keyFile });
+
+    const key = await openKeystore("u1", noPassphrase);
+    assert.ok(key != null);
+    assert.deepEqual(keyToUint8Array(key), keyToUint8Array(passphraseKey));
+    assert.equal(await openKeystore("other-user", noPassphrase), null);
+
+    fs.chmodSync(keyFile, 0o644);
+    await assert.rejects(openKeystore("u1", noPassphrase), /must only be readable by you/);
+  });
+
+  test("a passphrase keystore rejects a wrong passphrase", async () => {
+    await saveKeystore(passphraseKey, "u1", { method: "passphrase", passphrase: "correct horse" });
+    const key = await openKeystore("u1", async () => "correct horse");
+    assert.deepEqual(keyToUint8Array(key!), keyToUint8Array(passphraseKey));
+    await assert.rejects(openKeystore("u1", async () => "wrong"), /Wrong keystore passphrase/);
+  });
+
+  test("removeKeystore locks the profile", async () => {
+    await saveKeystore(passphraseKey, "u1", { method: "keyFile", keyFile: path.join(configHome, "cli.key") });
+    assert.equal(removeKeystore(), true);
+    assert.equal(removeKeystore(), false);
+    assert.equal(readKeystoreInfo(), null);
+    assert.equal(await openKeystore("u1", noPassphrase), null);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Local keystore: the user passphrase key of a profile, encrypted under a local unlock secret, so commands that
+ * decrypt can reuse a stored session without asking for the account password ('auth unlock' / 'auth lock').
+ *
+ * The unlock secret is either a keystore passphrase (Argon2id, same parameters as the account KDF) or a key file
+ * with 32 random bytes (base64) that only its owner can read. The key is encrypted with AES-256 and a MAC, so a
+ * wrong passphrase or key file is detected.
+ *
+ * Stored per profile as keystore/<profile>.json next to the session files (mode 0600).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { aesDecrypt, aesEncrypt, keyToUint8Array, random, uint8ArrayToKey } from "@tutao/tutanota-crypto";
+import type { AesKey } from "./auth/kdf.js";
+import { deriveUserPassphraseKey } from "./auth/kdf.js";
+import { getErrorMessage } from "./logger.js";
+import * as logger from "./logger.js";
+import { getConfigDir, getProfile, validateProfileName } from "./session.js";
+
+const KEYSTORE_DIR = "keystore";
+const KEYSTORE_VERSION = 1;
+/** kdfVersion for deriveUserPassphraseKey: Argon2id. */
+const KDF_ARGON2ID = "1";
+const SALT_LENGTH = 16;
+const KEY_FILE_LENGTH = 32;
+
+export type KeystoreMethod = "passphrase" | "keyFile";
+
+/** How the keystore is unlocked: a passphrase, or a key file (created by 'auth unlock --key-file' if missing). */
+export type KeystoreSecret = { method: "passphrase"; passphrase: string } | { method: "keyFile"; keyFile: string };
+
+interface KeystoreFile {
+  version: number;
+  userId: string;
+  method: KeystoreMethod;
+  /** Absolute path of the key file (method keyFile). */
+  keyFile?: string;
+  /** Argon2id salt, base64 (method passphrase). */
+  salt?: string;
+  /** Passphrase key bytes encrypted with the unlock key, base64. */
+  encryptedKey: string;
+}
+
+export interface KeystoreInfo {
+  userId: string;
+  method: KeystoreMethod;
+  keyFile: string | null;
+}
+
+/** Path of a profile's keystore (default: the profile in use). */
+export function getKeystorePath(profile = getProfile()): string {
+  return path.join(getConfigDir(), KEYSTORE_DIR, validateProfileName(profile) + ".json");
+}
+
+function readKeystoreFile(profile: string): KeystoreFile | null {
+  const filePath = getKeystorePath(profile);
+  let parsed: Partial<KeystoreFile>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<KeystoreFile>;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw new Error(`Could not read keystore ${filePath}: ${getErrorMessage(err)}`);
+  }
+  if (
+    parsed.version !== KEYSTORE_VERSION ||
+    typeof parsed.userId !== "string" ||
+    typeof parsed.encryptedKey !== "string" ||
+    (parsed.method !== "passphrase" && parsed.method !== "keyFile")
+  ) {
+    throw new Error(`Keystore ${filePath} is invalid; run 'auth lock' and 'auth unlock' again.`);
+  }
+  return parsed as KeystoreFile;
+}
+
+/** The profile's keystore (user and unlock method), or null when it is locked (no keystore). */
+export function readKeystoreInfo(profile = getProfile()): KeystoreInfo | null {
+  const keystore = readKeystoreFile(profile);
+  if (keystore == null) return null;
+  return { userId: keystore.userId, method: keystore.method, keyFile: keystore.keyFile ?? null };
+}
+
+/** Create a key file with random bytes (mode 0600). Fails if the file exists. */
+function createKeyFile(keyFile: string): void {
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(keyFile, randomBytes(KEY_FILE_LENGTH).toString("base64") + "\n", { mode: 0o600, flag: "wx" });
+}
+
+/** Read a key file; refuses files that others can read. */
+function readKeyFile(keyFile: string): AesKey {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(keyFile);
+  } catch (err) {
+    throw new Error(`Could not read key file ${keyFile}: ${getErrorMessage(err)}`);
+  }
+  if (process.platform !== "win32" && (stat.mode & 0o077) !== 0) {
+    throw new Error(`Key file ${keyFile} must only be readable by you (chmod 600 ${keyFile}).`);
+  }
+  const bytes = Buffer.from(fs.readFileSync(keyFile, "utf8").trim(), "base64");
+  if (bytes.length !== KEY_FILE_LENGTH) {
+    throw new Error(`Key file ${keyFile} must contain ${KEY_FILE_LENGTH} bytes as base64.`);
+  }
+  return uint8ArrayToKey(new Uint8Array(bytes));
+}
+
+async function unlockKey(secret: KeystoreSecret, salt: Uint8Array | null): Promise<AesKey> {
+  if (secret.method === "keyFile") return readKeyFile(secret.keyFile);
+  if (salt == null) throw new Error("Keystore has no salt.");
+  return deriveUserPassphraseKey(secret.passphrase, salt, KDF_ARGON2ID);
+}
+
+/**
+ * Store the user passphrase key for userId, encrypted under the secret; replaces an existing keystore.
+ * With a key file that does not exist yet, the key file is created.
+ */
+export async function saveKeystore(
+  passphraseKey: AesKey,
+  userId: string,
+  secret: KeystoreSecret,
+  profile = getProfile()
+): Promise<void> {
+  random.addStaticEntropy(new Uint8Array(randomBytes(32)));
+  let keystore: KeystoreFile;
+  if (secret.method === "keyFile") {
+    const keyFile = path.resolve(secret.keyFile);
+    if (!fs.existsSync(keyFile)) {
+      logger.log("Creating key file " + keyFile);
+      createKeyFile(keyFile);
+    }
+    const unlock = readKeyFile(keyFile);
+    keystore = {
+      version: KEYSTORE_VERSION,
+      userId,
+      method: "keyFile",
+      keyFile,
+      encryptedKey: Buffer.from(aesEncrypt(unlock, keyToUint8Array(passphraseKey))).toString("base64"),
+    };
+  } else {
+    const salt = new Uint8Array(randomBytes(SALT_LENGTH));
+    const unlock = await unlockKey(secret, salt);
+    keystore = {
+      version: KEYSTORE_VERSION,
+      userId,
+      method: "passphrase",
+      salt: Buffer.from(salt).toString("base64"),
+      encryptedKey: Buffer.from(aesEncrypt(unlock, keyToUint8Array(passphraseKey))).toString("base64"),
+    };
+  }
+  const filePath = getKeystorePath(profile);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(filePath, JSON.stringify(keystore), { mode: 0o600 });
+}
+
+/**
+ * The stored passphrase key for userId, or null when the profile has no keystore or it belongs to another user.
+ * getPassphrase is only called for passphrase keystores. Throws on a wrong passphrase or key file.
+ */
+export async function openKeystore(
+  userId: string,
+  getPassphrase: () => Promise<string>,
+  profile = getProfile()
+): Promise<AesKey | null> {
+  const keystore = readKeystoreFile(profile);
+  if (keystore == null) return null;
+  if (keystore.userId !== userId) {
+    logger.log("Keystore belongs to another user; ignoring it.");
+    return null;
+  }
+  const secret: KeystoreSecret =
+    keystore.method === "keyFile"
+      ? { method: "keyFile", keyFile: keystore.keyFile ?? "" }
+      : { method: "passphrase", passphrase: await getPassphrase() };
+  const salt = keystore.salt != null ? new Uint8Array(Buffer.from(keystore.salt, "base64")) : null;
+  const unlock = await unlockKey(secret, salt);
+  try {
+    return uint8ArrayToKey(aesDecrypt(unlock, new Uint8Array(Buffer.from(keystore.encryptedKey, "base64"))));
+  } catch {
+    throw new Error(
+      keystore.method === "keyFile"
+        ? `Could not decrypt the keystore with key file ${keystore.keyFile}.`
+        : "Wrong keystore passphrase."
+    );
+  }
+}
+
+/** Delete the profile's keystore ('auth lock'). Returns false when there was none. The key file is kept. */
+export function removeKeystore(profile = getProfile()): boolean {
+  try {
+    fs.unlinkSync(getKeystorePath(profile));
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return false;
+    throw err;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { attachmentFileName, decryptFile } from "./attachments.js";
+
+describe("attachments", () => {
+  test("decryptFile with sessionKey null: plain size and blobs, defaults for encrypted values", () => {
+    const file = decryptFile(
+      ["fl", "f1"],
+      {
+        "16": "f1",
+        "18": "enc-name",
+        "19": "2048",
+        "20": "enc-mime",
+        "1225": [{ "2128": "b", "2129": "archive", "2130": "blob-1", "2131": "2048" }],
+      },
+      null
+    );
+    assert.equal(file.name, "");
+    assert.equal(file.mimeType, "application/octet-stream");
+    assert.equal(file.size, 2048);
+    assert.equal(file.cid, null);
+    assert.deepEqual(file.blobs, [{ archiveId: "archive", blobId: "blob-1" }]);
+  });
+
+  describe("attachmentFileName", () => {
+    test("strips directories and makes names unique", () => {
+      const taken = new Set<string>();
+      assert.equal(attachmentFileName("../../invoice.pdf", taken), "invoice.pdf");
+      assert.equal(attachmentFileName("invoice.pdf", taken), "invoice (1).pdf");
+      assert.equal(attachmentFileName("C:\\tmp\\invoice.pdf", taken), "invoice (2).pdf");
+    });
+
+    test("falls back to 'attachment' for empty names", () => {
+      const taken = new Set<string>();
+      assert.equal(attachmentFileName("", taken), "attachment");
+      assert.equal(attachmentFileName("..", taken), "attachment (1)");
+    });
+  });
+});
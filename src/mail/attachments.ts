@@ -0,0 +1,101 @@
+/**
+ * Mail attachments: File entities referenced by Mail.attachments, with their content stored as blobs.
+ * Each File has its own session key (resolved through the KeyChain like the Mail's, or from the bucket key of a
+ * received mail); blob data is encrypted with it.
+ */
+
+import * as path from "path";
+import type { AesKey } from "../auth/kdf.js";
+import { ARCHIVE_DATA_TYPE_ATTACHMENTS, type BlobStore, type ReferencingInstance } from "../blob.js";
+import { decryptParsedInstance, loadSessionKey, type ServerInstance } from "../crypto/decryptInstance.js";
+import type { KeyChain } from "../crypto/keyChain.js";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { File, Mail } from "../crypto/entities.js";
+import { FILE } from "../crypto/typeModels.js";
+import { loadEntity } from "../rest.js";
+
+export interface Attachment {
+  /** File id as [listId, elementId]. */
+  id: [string, string];
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Content-ID for inline images, or null. */
+  cid: string | null;
+  /** File session key; null if it could not be resolved (download then fails). */
+  sessionKey: AesKey | null;
+  blobs: { archiveId: string; blobId: string }[];
+}
+
+/** Decrypt a raw File instance with its session key. */
+export function decryptFile(id: [string, string], fileRaw: ServerInstance, sessionKey: AesKey | null): Attachment {
+  const file = decodeInstance<File>(FILE, decryptParsedInstance(FILE, fileRaw, sessionKey));
+  const cid = file.cid.trim();
+  return {
+    id,
+    name: file.name,
+    mimeType: file.mimeType || "application/octet-stream",
+    size: file.size ?? 0,
+    cid: cid !== "" ? cid : null,
+    sessionKey,
+    blobs: file.blobs.map((b) => ({ archiveId: b.archiveId ?? "", blobId: b.blobId ?? "" })),
+  };
+}
+
+/**
+ * Load and decrypt the File entities of a mail, in attachment order. Files without an owner session key take theirs
+ * from bucketSessionKeys (by file element id, see resolveBucketSessionKeys).
+ */
+export async function loadAttachments(
+  baseUrl: string,
+  accessToken: string,
+  keyChain: KeyChain,
+  mail: Mail,
+  bucketSessionKeys: Map<string, AesKey> = new Map()
+): Promise<Attachment[]> {
+  return Promise.all(
+    mail.attachments.map(async (id) => {
+      const fileRaw = await loadEntity<ServerInstance>(baseUrl, FILE, id, { accessToken });
+      const sessionKey = (await loadSessionKey(keyChain, fileRaw, FILE)) ?? bucketSessionKeys.get(id[1]) ?? null;
+      return decryptFile(id, fileRaw, sessionKey);
+    })
+  );
+}
+
+function requireSessionKey(attachment: Attachment): AesKey {
+  if (attachment.sessionKey == null) {
+    throw new Error("Could not resolve session key for attachment " + attachment.id.join("/") + ".");
+  }
+  return attachment.sessionKey;
+}
+
+function referencingInstance(attachment: Attachment): ReferencingInstance {
+  return { archiveDataType: ARCHIVE_DATA_TYPE_ATTACHMENTS, id: attachment.id };
+}
+
+/** Download and decrypt an attachment's content, yielding one decrypted blob at a time (for writing large files). */
+export function streamAttachment(blobStore: BlobStore, attachment: Attachment): AsyncGenerator<Uint8Array> {
+  return blobStore.streamDecryptedBlobs(attachment.blobs, requireSessionKey(attachment), referencingInstance(attachment));
+}
+
+/** Download and decrypt an attachment's content (its blobs, concatenated in order). */
+export function downloadAttachment(blobStore: BlobStore, attachment: Attachment): Promise<Uint8Array> {
+  return blobStore.downloadDecryptedBlobs(attachment.blobs, requireSessionKey(attachment), referencingInstance(attachment));
+}
+
+/**
+ * File name to save an attachment under: the base name without path separators or control characters,
+ * made unique against names already used (" (1)", " (2)", ... before the extension).
+ */
+export function attachmentFileName(name: string, taken: Set<string>): string {
+  const cleaned = path.basename(name.replace(/\\/g, "/")).replace(/[\x00-\x1f\x7f/]/g, "_").trim();
+  const base = cleaned === "" || cleaned === "." || cleaned === ".." ? "attachment" : cleaned;
+  const ext = path.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  let candidate = base;
+  for (let i = 1; taken.has(candidate); i++) {
+    candidate = `${stem} (${i})${ext}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
@@ -0,0 +1,37 @@
+/**
+ * Message-ID and In-Reply-To for a Mail, from its ConversationEntry and the entry it follows (previous).
+ * ConversationEntry is not encrypted, so no session key is needed.
+ */
+
+import type { ServerInstance } from "../crypto/decryptInstance.js";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { ConversationEntry, IdTuple, Mail } from "../crypto/entities.js";
+import { CONVERSATION_ENTRY } from "../crypto/typeModels.js";
+import { loadEntity } from "../rest.js";
+
+async function loadConversationEntry(baseUrl: string, accessToken: string, id: IdTuple): Promise<ConversationEntry> {
+  const raw = await loadEntity<ServerInstance>(baseUrl, CONVERSATION_ENTRY, id, { accessToken });
+  return decodeInstance<ConversationEntry>(CONVERSATION_ENTRY, raw);
+}
+
+function messageIdOf(entry: ConversationEntry): string | null {
+  return entry.messageId != null && entry.messageId.trim() !== "" ? entry.messageId : null;
+}
+
+/**
+ * Load the Message-ID of a mail and the Message-ID it replies to (if any).
+ * Returns nulls when the mail has no conversation entry.
+ */
+export async function loadMessageIds(
+  baseUrl: string,
+  accessToken: string,
+  mail: Mail
+): Promise<{ messageId: string | null; inReplyTo: string | null }> {
+  if (mail.conversationEntry == null) return { messageId: null, inReplyTo: null };
+  const entry = await loadConversationEntry(baseUrl, accessToken, mail.conversationEntry);
+  let inReplyTo: string | null = null;
+  if (entry.previous != null) {
+    inReplyTo = messageIdOf(await loadConversationEntry(baseUrl, accessToken, entry.previous));
+  }
+  return { messageId: messageIdOf(entry), inReplyTo };
+}
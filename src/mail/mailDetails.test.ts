@@ -0,0 +1,54 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { Mail } from "../crypto/entities.js";
+import { MAIL } from "../crypto/typeModels.js";
+import { decryptMailDetailsBlob, mailSenderOf } from "./mailDetails.js";
+
+describe("mailDetails", () => {
+  describe("decryptMailDetailsBlob", () => {
+    test("with sessionKey null: reads sentDate and plain recipient addresses, names default to empty", () => {
+      const blobRaw = {
+        "1284": ["archive", "blob"],
+        "1289": [
+          {
+            "1276": "d1",
+            "1277": "1767225600000",
+            "1279": [],
+            "1280": [
+              {
+                "1270": "r1",
+                "1271": [{ "93": "a1", "94": "enc-name", "95": "to@example.com" }],
+                "1272": [{ "93": "a2", "94": "", "95": "cc@example.com" }],
+                "1273": [],
+              },
+            ],
+            "1281": [{ "1257": "b1", "1258": "enc-text", "1259": null }],
+          },
+        ],
+      };
+      const details = decryptMailDetailsBlob(blobRaw, null);
+      assert.equal(details.sentDate?.toISOString(), "2026-01-01T00:00:00.000Z");
+      assert.deepEqual(details.toRecipients, [{ name: "", address: "to@example.com" }]);
+      assert.deepEqual(details.ccRecipients, [{ name: "", address: "cc@example.com" }]);
+      assert.deepEqual(details.bccRecipients, []);
+      assert.deepEqual(details.replyTos, []);
+      assert.equal(details.body, "");
+    });
+
+    test("throws when details aggregation is missing", () => {
+      assert.throws(() => decryptMailDetailsBlob({ "1284": ["a", "b"] }, null), /MailDetailsBlob missing details/);
+    });
+  });
+
+  describe("mailSenderOf", () => {
+    test("unwraps single-element sender aggregation", () => {
+      const mail = decodeInstance<Mail>(MAIL, { "111": [{ "93": "s", "94": "Sender", "95": "from@example.com" }] });
+      assert.deepEqual(mailSenderOf(mail), { name: "Sender", address: "from@example.com" });
+    });
+
+    test("returns null when sender is missing", () => {
+      assert.equal(mailSenderOf(decodeInstance<Mail>(MAIL, {})), null);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Load and decrypt MailDetailsBlob for a Mail: body, recipients, reply-tos and sent date.
+ * The blob lives on a blob server; reading it needs a blob access token from the storage BlobAccessTokenService.
+ */
+
+import type { BlobStore } from "../blob.js";
+import type { AesKey } from "../auth/kdf.js";
+import { decryptParsedInstance, type ServerInstance } from "../crypto/decryptInstance.js";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { EncryptedMailAddress, Mail, MailAddress, MailDetailsBlob } from "../crypto/entities.js";
+import { MAIL_DETAILS_BLOB } from "../crypto/typeModels.js";
+
+export interface MailAddressInfo {
+  name: string;
+  address: string;
+}
+
+export interface MailDetails {
+  sentDate: Date | null;
+  body: string;
+  toRecipients: MailAddressInfo[];
+  ccRecipients: MailAddressInfo[];
+  bccRecipients: MailAddressInfo[];
+  replyTos: MailAddressInfo[];
+}
+
+function mailAddressInfo(address: MailAddress | EncryptedMailAddress): MailAddressInfo {
+  return { name: address.name, address: address.address ?? "" };
+}
+
+/** Sender of a Mail, or null if it has none. */
+export function mailSenderOf(mail: Mail): MailAddressInfo | null {
+  return mail.sender != null ? mailAddressInfo(mail.sender) : null;
+}
+
+/**
+ * Decrypt a raw MailDetailsBlob with the mail's session key.
+ * Aggregates (MailDetails, Recipients, Body, addresses) are encrypted with the same session key as their parent.
+ */
+export function decryptMailDetailsBlob(blobRaw: ServerInstance, sessionKey: AesKey | null): MailDetails {
+  const blob = decodeInstance<MailDetailsBlob>(
+    MAIL_DETAILS_BLOB,
+    decryptParsedInstance(MAIL_DETAILS_BLOB, blobRaw, sessionKey)
+  );
+  const details = blob.details;
+  if (details == null) {
+    throw new Error("MailDetailsBlob missing details.");
+  }
+  const body = details.body;
+  return {
+    sentDate: details.sentDate,
+    body: body == null ? "" : body.compressedText !== "" ? body.compressedText : body.text,
+    toRecipients: (details.recipients?.toRecipients ?? []).map(mailAddressInfo),
+    ccRecipients: (details.recipients?.ccRecipients ?? []).map(mailAddressInfo),
+    bccRecipients: (details.recipients?.bccRecipients ?? []).map(mailAddressInfo),
+    replyTos: details.replyTos.map(mailAddressInfo),
+  };
+}
+
+/**
+ * Load the MailDetailsBlob referenced by a Mail and decrypt it with the mail's session key.
+ * Throws if the mail has no mailDetails (e.g. drafts, which use MailDetailsDraft instead).
+ */
+export async function loadMailDetails(
+  blobStore: BlobStore,
+  mail: Mail,
+  sessionKey: AesKey | null
+): Promise<MailDetails> {
+  if (mail.mailDetails == null) {
+    throw new Error("Mail has no mailDetails (drafts are not supported).");
+  }
+  const [archiveId, blobElementId] = mail.mailDetails;
+
+  const blobs = await blobStore.loadBlobElements<ServerInstance>(MAIL_DETAILS_BLOB, archiveId, [blobElementId]);
+  if (!Array.isArray(blobs) || blobs.length === 0) {
+    throw new Error("MailDetailsBlob not found: " + archiveId + "/" + blobElementId);
+  }
+  return decryptMailDetailsBlob(blobs[0], sessionKey);
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { UserKeyMaterial } from "../auth/userKeyMaterial.js";
+import { listMailboxes, resolveMailboxId, selectMailbox } from "./mailboxes.js";
+
+const API = "https://api.example";
+const originalFetch = globalThis.fetch;
+let requests: string[];
+
+function membership(group: string, groupType: string, groupInfo: [string, string] | null) {
+  return { symEncGKey: new Uint8Array(0), groupKeyVersion: "0", symKeyVersion: "0", group, groupType, groupInfo };
+}
+
+const keyMaterial: UserKeyMaterial = {
+  userGroup: { symEncGKey: new Uint8Array(0), groupKeyVersion: "0", symKeyVersion: "0", group: "user-group" },
+  memberships: [
+    membership("personal-group", "5", ["infos", "personal-info"]),
+    membership("customer-group", "3", null),
+    membership("shared-group", "5", ["infos", "shared-info"]),
+    membership("broken-group", "5", ["infos", "missing-info"]),
+  ],
+};
+
+describe("mailboxes", () => {
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+      const responses: Record<string, unknown> = {
+        "/rest/sys/groupinfo/infos/personal-info": { "16": ["infos", "personal-info"], "22": "me@company.com" },
+        "/rest/sys/groupinfo/infos/shared-info": { "16": ["infos", "shared-info"], "22": "Support@Company.com" },
+        "/rest/tutanota/mailboxgrouproot/shared-group": { "695": "shared-group", "699": "shared-mailbox" },
+      };
+      const body = responses[url.pathname];
+      return body != null ? new Response(JSON.stringify(body)) : new Response("not found", { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("listMailboxes returns every mail group with its address, personal first", async () => {
+    const mailboxes = await listMailboxes(API, "at", keyMaterial);
+    assert.deepEqual(
+      mailboxes.map((m) => [m.groupId, m.mailAddress, m.personal]),
+      [
+        ["personal-group", "me@company.com", true],
+        ["shared-group", "Support@Company.com", false],
+        ["broken-group", null, false],
+      ]
+    );
+  });
+
+  test("selectMailbox matches addresses case-insensitively and group ids", async () => {
+    const mailboxes = await listMailboxes(API, "at", keyMaterial);
+    assert.equal(selectMailbox(mailboxes, null).groupId, "personal-group");
+    assert.equal(selectMailbox(mailboxes, "support@company.com").groupId, "shared-group");
+    assert.equal(selectMailbox(mailboxes, "broken-group").groupId, "broken-group");
+    assert.throws(
+      () => selectMailbox(mailboxes, "sales@company.com"),
+      /No mailbox sales@company.com \(available: me@company.com, Support@Company.com, broken-group\)/
+    );
+  });
+
+  test("resolveMailboxId reads the mailbox of a mail group from its MailboxGroupRoot", async () => {
+    assert.equal(await resolveMailboxId(API, "at", "shared-group"), "shared-mailbox");
+    assert.deepEqual(requests, ["/rest/tutanota/mailboxgrouproot/shared-group"]);
+  });
+});
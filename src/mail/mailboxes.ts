@@ -0,0 +1,79 @@
+/**
+ * Mailboxes of the user: the personal mailbox and shared (team) mailboxes, one per Mail group membership.
+ * A mailbox is selected by mail address or mail group id (--mailbox); its MailBox is found via MailboxGroupRoot.
+ */
+
+import type { GroupMembershipKeyMaterial, UserKeyMaterial } from "../auth/userKeyMaterial.js";
+import { getMailMemberships } from "../auth/userKeyMaterial.js";
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { ServerInstance } from "../crypto/decryptInstance.js";
+import type { MailboxGroupRoot } from "../crypto/entities.js";
+import { attributeId } from "../crypto/typeModel.js";
+import { GROUP_INFO, MAILBOX_GROUP_ROOT } from "../crypto/typeModels.js";
+import { getErrorMessage } from "../logger.js";
+import * as logger from "../logger.js";
+import { loadEntity } from "../rest.js";
+
+export interface MailboxInfo {
+  /** Mail group id. */
+  groupId: string;
+  /** Main mail address of the mailbox, or null when its GroupInfo could not be loaded. */
+  mailAddress: string | null;
+  /** The user's own mailbox (first Mail membership); the others are shared. */
+  personal: boolean;
+  membership: GroupMembershipKeyMaterial;
+}
+
+/** Mail address of a group from its GroupInfo (unencrypted), or null if it has none. */
+async function loadMailAddress(baseUrl: string, accessToken: string, groupInfoId: [string, string]): Promise<string | null> {
+  const raw = await loadEntity<ServerInstance>(baseUrl, GROUP_INFO, groupInfoId, { accessToken });
+  const mailAddress = raw[attributeId(GROUP_INFO, "mailAddress")];
+  return typeof mailAddress === "string" && mailAddress !== "" ? mailAddress : null;
+}
+
+/** The user's mailboxes with their mail addresses, personal mailbox first. */
+export async function listMailboxes(
+  baseUrl: string,
+  accessToken: string,
+  keyMaterial: UserKeyMaterial
+): Promise<MailboxInfo[]> {
+  return Promise.all(
+    getMailMemberships(keyMaterial).map(async (membership, index) => {
+      let mailAddress: string | null = null;
+      if (membership.groupInfo != null) {
+        try {
+          mailAddress = await loadMailAddress(baseUrl, accessToken, membership.groupInfo);
+        } catch (err) {
+          logger.log(`Could not load GroupInfo of mail group ${membership.group}: ${getErrorMessage(err)}`);
+        }
+      }
+      return { groupId: membership.group, mailAddress, personal: index === 0, membership };
+    })
+  );
+}
+
+/**
+ * The mailbox selected with --mailbox (mail address, case-insensitive, or mail group id); the personal mailbox when
+ * selector is null. Throws listing the available mailboxes when nothing matches.
+ */
+export function selectMailbox(mailboxes: MailboxInfo[], selector: string | null): MailboxInfo {
+  if (mailboxes.length === 0) throw new Error("No mail group membership found.");
+  const wanted = selector?.trim().toLowerCase();
+  if (!wanted) return mailboxes[0];
+  const found = mailboxes.find((m) => m.groupId.toLowerCase() === wanted || m.mailAddress?.toLowerCase() === wanted);
+  if (found == null) {
+    const available = mailboxes.map((m) => m.mailAddress ?? m.groupId).join(", ");
+    throw new Error(`No mailbox ${selector} (available: ${available}). Run 'mailboxes list' to see them.`);
+  }
+  return found;
+}
+
+/** MailBox id of a mail group, from its MailboxGroupRoot (element id = mail group id). */
+export async function resolveMailboxId(baseUrl: string, accessToken: string, mailGroupId: string): Promise<string> {
+  const raw = await loadEntity<ServerInstance>(baseUrl, MAILBOX_GROUP_ROOT, mailGroupId, { accessToken });
+  const mailboxId = decodeInstance<MailboxGroupRoot>(MAILBOX_GROUP_ROOT, raw).mailbox;
+  if (mailboxId == null) {
+    throw new Error("MailboxGroupRoot missing mailbox id.");
+  }
+  return mailboxId;
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setMailUnread } from "./unread.js";
+
+const API = "https://api.example";
+const originalFetch = globalThis.fetch;
+let puts: { path: string; version: string | null; body: Record<string, unknown> }[];
+
+/** Mail as the server sends it: encrypted subject, attributes the type models do not list (1465), unread set. */
+const mailRaw = {
+  "99": ["mails", "mail-1"],
+  "102": "b3duZXJFbmNTZXNzaW9uS2V5",
+  "105": "ZW5jcnlwdGVkIHN1YmplY3Q=",
+  "109": "1",
+  "111": { "93": "sender", "94": "ZW5jcnlwdGVkIG5hbWU=", "95": "sender@example.com" },
+  "587": "mail-group",
+  "1395": "2",
+  "1465": [["sets", "inbox"]],
+};
+
+describe("unread", () => {
+  beforeEach(() => {
+    puts = [];
+    globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname !== "/rest/tutanota/mail/mails/mail-1") return new Response("not found", { status: 404 });
+      if (init?.method === "PUT") {
+        const headers = new Headers(init.headers);
+        puts.push({ path: url.pathname, version: headers.get("v"), body: JSON.parse(String(init.body)) });
+        return new Response(null, { status: 200 });
+      }
+      return new Response(JSON.stringify(mailRaw));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("marks a mail read by sending it back with only unread changed", async () => {
+    assert.equal(await setMailUnread(API, "at", ["mails", "mail-1"], false), true);
+    assert.equal(puts.length, 1);
+    assert.equal(puts[0].path, "/rest/tutanota/mail/mails/mail-1");
+    assert.equal(puts[0].version, "102");
+    assert.deepEqual(puts[0].body, { ...mailRaw, "109": "0" });
+  });
+
+  test("does not update a mail that already has the state", async () => {
+    assert.equal(await setMailUnread(API, "at", ["mails", "mail-1"], true), false);
+    assert.equal(puts.length, 0);
+  });
+
+  test("fails when the mail cannot be loaded", async () => {
+    await assert.rejects(setMailUnread(API, "at", ["mails", "missing"], false), /HTTP 404/);
+    assert.equal(puts.length, 0);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Read / unread state of mails (Mail.unread). The Mail is loaded and sent back with only unread changed: its
+ * encrypted values stay encrypted with its session key, so no key is needed (see putRawInstance).
+ */
+
+import { decodeInstance } from "../crypto/decodeInstance.js";
+import type { ServerInstance } from "../crypto/decryptInstance.js";
+import type { Mail } from "../crypto/entities.js";
+import { attributeId } from "../crypto/typeModel.js";
+import { MAIL } from "../crypto/typeModels.js";
+import { loadEntity, putRawInstance } from "../rest.js";
+
+/**
+ * Mark a mail as unread (true) or read (false). Returns false without updating when the mail already is in that
+ * state.
+ */
+export async function setMailUnread(
+  baseUrl: string,
+  accessToken: string,
+  mailId: [string, string],
+  unread: boolean
+): Promise<boolean> {
+  const mailRaw = await loadEntity<ServerInstance>(baseUrl, MAIL, mailId, { accessToken });
+  const raw = Object.fromEntries(Object.entries(mailRaw).filter(([k]) => k !== "__proto__")) as ServerInstance;
+  if ((decodeInstance<Mail>(MAIL, raw).unread === true) === unread) return false;
+  // Booleans are "0" / "1" in server format.
+  await putRawInstance(baseUrl, MAIL, { ...raw, [attributeId(MAIL, "unread")]: unread ? "1" : "0" }, { accessToken });
+  return true;
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { loadRangePaged, GENERATED_MAX_ID } from "./rest.js";
+import { MAIL_SET_ENTRY } from "./crypto/typeModels.js";
+
+/** Fake list of 25 elements with ids "e01".."e25"; answers loadRange like the server (exclusive start). */
+const ids = Array.from({ length: 25 }, (_, i) => "e" + String(i + 1).padStart(2, "0"));
+const originalFetch = globalThis.fetch;
+let requests: { start: string; count: number; reverse: boolean }[];
+
+describe("rest", () => {
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      const start = url.searchParams.get("start") ?? "";
+      const count = parseInt(url.searchParams.get("count") ?? "0", 10);
+      const reverse = url.searchParams.get("reverse") === "true";
+      requests.push({ start, count, reverse });
+      const ordered = reverse ? [...ids].reverse() : ids;
+      const page = ordered.filter((id) => (reverse ? id < start : id > start)).slice(0, count);
+      return new Response(JSON.stringify(page.map((id) => ({ id }))));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("loadRangePaged", () => {
+    const options = { accessToken: "at", elementIdOf: (e: { id: string }) => e.id, pageSize: 10 };
+
+    test("pages until limit and returns a cursor", async () => {
+      const res = await loadRangePaged<{ id: string }>("https://api.example", MAIL_SET_ENTRY, "list", {
+        ...options,
+        start: GENERATED_MAX_ID,
+        reverse: true,
+        limit: 12,
+      });
+      assert.deepEqual(res.elements.map((e) => e.id), ids.slice(13).reverse());
+      assert.equal(res.nextCursor, "e14");
+      assert.deepEqual(requests.map((r) => r.count), [10, 2]);
+    });
+
+    test("continues from a cursor and returns null at the end of the list", async () => {
+      const res = await loadRangePaged<{ id: string }>("https://api.example", MAIL_SET_ENTRY, "list", {
+        ...options,
+        start: "e20",
+        reverse: false,
+        limit: null,
+      });
+      assert.deepEqual(res.elements.map((e) => e.id), ["e21", "e22", "e23", "e24", "e25"]);
+      assert.equal(res.nextCursor, null);
+    });
+
+    test("limit null loads all pages", async () => {
+      const res = await loadRangePaged<{ id: string }>("https://api.example", MAIL_SET_ENTRY, "list", {
+        ...options,
+        start: GENERATED_MAX_ID,
+        reverse: true,
+        limit: null,
+      });
+      assert.equal(res.elements.length, 25);
+      assert.equal(requests.length, 3);
+      assert.equal(res.nextCursor, null);
+    });
+
+    test("stops at the inclusive end id", async () => {
+      const res = await loadRangePaged<{ id: string }>("https://api.example", MAIL_SET_ENTRY, "list", {
+        ...options,
+        start: "e05",
+        reverse: false,
+        limit: null,
+        end: "e17",
+      });
+      assert.equal(res.elements.map((e) => e.id).join(","), ids.slice(5, 17).join(","));
+      assert.equal(res.nextCursor, null);
+      assert.equal(requests.length, 2);
+    });
+  });
+});
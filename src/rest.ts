@@ -1,15 +1,20 @@
 /**
- * REST entity load and loadRange with type version header.
+ * REST entity load, update, delete and loadRange with type version header.
  * Path format: /rest/{app}/{typename}/{id} or /rest/{app}/{typename}/{listId}?start=&count=&reverse=
  */
 
 import * as http from "./http.js";
-import type { TypeModel } from "./crypto/typeModels.js";
+import { type TypeModel, attributeId } from "./crypto/typeModel.js";
 
 function restPath(typeModel: TypeModel): string {
   return `/rest/${typeModel.app}/${typeModel.name.toLowerCase()}`;
 }
 
+/** "tutanota/Mail": how a type model is named in version errors and by the doctor command. */
+export function modelName(typeModel: TypeModel): string {
+  return `${typeModel.app}/${typeModel.name}`;
+}
+
 export interface LoadEntityOptions {
   accessToken: string;
 }
@@ -30,6 +35,53 @@ export async function loadEntity<T = Record<string, unknown>>(
   return http.get<T>(baseUrl, path, {
     accessToken: options.accessToken,
     extraHeaders: { v: String(typeModel.version) },
+    modelName: modelName(typeModel),
+  });
+}
+
+/**
+ * Delete a single entity by id (e.g. a Session to log it out). Id may be string or [listId, elementId].
+ */
+export async function deleteEntity(
+  baseUrl: string,
+  typeModel: TypeModel,
+  id: string | [string, string],
+  options: LoadEntityOptions
+): Promise<void> {
+  const path =
+    typeof id === "string"
+      ? `${restPath(typeModel)}/${id}`
+      : `${restPath(typeModel)}/${id[0]}/${id[1]}`;
+  return http.del(baseUrl, path, {
+    accessToken: options.accessToken,
+    extraHeaders: { v: String(typeModel.version) },
+    modelName: modelName(typeModel),
+  });
+}
+
+/**
+ * Update an entity (PUT) with a raw server instance, sent as is with the model version of its type. The id is the
+ * instance's _id (string or [listId, elementId]).
+ *
+ * Limitation: nothing is encrypted here. Only a loaded server instance with changed unencrypted values can be sent;
+ * its encrypted values are still encrypted with its session key. Decoded instances cannot be encrypted again, as the
+ * type models only list the attributes the CLI reads and the server needs all of them.
+ */
+export async function putRawInstance(
+  baseUrl: string,
+  typeModel: TypeModel,
+  instance: Record<string, unknown>,
+  options: LoadEntityOptions
+): Promise<void> {
+  const id = instance[attributeId(typeModel, "_id")];
+  if (id == null || id === "" || (Array.isArray(id) && id.length !== 2)) {
+    throw new Error(`${modelName(typeModel)} instance has no id.`);
+  }
+  const path = Array.isArray(id) ? `${restPath(typeModel)}/${id[0]}/${id[1]}` : `${restPath(typeModel)}/${String(id)}`;
+  return http.put(baseUrl, path, instance, {
+    accessToken: options.accessToken,
+    extraHeaders: { v: String(typeModel.version) },
+    modelName: modelName(typeModel),
   });
 }
 
@@ -61,10 +113,62 @@ export async function loadRange<T = Record<string, unknown>>(
   return http.get<T[]>(baseUrl, fullPath, {
     accessToken: options.accessToken,
     extraHeaders: { v: String(typeModel.version) },
+    modelName: modelName(typeModel),
     verboseResponse: options.verboseResponse,
   });
 }
 
+/** Elements requested per loadRange call when paging. */
+export const RANGE_PAGE_SIZE = 100;
+
+export interface LoadRangePagedOptions<T> {
+  accessToken: string;
+  /** Exclusive start id (GENERATED_MAX_ID / GENERATED_MIN_ID for the newest / oldest end). */
+  start: string;
+  reverse: boolean;
+  /** Maximum number of elements to return; null loads until the end of the list. */
+  limit: number | null;
+  /**
+   * Inclusive end id: elements past it (smaller ids when reverse, larger otherwise) are not returned and paging stops.
+   * Ids are compared as strings, so end must have the same length as the list's ids.
+   */
+  end?: string;
+  /** Element id of a loaded instance; used as start for the next page and as the returned cursor. */
+  elementIdOf: (element: T) => string;
+  pageSize?: number;
+}
+
+/**
+ * Load up to limit list elements by paging through loadRange.
+ * nextCursor is the id to pass as start to continue after the returned elements, or null when the list end was reached.
+ */
+export async function loadRangePaged<T = Record<string, unknown>>(
+  baseUrl: string,
+  typeModel: TypeModel,
+  listId: string,
+  options: LoadRangePagedOptions<T>
+): Promise<{ elements: T[]; nextCursor: string | null }> {
+  const pageSize = options.pageSize ?? RANGE_PAGE_SIZE;
+  const elements: T[] = [];
+  let start = options.start;
+  while (options.limit == null || elements.length < options.limit) {
+    const count = options.limit == null ? pageSize : Math.min(pageSize, options.limit - elements.length);
+    const page = await loadRange<T>(baseUrl, typeModel, listId, {
+      accessToken: options.accessToken,
+      start,
+      count,
+      reverse: options.reverse,
+    });
+    const end = options.end;
+    const withinEnd =
+      end == null ? page : page.filter((e) => (options.reverse ? options.elementIdOf(e) >= end : options.elementIdOf(e) <= end));
+    elements.push(...withinEnd);
+    if (page.length < count || withinEnd.length < page.length) return { elements, nextCursor: null };
+    start = options.elementIdOf(page[page.length - 1]);
+  }
+  return { elements, nextCursor: start };
+}
+
 /** Min/max generated ids for range queries (same as main app EntityUtils). */
 export const GENERATED_MIN_ID = "------------";
 export const GENERATED_MAX_ID = "zzzzzzzzzzzz";
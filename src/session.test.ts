@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  clearSession,
+  getProfile,
+  getProfileConfig,
+  getSessionPath,
+  listProfiles,
+  readSession,
+  setCurrentProfile,
+  setProfile,
+  writeSession,
+} from "./session.js";
+
+const session = { baseUrl: "https://app.tuta.com", accessToken: "at", userId: "u1", email: "me@tuta.com" };
+const savedEnv = { ...process.env };
+let configHome: string;
+
+describe("session", () => {
+  beforeEach(() => {
+    configHome = fs.mkdtempSync(path.join(os.tmpdir(), "tutanota-cli-session-"));
+    process.env.XDG_CONFIG_HOME = configHome;
+    delete process.env.TUTANOTA_PROFILE;
+    delete process.env.TUTANOTA_NO_SESSION_PERSISTENCE;
+    setProfile(null);
+  });
+
+  afterEach(() => {
+    setProfile(null);
+    process.env = { ...savedEnv };
+    fs.rmSync(configHome, { recursive: true, force: true });
+  });
+
+  test("the default profile keeps session.json; named profiles get their own file", () => {
+    assert.equal(getSessionPath(), path.join(configHome, "tutanota-cli", "session.json"));
+    assert.equal(getSessionPath("work"), path.join(configHome, "tutanota-cli", "profiles", "work.json"));
+    assert.throws(() => getSessionPath("../x"), /Invalid profile name/);
+  });
+
+  test("sessions are stored per profile", () => {
+    writeSession(session);
+    writeSession({ ...session, userId: "u2", email: "team@company.com" }, "work");
+    assert.equal(readSession()?.email, "me@tuta.com");
+    assert.equal(readSession("work")?.userId, "u2");
+    assert.deepEqual(listProfiles(), ["default", "work"]);
+    clearSession("work");
+    assert.equal(readSession("work"), null);
+    assert.equal(readSession()?.userId, "u1");
+  });
+
+  test("--profile wins over TUTANOTA_PROFILE, which wins over the current profile", () => {
+    assert.equal(getProfile(), "default");
+    setCurrentProfile("work");
+    assert.equal(getProfile(), "work");
+    process.env.TUTANOTA_PROFILE = "ci";
+    assert.equal(getProfile(), "ci");
+    setProfile("personal");
+    assert.equal(getProfile(), "personal");
+    assert.deepEqual(listProfiles(), ["default", "work"]);
+  });
+
+  test("rejects a current profile in config.json that is not a valid profile name", () => {
+    const configPath = path.join(configHome, "tutanota-cli", "config.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify({ profile: "../x" }));
+    assert.throws(() => getProfile(), /Invalid profile name: "..\/x"/);
+    assert.throws(() => getSessionPath(), /Invalid profile name/);
+  });
+
+  test("profile settings come from config.json and survive 'auth profiles use'", () => {
+    const configPath = path.join(configHome, "tutanota-cli", "config.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    const profiles = { work: { passwordCommand: "pass show tuta/work", totpCommand: "", other: 1 } };
+    fs.writeFileSync(configPath, JSON.stringify({ profiles }));
+    assert.deepEqual(getProfileConfig("work"), { passwordCommand: "pass show tuta/work" });
+    assert.deepEqual(getProfileConfig(), {});
+
+    setCurrentProfile("work");
+    assert.deepEqual(getProfileConfig(), { passwordCommand: "pass show tuta/work" });
+    assert.deepEqual(JSON.parse(fs.readFileSync(configPath, "utf8")), { profiles, profile: "work" });
+  });
+});
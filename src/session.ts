@@ -6,42 +6,141 @@ import * as logger from "./logger.js";
 
 const SESSION_DIR = "tutanota-cli";
 const SESSION_FILE = "session.json";
+/** Session files of named profiles: profiles/<name>.json. The default profile keeps session.json. */
+const PROFILES_DIR = "profiles";
+/** CLI settings: the profile selected with 'auth profiles use', and per-profile settings ("profiles"). */
+const CONFIG_FILE = "config.json";
 
 const ENV_NO_PERSISTENCE = "TUTANOTA_NO_SESSION_PERSISTENCE";
+const ENV_PROFILE = "TUTANOTA_PROFILE";
+
+export const DEFAULT_PROFILE = "default";
 
 export interface Session {
   baseUrl: string;
   accessToken: string;
   userId: string;
   sessionId?: [string, string];
+  /** Account the session belongs to; used as login email for the profile. */
+  email?: string;
+}
+
+/** Settings of a profile, from "profiles": { "<name>": { ... } } in config.json. */
+export interface ProfileConfig {
+  /** Account of the profile: login email when it has no session yet; its session must be for this account. */
+  email?: string;
+  /** Command that prints the account password (e.g. `pass show tuta/work`). */
+  passwordCommand?: string;
+  /** Command that prints the current TOTP code. */
+  totpCommand?: string;
 }
 
+/** Profile set with --profile for this run. */
+let profileOverride: string | null = null;
+
 function isPersistenceDisabled(): boolean {
   const v = process.env[ENV_NO_PERSISTENCE];
   return v === "1" || v?.toLowerCase() === "true" || v === "yes";
 }
 
-/**
- * Return the path to the session file.
- * Uses $XDG_CONFIG_HOME/tutanota-cli/session.json or ~/.config/tutanota-cli/session.json.
- */
-export function getSessionPath(): string {
+/** $XDG_CONFIG_HOME/tutanota-cli or ~/.config/tutanota-cli: session files and other CLI state. */
+export function getConfigDir(): string {
   const configDir =
     process.env.XDG_CONFIG_HOME?.trim() || path.join(os.homedir(), ".config");
-  return path.join(configDir, SESSION_DIR, SESSION_FILE);
+  return path.join(configDir, SESSION_DIR);
+}
+
+/** Throw unless name can be used as a profile (and file) name. */
+export function validateProfileName(name: string): string {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    throw new Error(`Invalid profile name: "${name}" (use letters, digits, ".", "_" and "-").`);
+  }
+  return name;
+}
+
+/** Use this profile for the rest of the run (--profile); takes precedence over TUTANOTA_PROFILE and the current profile. */
+export function setProfile(name: string | null): void {
+  profileOverride = name != null ? validateProfileName(name) : null;
+}
+
+/** config.json, or {} when it is missing or invalid. */
+function readConfig(): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(path.join(getConfigDir(), CONFIG_FILE), "utf8"));
+    if (parsed != null && typeof parsed === "object" && !Array.isArray(parsed)) return parsed as Record<string, unknown>;
+  } catch {
+    // missing or invalid config: defaults
+  }
+  return {};
+}
+
+/** Profile selected with 'auth profiles use', or the default profile. */
+export function getCurrentProfile(): string {
+  const { profile } = readConfig();
+  return typeof profile === "string" && profile !== "" ? validateProfileName(profile) : DEFAULT_PROFILE;
+}
+
+/** Select the profile for later runs ('auth profiles use'). Other settings in config.json are kept. */
+export function setCurrentProfile(name: string): void {
+  const filePath = path.join(getConfigDir(), CONFIG_FILE);
+  const config = { ...readConfig(), profile: validateProfileName(name) };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2), { mode: 0o600 });
+}
+
+/** Settings of a profile (default: the profile in use) from config.json; string values only. */
+export function getProfileConfig(profile = getProfile()): ProfileConfig {
+  const profiles = readConfig().profiles as Record<string, unknown> | undefined;
+  const raw = profiles?.[profile];
+  if (raw == null || typeof raw !== "object") return {};
+  const { email, passwordCommand, totpCommand } = raw as Record<string, unknown>;
+  return {
+    ...(typeof email === "string" && email.trim() !== "" ? { email: email.trim() } : {}),
+    ...(typeof passwordCommand === "string" && passwordCommand.trim() !== "" ? { passwordCommand } : {}),
+    ...(typeof totpCommand === "string" && totpCommand.trim() !== "" ? { totpCommand } : {}),
+  };
+}
+
+/** Profile in use: --profile, else TUTANOTA_PROFILE, else the current profile. */
+export function getProfile(): string {
+  const fromEnv = process.env[ENV_PROFILE]?.trim();
+  return profileOverride ?? (fromEnv ? validateProfileName(fromEnv) : getCurrentProfile());
+}
+
+/**
+ * Return the path to a profile's session file (default: the profile in use).
+ * Uses $XDG_CONFIG_HOME/tutanota-cli/session.json or ~/.config/tutanota-cli/session.json for the default profile,
+ * and profiles/<name>.json in the same directory for other profiles.
+ */
+export function getSessionPath(profile = getProfile()): string {
+  if (profile === DEFAULT_PROFILE) return path.join(getConfigDir(), SESSION_FILE);
+  return path.join(getConfigDir(), PROFILES_DIR, validateProfileName(profile) + ".json");
+}
+
+/** Profiles with a session file, plus the default and current profile; sorted. */
+export function listProfiles(): string[] {
+  const names = new Set([DEFAULT_PROFILE, getCurrentProfile()]);
+  try {
+    for (const file of fs.readdirSync(path.join(getConfigDir(), PROFILES_DIR))) {
+      if (file.endsWith(".json")) names.add(file.slice(0, -".json".length));
+    }
+  } catch {
+    // no named profiles yet
+  }
+  return [...names].sort();
 }
 
 /**
- * Read and parse the session file. Returns null if persistence is disabled,
+ * Read and parse a profile's session file (default: the profile in use). Returns null if persistence is disabled,
  * file is missing, JSON is invalid, or required fields are missing.
  * May throw on permission errors; caller should treat as "no session".
  */
-export function readSession(): Session | null {
+export function readSession(profile = getProfile()): Session | null {
   if (isPersistenceDisabled()) {
     logger.log("Session persistence is disabled.");
     return null;
   }
-  const filePath = getSessionPath();
+  const filePath = getSessionPath(profile);
   try {
     const data = fs.readFileSync(filePath, "utf8");
     const parsed = JSON.parse(data) as Record<string, unknown>;
@@ -71,6 +170,7 @@ export function readSession(): Session | null {
     ) {
       session.sessionId = [parsed.sessionId[0], parsed.sessionId[1]];
     }
+    if (typeof parsed.email === "string") session.email = parsed.email;
     return session;
   } catch (err) {
     if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
@@ -83,12 +183,12 @@ export function readSession(): Session | null {
 }
 
 /**
- * Write the session to the file. Creates parent directory if needed and sets mode 0o600.
+ * Write the session to the profile's file. Creates parent directory if needed and sets mode 0o600.
  * No-op if persistence is disabled. On write failure, logs a warning but does not throw.
  */
-export function writeSession(session: Session): void {
+export function writeSession(session: Session, profile = getProfile()): void {
   if (isPersistenceDisabled()) return;
-  const filePath = getSessionPath();
+  const filePath = getSessionPath(profile);
   logger.log("Saving session to " + filePath);
   try {
     const dir = path.dirname(filePath);
@@ -102,11 +202,11 @@ export function writeSession(session: Session): void {
 }
 
 /**
- * Remove the session file if it exists. Ignores errors (e.g. already missing).
+ * Remove a profile's session file if it exists. Ignores errors (e.g. already missing).
  */
-export function clearSession(): void {
+export function clearSession(profile = getProfile()): void {
   if (isPersistenceDisabled()) return;
-  const filePath = getSessionPath();
+  const filePath = getSessionPath(profile);
   try {
     fs.unlinkSync(filePath);
   } catch {
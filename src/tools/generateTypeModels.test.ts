@@ -0,0 +1,120 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { constantName, generateTypeModels, parseTypeModelsFile, type UpstreamTypeModel } from "./generateTypeModels.js";
+
+/** Trimmed upstream models: sys Blob, tutanota File (blobs -> sys Blob) and MailAddress; tutanota types by id. */
+const sys = {
+  "2127": {
+    name: "Blob",
+    type: "AGGREGATED_TYPE",
+    app: "sys",
+    version: "143",
+    id: 2127,
+    encrypted: false,
+    values: {
+      "2128": { final: true, name: "_id", id: 2128, type: "CustomId", cardinality: "One", encrypted: false },
+      "2129": { final: true, name: "archiveId", id: 2129, type: "GeneratedId", cardinality: "One", encrypted: false },
+      "2131": { final: true, name: "size", id: 2131, type: "Number", cardinality: "One", encrypted: false },
+    },
+    associations: {},
+  },
+};
+const tutanota = {
+  "13": {
+    name: "File",
+    type: "LIST_ELEMENT_TYPE",
+    app: "tutanota",
+    version: "102",
+    id: 13,
+    encrypted: true,
+    values: {
+      "18": { final: true, name: "name", id: 18, type: "String", cardinality: "One", encrypted: true },
+      "16": { final: true, name: "_id", id: 16, type: "GeneratedId", cardinality: "One", encrypted: false },
+    },
+    associations: {
+      "1225": {
+        final: true,
+        name: "blobs",
+        id: 1225,
+        type: "AGGREGATION",
+        cardinality: "Any",
+        refTypeId: 2127,
+        dependency: "sys",
+      },
+    },
+  },
+  "92": {
+    name: "MailAddress",
+    type: "AGGREGATED_TYPE",
+    app: "tutanota",
+    version: "102",
+    id: 92,
+    encrypted: true,
+    values: {
+      "94": { final: true, name: "name", id: 94, type: "String", cardinality: "One", encrypted: true },
+    },
+    associations: {},
+  },
+};
+
+function models(...files: object[]): UpstreamTypeModel[] {
+  return files.flatMap((f) => parseTypeModelsFile(JSON.stringify(f)));
+}
+
+describe("generateTypeModels", () => {
+  test("constantName converts type names", () => {
+    assert.equal(constantName("MailSetEntry"), "MAIL_SET_ENTRY");
+    assert.equal(constantName("MailboxGroupRoot"), "MAILBOX_GROUP_ROOT");
+    assert.equal(constantName("URLData"), "URL_DATA");
+  });
+
+  test("parses the TypeModels.js module form", () => {
+    const js = "/* generated */\nexport const typeModels = " + JSON.stringify(sys, null, 2) + " as const;\n";
+    assert.deepEqual(parseTypeModelsFile(js).map((t) => t.name), ["Blob"]);
+  });
+
+  test("writes values, associations and cross-app references", () => {
+    const source = generateTypeModels(models(sys, tutanota), { types: ["File"] });
+    assert.match(source, /import type \{ TypeModel \} from "\.\/typeModel\.js";/);
+    assert.match(source, /export const FILE: TypeModel = \{\n  app: "tutanota",\n  name: "File",\n  type: "ListElement",\n  version: 102,\n  encrypted: true,/);
+    assert.ok(source.includes('"16": { id: 16, name: "_id", type: "String", encrypted: false },\n    "18":'));
+    assert.ok(
+      source.includes('"1225": { id: 1225, name: "blobs", type: "Aggregation", cardinality: "Any", refType: () => BLOB },')
+    );
+    assert.match(source, /export const BLOB: TypeModel = \{\n  app: "sys",/);
+    assert.ok(!source.includes("MAIL_ADDRESS"));
+  });
+
+  test("writes all types without --types", () => {
+    const source = generateTypeModels(models(sys, tutanota));
+    assert.deepEqual(source.match(/^export const \w+/gm), ["export const BLOB", "export const FILE", "export const MAIL_ADDRESS"]);
+  });
+
+  test("keeps the plain name for the owning app of a type name in several apps", () => {
+    const sysMailAddress = {
+      "95": { ...tutanota["92"], app: "sys", version: "143", id: 95, encrypted: false, values: {} },
+    };
+    const source = generateTypeModels(models(sys, tutanota, sysMailAddress), {
+      types: ["sys/MailAddress", "tutanota/MailAddress"],
+    });
+    assert.match(source, /export const MAIL_ADDRESS: TypeModel = \{\n  app: "tutanota",/);
+    assert.match(source, /export const SYS_MAIL_ADDRESS: TypeModel = \{\n  app: "sys",/);
+    assert.ok(!source.includes("TUTANOTA_MAIL_ADDRESS"));
+  });
+
+  test("fails for a type name in several apps that none of them owns", () => {
+    const inApp = (app: string) => ({ "1": { ...sys["2127"], app, id: 1 } });
+    assert.throws(
+      () => generateTypeModels(models(inApp("storage"), inApp("monitor"))),
+      /Type Blob exists in monitor, storage; none of them owns the name/
+    );
+  });
+
+  test("fails when a referenced app is missing", () => {
+    assert.throws(() => generateTypeModels(models(tutanota), { types: ["File"] }), /pass the sys TypeModels too/);
+  });
+
+  test("fails for unknown types", () => {
+    assert.throws(() => generateTypeModels(models(sys), { types: ["Contact"] }), /Unknown type: Contact/);
+  });
+});
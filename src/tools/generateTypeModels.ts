@@ -0,0 +1,323 @@
+#!/usr/bin/env node
+/**
+ * Generate src/crypto/typeModels.ts from the main app's TypeModels, one input file per app (sys, tutanota, storage, ...).
+ * An input file is the TypeModels JSON or the generated TypeModels.js module that wraps it (`export const typeModels = {...}`).
+ *
+ * Usage: npm run generate:type-models -- sys.json tutanota.json [--types Mail,MailSet] [--out src/crypto/typeModels.ts]
+ * With --types only the named types and the types they reference (transitively) are written; otherwise all types.
+ */
+
+import * as fs from "fs";
+import { pathToFileURL } from "url";
+import { Command } from "commander";
+import { getErrorMessage } from "../logger.js";
+import {
+  AssociationType,
+  Cardinality,
+  TypeKind,
+  ValueType,
+  type AssociationTypeName,
+  type TypeKindName,
+} from "../crypto/typeModel.js";
+
+/** Value as in the upstream TypeModels (only the fields we read). */
+interface UpstreamValue {
+  id: number | string;
+  name: string;
+  type: string;
+  encrypted: boolean;
+}
+
+/** Association as in the upstream TypeModels. Newer models reference types by id, older ones by name. */
+interface UpstreamAssociation {
+  id: number | string;
+  name: string;
+  type: string;
+  cardinality: string;
+  refTypeId?: number | string;
+  refType?: string;
+  /** App of the referenced type when it is not the type's own app (e.g. "sys"). */
+  dependency?: string | null;
+}
+
+export interface UpstreamTypeModel {
+  id?: number | string;
+  app: string;
+  name: string;
+  /** ELEMENT_TYPE, LIST_ELEMENT_TYPE, AGGREGATED_TYPE, ... */
+  type: string;
+  version: number | string;
+  encrypted: boolean;
+  values: Record<string, UpstreamValue>;
+  associations: Record<string, UpstreamAssociation>;
+}
+
+export interface GenerateOptions {
+  /** Type names to write ("Mail" or "tutanota/Mail"), plus everything they reference. All types when empty. */
+  types?: string[];
+}
+
+/** Lines longer than this are written as multi-line objects. */
+const MAX_LINE_LENGTH = 120;
+
+/**
+ * Apps that own a type name that exists in several apps, first owner first: that app's type keeps the plain
+ * constant name (MAIL_ADDRESS), the others get their app as prefix (SYS_MAIL_ADDRESS).
+ */
+const OWNING_APPS = ["tutanota", "sys"];
+
+/** Upstream id value types; ids are strings in instances. */
+const ID_VALUE_TYPES = new Set(["GeneratedId", "CustomId"]);
+
+const TYPE_KINDS: Record<string, TypeKindName> = {
+  ELEMENT_TYPE: TypeKind.Element,
+  LIST_ELEMENT_TYPE: TypeKind.ListElement,
+  BLOB_ELEMENT_TYPE: TypeKind.BlobElement,
+  AGGREGATED_TYPE: TypeKind.Aggregated,
+  DATA_TRANSFER_TYPE: TypeKind.DataTransfer,
+};
+
+const ASSOCIATION_TYPES: Record<string, AssociationTypeName> = {
+  AGGREGATION: AssociationType.Aggregation,
+  ELEMENT_ASSOCIATION: AssociationType.ElementAssociation,
+  LIST_ASSOCIATION: AssociationType.ListAssociation,
+  LIST_ELEMENT_ASSOCIATION: AssociationType.ListElementAssociation,
+  BLOB_ELEMENT_ASSOCIATION: AssociationType.BlobElementAssociation,
+};
+
+function isUpstreamTypeModel(value: unknown): value is UpstreamTypeModel {
+  if (value == null || typeof value !== "object") return false;
+  const t = value as Record<string, unknown>;
+  return typeof t.app === "string" && typeof t.name === "string" && t.values != null && typeof t.values === "object";
+}
+
+/** Parse one TypeModels file (JSON, or a JS module exporting the JSON object). */
+export function parseTypeModelsFile(text: string): UpstreamTypeModel[] {
+  let json = text.trim();
+  if (!json.startsWith("{")) {
+    const start = json.indexOf("{", json.indexOf("="));
+    const end = json.lastIndexOf("}");
+    if (start < 0 || end < start) throw new Error("No TypeModels object found.");
+    json = json.slice(start, end + 1);
+  }
+  const parsed = JSON.parse(json) as Record<string, unknown>;
+  const typeModels = Object.values(parsed).filter(isUpstreamTypeModel);
+  if (typeModels.length === 0) throw new Error("No type models found.");
+  return typeModels;
+}
+
+/** "MailSetEntry" -> "MAIL_SET_ENTRY". */
+export function constantName(typeName: string): string {
+  return typeName
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+    .toUpperCase();
+}
+
+function typeKey(app: string, name: string): string {
+  return app + "/" + name;
+}
+
+/** Resolves references between types of all given apps. */
+function createTypeIndex(typeModels: UpstreamTypeModel[]) {
+  const byName = new Map<string, UpstreamTypeModel>();
+  const byId = new Map<string, UpstreamTypeModel>();
+  for (const t of typeModels) {
+    byName.set(typeKey(t.app, t.name), t);
+    if (t.id != null) byId.set(t.app + "#" + t.id, t);
+  }
+
+  function refTypeOf(owner: UpstreamTypeModel, association: UpstreamAssociation): UpstreamTypeModel {
+    const app = association.dependency ?? owner.app;
+    const ref =
+      association.refTypeId != null
+        ? byId.get(app + "#" + association.refTypeId)
+        : association.refType != null
+          ? byName.get(typeKey(app, association.refType))
+          : undefined;
+    if (ref == null) {
+      const target = association.refType ?? "type " + String(association.refTypeId);
+      throw new Error(
+        `${owner.app}/${owner.name}.${association.name} references ${app} ${target}, which is not in the input` +
+          ` (pass the ${app} TypeModels too).`
+      );
+    }
+    return ref;
+  }
+
+  function find(spec: string): UpstreamTypeModel {
+    const matches = spec.includes("/")
+      ? [byName.get(spec)].filter((t): t is UpstreamTypeModel => t != null)
+      : typeModels.filter((t) => t.name === spec);
+    if (matches.length === 0) throw new Error(`Unknown type: ${spec}`);
+    if (matches.length > 1) throw new Error(`Type ${spec} exists in several apps; use app/${spec}.`);
+    return matches[0];
+  }
+
+  return { refTypeOf, find };
+}
+
+function typeKindOf(t: UpstreamTypeModel): TypeKindName {
+  const kind = TYPE_KINDS[t.type];
+  if (kind == null) throw new Error(`${t.app}/${t.name} has unsupported type ${t.type}.`);
+  return kind;
+}
+
+function valueTypeOf(owner: UpstreamTypeModel, value: UpstreamValue): string {
+  if (ID_VALUE_TYPES.has(value.type)) return ValueType.String;
+  if (!Object.values(ValueType).includes(value.type as never)) {
+    throw new Error(`${owner.app}/${owner.name}.${value.name} has unsupported value type ${value.type}.`);
+  }
+  return value.type;
+}
+
+function associationTypeOf(owner: UpstreamTypeModel, association: UpstreamAssociation): string {
+  const type = ASSOCIATION_TYPES[association.type];
+  if (type == null) {
+    throw new Error(`${owner.app}/${owner.name}.${association.name} has unsupported association type ${association.type}.`);
+  }
+  if (!Object.values(Cardinality).includes(association.cardinality as never)) {
+    throw new Error(`${owner.app}/${owner.name}.${association.name} has unsupported cardinality ${association.cardinality}.`);
+  }
+  return type;
+}
+
+/** One attribute entry: on one line when it fits, otherwise one property per line. */
+function formatEntry(id: string, fields: [string, string][]): string[] {
+  const line = `    "${id}": { ${fields.map(([k, v]) => `${k}: ${v}`).join(", ")} },`;
+  if (line.length <= MAX_LINE_LENGTH) return [line];
+  return [`    "${id}": {`, ...fields.map(([k, v]) => `      ${k}: ${v},`), "    },"];
+}
+
+/** Position of the app in OWNING_APPS; other apps come after them, all with the same rank. */
+function owningRank(app: string): number {
+  const rank = OWNING_APPS.indexOf(app);
+  return rank === -1 ? OWNING_APPS.length : rank;
+}
+
+function byNumericId<T extends { id: number | string }>(a: T, b: T): number {
+  return Number(a.id) - Number(b.id);
+}
+
+/** TypeScript source of typeModels.ts for the given types (see GenerateOptions). */
+export function generateTypeModels(typeModels: UpstreamTypeModel[], options: GenerateOptions = {}): string {
+  const index = createTypeIndex(typeModels);
+
+  // Selected types and everything they reference.
+  const selected = new Set<UpstreamTypeModel>();
+  const pending = options.types != null && options.types.length > 0 ? options.types.map(index.find) : [...typeModels];
+  while (pending.length > 0) {
+    const t = pending.pop() as UpstreamTypeModel;
+    if (selected.has(t)) continue;
+    selected.add(t);
+    for (const association of Object.values(t.associations ?? {})) {
+      pending.push(index.refTypeOf(t, association));
+    }
+  }
+
+  // Constant names; of types that exist in several apps the owning app keeps the name, the others get a prefix.
+  const byName = new Map<string, UpstreamTypeModel[]>();
+  for (const t of selected) byName.set(t.name, [...(byName.get(t.name) ?? []), t]);
+  const constants = new Map<UpstreamTypeModel, string>();
+  for (const [name, types] of byName) {
+    const base = constantName(name);
+    const [owner, ...others] = [...types].sort((a, b) => owningRank(a.app) - owningRank(b.app));
+    if (others.some((t) => owningRank(t.app) === owningRank(owner.app))) {
+      throw new Error(
+        `Type ${name} exists in ${types.map((t) => t.app).sort().join(", ")}; none of them owns the name` +
+          ` (owners: ${OWNING_APPS.join(", ")}).`
+      );
+    }
+    constants.set(owner, base);
+    for (const t of others) constants.set(t, t.app.toUpperCase() + "_" + base);
+  }
+
+  const apps = [...new Set(typeModels.map((t) => t.app))];
+  const versions = apps.map((app) => `${app} v${typeModels.find((t) => t.app === app)?.version}`).join(", ");
+  const lines: string[] = [
+    "/**",
+    ` * Type models generated by src/tools/generateTypeModels.ts from the main app's TypeModels (${versions}).`,
+    " * Do not edit by hand; regenerate with `npm run generate:type-models` (see README).",
+    " */",
+    "",
+    'import type { TypeModel } from "./typeModel.js";',
+  ];
+
+  const ordered = [...selected].sort(
+    (a, b) => apps.indexOf(a.app) - apps.indexOf(b.app) || Number(a.id ?? 0) - Number(b.id ?? 0) || a.name.localeCompare(b.name)
+  );
+  for (const t of ordered) {
+    lines.push("", `/** ${t.name} (${t.app}${t.id != null ? ", type " + t.id : ""}). */`);
+    lines.push(`export const ${constants.get(t)}: TypeModel = {`);
+    lines.push(`  app: ${JSON.stringify(t.app)},`);
+    lines.push(`  name: ${JSON.stringify(t.name)},`);
+    lines.push(`  type: ${JSON.stringify(typeKindOf(t))},`);
+    lines.push(`  version: ${Number(t.version)},`);
+    lines.push(`  encrypted: ${t.encrypted === true},`);
+    const values = Object.values(t.values).sort(byNumericId);
+    lines.push(values.length === 0 ? "  values: {}," : "  values: {");
+    for (const v of values) {
+      lines.push(
+        ...formatEntry(String(v.id), [
+          ["id", String(Number(v.id))],
+          ["name", JSON.stringify(v.name)],
+          ["type", JSON.stringify(valueTypeOf(t, v))],
+          ["encrypted", String(v.encrypted === true)],
+        ])
+      );
+    }
+    if (values.length > 0) lines.push("  },");
+    const associations = Object.values(t.associations ?? {}).sort(byNumericId);
+    if (associations.length > 0) {
+      lines.push("  associations: {");
+      for (const a of associations) {
+        lines.push(
+          ...formatEntry(String(a.id), [
+            ["id", String(Number(a.id))],
+            ["name", JSON.stringify(a.name)],
+            ["type", JSON.stringify(associationTypeOf(t, a))],
+            ["cardinality", JSON.stringify(a.cardinality)],
+            ["refType", `() => ${constants.get(index.refTypeOf(t, a))}`],
+          ])
+        );
+      }
+      lines.push("  },");
+    }
+    lines.push("};");
+  }
+  return lines.join("\n") + "\n";
+}
+
+function main(argv: string[]): void {
+  const program = new Command();
+  program
+    .name("generate-type-models")
+    .description("Generate src/crypto/typeModels.ts from upstream TypeModels JSON files")
+    .argument("<files...>", "TypeModels JSON (or TypeModels.js) files, one per app")
+    .option("--types <names>", "Comma-separated type names to write (with the types they reference); default all")
+    .option("--out <file>", "Output file", "src/crypto/typeModels.ts")
+    .action((files: string[], opts: { types?: string; out: string }) => {
+      try {
+        const typeModels = files.flatMap((file) => {
+          try {
+            return parseTypeModelsFile(fs.readFileSync(file, "utf8"));
+          } catch (err) {
+            throw new Error(`${file}: ${getErrorMessage(err)}`);
+          }
+        });
+        const types = opts.types?.split(",").map((t) => t.trim()).filter((t) => t !== "");
+        const source = generateTypeModels(typeModels, { types });
+        fs.writeFileSync(opts.out, source);
+        const count = source.match(/^export const /gm)?.length ?? 0;
+        console.log(`Wrote ${count} type model(s) to ${opts.out}`);
+      } catch (err) {
+        console.error("Error:", getErrorMessage(err));
+        process.exit(1);
+      }
+    });
+  program.parse(argv);
+}
+
+if (process.argv[1] != null && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main(process.argv);
+}
@@ -26,3 +26,15 @@ export function unwrapSingleElementArray<T>(
   if (Array.isArray(value) && value.length === 1) return value[0];
   return value;
 }
+
+/** Unwrap a single aggregate (object, possibly in a single-element array); null if not an object. */
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  const v = unwrapSingleElementArray(value as Record<string, unknown> | Record<string, unknown>[] | null);
+  return v != null && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+}
+
+/** Objects of an aggregate list; non-object entries are dropped. */
+export function asRecordList(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is Record<string, unknown> => v != null && typeof v === "object" && !Array.isArray(v));
+}
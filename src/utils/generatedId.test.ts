@@ -0,0 +1,44 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  constructMailSetEntryId,
+  generatedIdToTimestamp,
+  mailSetEntryIdToDate,
+  timestampToGeneratedId,
+} from "./generatedId.js";
+import { GENERATED_MAX_ID, GENERATED_MIN_ID } from "../rest.js";
+
+describe("generatedId", () => {
+  test("timestamp 0 is GENERATED_MIN_ID", () => {
+    assert.equal(timestampToGeneratedId(0), GENERATED_MIN_ID);
+    assert.equal(generatedIdToTimestamp(GENERATED_MIN_ID), 0);
+  });
+
+  test("round-trips timestamps and keeps id order", () => {
+    const t1 = Date.UTC(2026, 0, 1);
+    const t2 = Date.UTC(2026, 2, 31, 23, 59, 59, 999);
+    const id1 = timestampToGeneratedId(t1);
+    const id2 = timestampToGeneratedId(t2);
+    assert.equal(id1.length, 12);
+    assert.equal(generatedIdToTimestamp(id1), t1);
+    assert.equal(generatedIdToTimestamp(id2), t2);
+    assert.ok(id1 < id2);
+  });
+
+  test("MailSetEntry ids encode the received date with 1024 ms resolution", () => {
+    const received = new Date(Date.UTC(2026, 0, 1, 12, 0, 0, 300));
+    const entryId = constructMailSetEntryId(received, timestampToGeneratedId(received.getTime()));
+    assert.equal(entryId.length, 18);
+    const decoded = mailSetEntryIdToDate(entryId).getTime();
+    assert.equal(decoded % 1024, 0);
+    assert.ok(decoded <= received.getTime() && received.getTime() - decoded < 1024);
+  });
+
+  test("MailSetEntry bounds from MIN/MAX mail ids enclose all entries of that time", () => {
+    const received = new Date(Date.UTC(2026, 0, 1));
+    const entryId = constructMailSetEntryId(received, "LBsV9V9--3-0");
+    assert.ok(constructMailSetEntryId(received, GENERATED_MIN_ID) < entryId);
+    assert.ok(constructMailSetEntryId(received, GENERATED_MAX_ID) > entryId);
+    assert.ok(constructMailSetEntryId(new Date(received.getTime() - 1024), GENERATED_MAX_ID) < entryId);
+  });
+});
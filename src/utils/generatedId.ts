@@ -0,0 +1,47 @@
+/**
+ * Conversions between ids and timestamps (same layout as the main app's EntityUtils / MailSetEntry helpers).
+ *
+ * Generated ids are 9 bytes, base64ext encoded: the creation time in ms, shifted 2 bits left, fills the first 44 bits.
+ * MailSetEntry ids are 13 bytes: the mail's received time / 1024 (4 bytes, big endian) followed by the mail's element id,
+ * so entries sort by received date and a date maps to an id range.
+ */
+
+import { base64ExtToBase64, base64ToBase64Ext } from "@tutao/tutanota-utils";
+
+const GENERATED_ID_BYTES_LENGTH = 9;
+/** Resolution of the timestamp in MailSetEntry ids (ms). */
+const MAIL_SET_ENTRY_TIME_RESOLUTION_MS = 1024;
+
+function idToBytes(id: string): Buffer {
+  return Buffer.from(base64ExtToBase64(id), "base64");
+}
+
+function bytesToId(bytes: Uint8Array): string {
+  return base64ToBase64Ext(Buffer.from(bytes).toString("base64"));
+}
+
+/** Generated id for a timestamp (ms). With serverBytes 0 it is the smallest id created at that time. */
+export function timestampToGeneratedId(timestamp: number, serverBytes = 0): string {
+  const hex = (timestamp * 4).toString(16) + "000000" + serverBytes.toString(16);
+  return bytesToId(Buffer.from(hex.padStart(GENERATED_ID_BYTES_LENGTH * 2, "0"), "hex"));
+}
+
+/** Creation timestamp (ms) encoded in a generated id. */
+export function generatedIdToTimestamp(id: string): number {
+  const hex = idToBytes(id).toString("hex");
+  return Math.floor(parseInt(hex.slice(0, 11), 16) / 4);
+}
+
+/** MailSetEntry id for a mail received at receivedDate; the mail id is its element id (generated id). */
+export function constructMailSetEntryId(receivedDate: Date, mailElementId: string): string {
+  const mailIdBytes = idToBytes(mailElementId);
+  const bytes = Buffer.alloc(4 + mailIdBytes.length);
+  bytes.writeUInt32BE(Math.trunc(receivedDate.getTime() / MAIL_SET_ENTRY_TIME_RESOLUTION_MS), 0);
+  mailIdBytes.copy(bytes, 4);
+  return bytesToId(bytes);
+}
+
+/** Received date encoded in a MailSetEntry id (rounded down to 1024 ms). */
+export function mailSetEntryIdToDate(entryId: string): Date {
+  return new Date(idToBytes(entryId).readUInt32BE(0) * MAIL_SET_ENTRY_TIME_RESOLUTION_MS);
+}